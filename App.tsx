@@ -1,226 +1,798 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { UploadCloud, Code2, Zap, Layout, ChevronRight, CheckCircle2, FileCode2, Loader2, FileText, AlertCircle, Server, Monitor, MessageSquare, Play } from 'lucide-react';
-// @ts-ignore
-import * as mammoth from 'mammoth';
-import { ParsedFeature, TechStack, AnalysisStatus, CodeScaffold } from './types';
-import FeatureCard from './components/FeatureCard';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { UploadCloud, Code2, Zap, Layout, ChevronRight, CheckCircle2, FileCode2, Loader2, FileText, AlertCircle, MessageSquare, Play, RefreshCw, Square, GitBranch, Sparkles, Columns3 } from 'lucide-react';
+import { ParsedFeature, TechStack, AnalysisStatus, CodeScaffold, ChatMessage, FileEditStatus, ProjectFile, ProjectSummary, SavedProject, ScaffoldVersion, StackPreferences, StackRecommendation, ArchitectureDiagram, DiagramKind, RequirementsAnalysis, ApiContract, SourceDocument } from './types';
+import FeatureList from './components/FeatureList';
 import ChatInterface from './components/ChatInterface';
 import CodePreview from './components/CodePreview';
+import { RepairProgress } from './components/ProblemsPanel';
 import LiveDemo from './components/LiveDemo';
-import { analyzeRequirementsFast, createProjectChat, generateCodeScaffold, parseDocumentWithGemini } from './services/geminiService';
-import { Chat } from '@google/genai';
-
-// Simple parser for the legacy text format
-const parseLegacyContent = (text: string): ParsedFeature[] => {
-  const parts = text.split('--- START OF FILE text/plain ---');
-  const features: ParsedFeature[] = [];
-
-  parts.forEach(part => {
-    if (!part.trim()) return;
-
-    // Extract Frontmatter
-    const frontMatterMatch = part.match(/---\n([\s\S]*?)\n---/);
-    if (frontMatterMatch) {
-      const frontMatter = frontMatterMatch[1];
-      const body = part.replace(frontMatterMatch[0], '').trim();
-
-      const typeMatch = frontMatter.match(/type:\s*"([^"]+)"/);
-      const titleMatch = frontMatter.match(/title:\s*"([^"]+)"/);
-      const iconMatch = frontMatter.match(/icon:\s*"([^"]+)"/);
-
-      if (titleMatch) {
-        features.push({
-          type: typeMatch ? typeMatch[1] : 'unknown',
-          title: titleMatch[1],
-          icon: iconMatch ? iconMatch[1] : 'file',
-          content: body,
-          raw: part
-        });
-      }
-    }
-  });
+import ProjectSwitcher from './components/ProjectSwitcher';
+import ScaffoldProgress from './components/ScaffoldProgress';
+import TraceabilityMatrix from './components/TraceabilityMatrix';
+import TechStackSelector from './components/TechStackSelector';
+import StackRecommendations from './components/StackRecommendations';
+import StackComparison from './components/StackComparison';
+import ArchitectureDiagrams from './components/ArchitectureDiagrams';
+import AnalysisView from './components/AnalysisView';
+import ContractPanel from './components/ContractPanel';
+import RequirementsReview from './components/RequirementsReview';
+import ImportReview from './components/ImportReview';
+import ColumnMapper from './components/ColumnMapper';
+import ImportDiagnostics from './components/ImportDiagnostics';
+import SourceDocuments from './components/SourceDocuments';
+import DocumentViewer from './components/DocumentViewer';
+import { analyzeRequirementsFast, createProjectChat, DesignContext, generateApiContract, generateArchitectureDiagrams, proposeScaffoldEdits, recommendTechStacks, repairScaffoldFiles, reviewRequirements } from './services/geminiService';
+import { getActiveProvider, getProvider, PROVIDER_IDS, ProjectChat, ProviderId, setActiveProvider } from './services/providers';
+import { deleteProject, getLastProjectId, listProjects, loadProject, parseProjectFile, saveProject, serializeProject, setLastProjectId } from './services/projectStorage';
+import { downloadBlob } from './services/projectExport';
+import { createId } from './services/ids';
+import { applyFileEdit, getPendingEdits, getScaffoldFileContent, setEditStatus } from './services/scaffoldEdits';
+import { appendVersion, createScaffoldVersion } from './services/scaffoldHistory';
+import { getLinkedFiles } from './services/traceability';
+import { getBrokenFiles, mergeRepairedFiles, validateScaffold } from './services/scaffoldValidation';
+import { checkStackCompatibility, isSameStack, isStackComplete } from './services/stackCatalog';
+import { createComparison, MAX_COMPARED_STACKS, runStackComparison, StackComparison as Comparison } from './services/stackComparison';
+import { checkContract } from './services/apiContract';
+import { attachFindings, dismissFinding } from './services/requirementsReview';
+import { ACCEPTED_FILE_TYPES, FileDiagnostics, applyDocumentImport, extractFeatures, readDocument } from './services/documentImport';
+import { ColumnMapping, Table } from './services/importers';
+import { DuplicateCandidate, findDuplicates, mergeDuplicates } from './services/featureMerge';
+import { addFilesToScaffold, buildDiagramFiles, renderDiagram } from './services/diagrams';
+import { createPipeline, hasUnfinishedStages, runScaffoldPipeline, ScaffoldPipeline } from './services/scaffoldPipeline';
 
-  return features;
-};
+const EMPTY_STACK: TechStack = { language: '', frontendFramework: '', backendFramework: '' };
+const CHAT_GREETING: ChatMessage = { role: 'model', text: 'Requirements loaded. I am ready to assist with your stack.' };
 
-const LANGUAGES = ['TypeScript', 'JavaScript', 'Python', 'Go', 'Rust', 'Java'];
-const FRONTEND_FRAMEWORKS = ['React', 'Next.js', 'Vue', 'Nuxt', 'Svelte', 'Angular'];
-const BACKEND_FRAMEWORKS = ['NestJS', 'Express', 'Django', 'FastAPI', 'Spring Boot', 'Gin (Go)', 'Actix (Rust)'];
+// Delay before state changes are written to IndexedDB
+const AUTOSAVE_DELAY_MS = 600;
+// Repair rounds before giving up on files the model keeps getting wrong
+const MAX_REPAIR_ROUNDS = 3;
+
+type ProjectMeta = Pick<SavedProject, 'id' | 'name' | 'createdAt'>;
+
+interface ImportReviewState {
+  features: ParsedFeature[];
+  documents: SourceDocument[];
+  candidates: DuplicateCandidate[];
+}
+
+// A spreadsheet import waiting for its columns to be confirmed
+interface ColumnMappingRequest {
+  fileName: string;
+  table: Table;
+  detected: ColumnMapping;
+  resolve: (mapping: ColumnMapping | null) => void;
+}
 
 const App: React.FC = () => {
   const [features, setFeatures] = useState<ParsedFeature[]>([]);
-  const [techStack, setTechStack] = useState<TechStack>({ language: '', frontendFramework: '', backendFramework: '' });
-  const [analysis, setAnalysis] = useState<string>('');
+  const [techStack, setTechStack] = useState<TechStack>(EMPTY_STACK);
+  const [analysis, setAnalysis] = useState<RequirementsAnalysis | null>(null);
+  // Sections parsed so far while the analysis streams; only shown, never used to generate from
+  const [partialAnalysis, setPartialAnalysis] = useState<RequirementsAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<ProjectChat | null>(null);
   const [codeScaffold, setCodeScaffold] = useState<CodeScaffold | null>(null);
   const [isParsing, setIsParsing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<SourceDocument[]>([]);
+  // An import with possible duplicates, held back until they are reviewed
+  const [importReview, setImportReview] = useState<ImportReviewState | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMappingRequest | null>(null);
   const [parseError, setParseError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'chat' | 'code' | 'demo'>('chat');
+  // Blocks of legacy files that were skipped or only partly read during the last import
+  const [importDiagnostics, setImportDiagnostics] = useState<FileDiagnostics[]>([]);
+  const [viewMode, setViewMode] = useState<'chat' | 'code' | 'demo' | 'trace'>('chat');
+  const [selectedFeatureTitle, setSelectedFeatureTitle] = useState<string | null>(null);
+  // Feature whose source passage is shown; closing the viewer keeps the selection
+  const [sourceFeatureTitle, setSourceFeatureTitle] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(() => getActiveProvider().id);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [analysisStale, setAnalysisStale] = useState(false);
+  const [scaffoldStale, setScaffoldStale] = useState(false);
+  const [streamedFiles, setStreamedFiles] = useState<ProjectFile[]>([]);
+  const [scaffoldVersions, setScaffoldVersions] = useState<ScaffoldVersion[]>([]);
+  // Last chunked generation run, kept while it has stages left to resume
+  const [pipeline, setPipeline] = useState<ScaffoldPipeline | null>(null);
+  const [repairProgress, setRepairProgress] = useState<RepairProgress | null>(null);
+  const [repairError, setRepairError] = useState<string | null>(null);
+  const [showRecommendations, setShowRecommendations] = useState(false);
+  const [recommendations, setRecommendations] = useState<StackRecommendation[] | null>(null);
+  const [isRecommending, setIsRecommending] = useState(false);
+  const [recommendError, setRecommendError] = useState<string | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+  const [comparedStacks, setComparedStacks] = useState<TechStack[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [analysisTab, setAnalysisTab] = useState<'summary' | 'contract' | 'diagrams'>('summary');
+  const [contract, setContract] = useState<ApiContract | null>(null);
+  const [isGeneratingContract, setIsGeneratingContract] = useState(false);
+  const [contractError, setContractError] = useState<string | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [diagrams, setDiagrams] = useState<ArchitectureDiagram[]>([]);
+  const [isGeneratingDiagrams, setIsGeneratingDiagrams] = useState(false);
+  const [diagramError, setDiagramError] = useState<string | null>(null);
   
   // Ref to reset input
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set when features change without new analysis being wanted (restoring a project, manual edits)
+  const skipAnalysisRef = useRef(false);
+  // In-flight requests, so they can be cancelled or superseded
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const repairAbortRef = useRef<AbortController | null>(null);
+  const recommendAbortRef = useRef<AbortController | null>(null);
+  const comparisonAbortRef = useRef<AbortController | null>(null);
+  const diagramsAbortRef = useRef<AbortController | null>(null);
+  const contractAbortRef = useRef<AbortController | null>(null);
+  const reviewAbortRef = useRef<AbortController | null>(null);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const scaffoldProblems = useMemo(() => (codeScaffold ? validateScaffold(codeScaffold) : []), [codeScaffold]);
+  const sourceFeature = features.find(feature => feature.title === sourceFeatureTitle);
+  const contractIssues = useMemo(() => (contract ? checkContract(contract) : []), [contract]);
+  // What generation and chat build on: the analysis and, once derived, the contract
+  const designContext: DesignContext = { analysis, contract };
 
-    setIsParsing(true);
-    setParseError(null);
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to list projects", error);
+    }
+  }, []);
+
+  const resetWorkspace = () => {
+    repairAbortRef.current?.abort();
+    recommendAbortRef.current?.abort();
+    comparisonAbortRef.current?.abort();
+    diagramsAbortRef.current?.abort();
+    contractAbortRef.current?.abort();
+    reviewAbortRef.current?.abort();
+    setPipeline(null);
+    setRecommendations(null);
+    setRecommendError(null);
+    setComparison(null);
+    setDiagramError(null);
+    setContractError(null);
+    setAnalysisError(null);
+    setReviewError(null);
     setFeatures([]);
+    setDocuments([]);
+    setImportReview(null);
     setStatus(AnalysisStatus.IDLE);
-    setAnalysis('');
+    setAnalysis(null);
     setChatSession(null);
     setCodeScaffold(null);
+    setScaffoldVersions([]);
+    setDiagrams([]);
+    setContract(null);
+    setMessages([]);
+    setAnalysisStale(false);
+    setScaffoldStale(false);
+    setViewMode('chat');
+  };
+
+  const applyProject = (saved: SavedProject) => {
+    repairAbortRef.current?.abort();
+    recommendAbortRef.current?.abort();
+    comparisonAbortRef.current?.abort();
+    diagramsAbortRef.current?.abort();
+    contractAbortRef.current?.abort();
+    reviewAbortRef.current?.abort();
+    setPipeline(null);
+    setRecommendations(null);
+    setRecommendError(null);
+    setComparison(null);
+    setDiagramError(null);
+    setContractError(null);
+    setAnalysisError(null);
+    setReviewError(null);
+    skipAnalysisRef.current = Boolean(saved.analysis);
+    setProject({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+    setLastProjectId(saved.id);
+    setParseError(null);
+    setImportDiagnostics([]);
+    setProjectError(null);
+    setFeatures(saved.features);
+    setDocuments(saved.documents ?? []);
+    setImportReview(null);
+    setTechStack(saved.techStack);
+    setAnalysis(saved.analysis);
+    setCodeScaffold(saved.codeScaffold);
+    // Projects saved before version history start with their current scaffold as the first version
+    setScaffoldVersions(saved.scaffoldVersions ?? (saved.codeScaffold
+      ? [createScaffoldVersion(saved.codeScaffold, 'generation', 'Generation 1')]
+      : []));
+    setDiagrams(saved.diagrams ?? []);
+    setContract(saved.contract ?? null);
+    setMessages(saved.messages.filter(msg => !msg.isThinking));
+    setAnalysisStale(Boolean(saved.analysisStale));
+    setScaffoldStale(Boolean(saved.scaffoldStale));
     setViewMode('chat');
 
-    const fileName = file.name.toLowerCase();
-    const fileType = file.type;
+    if (saved.analysis) {
+      // Rebuild the chat from its saved history so the conversation carries on
+      setChatSession(createProjectChat(saved.features, saved.techStack, { analysis: saved.analysis, contract: saved.contract ?? null }, saved.messages));
+      setStatus(AnalysisStatus.COMPLETE);
+    } else {
+      setChatSession(null);
+      setStatus(AnalysisStatus.IDLE);
+    }
+  };
 
-    try {
-      if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-        // Handle PDF
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          try {
-            const result = event.target?.result as string;
-            // Robust check for data URL format
-            const base64String = result.includes(',') ? result.split(',')[1] : result;
-            const parsed = await parseDocumentWithGemini(base64String, 'application/pdf');
-            if (parsed.length === 0) throw new Error("No features extracted from PDF");
-            setFeatures(parsed);
-          } catch (err) {
-            console.error(err);
-            setParseError("Failed to analyze PDF content. Ensure the file is text-readable.");
-          } finally {
-            setIsParsing(false);
-          }
-        };
-        reader.onerror = () => {
-           setParseError("Error reading file.");
-           setIsParsing(false);
-        };
-        reader.readAsDataURL(file);
-
-      } else if (
-        fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || 
-        fileName.endsWith('.docx')
-      ) {
-        // Handle DOCX
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          try {
-            const arrayBuffer = event.target?.result as ArrayBuffer;
-            // Handle both default and named export possibilities for mammoth
-            const extractRawText = mammoth.extractRawText || (mammoth as any).default?.extractRawText;
-            
-            if (!extractRawText) throw new Error("Docx parser not loaded correctly.");
-            
-            const result = await extractRawText({ arrayBuffer: arrayBuffer });
-            const text = result.value;
-            
-            if (!text.trim()) {
-                throw new Error("Document appears empty.");
-            }
-
-            // Send extracted text to Gemini for structuring
-            const parsed = await parseDocumentWithGemini(text, 'text/plain');
-            setFeatures(parsed);
-          } catch (err) {
-            console.error(err);
-            setParseError("Failed to analyze Word document.");
-          } finally {
-            setIsParsing(false);
-          }
-        };
-        reader.onerror = () => {
-           setParseError("Error reading file.");
-           setIsParsing(false);
-        };
-        reader.readAsArrayBuffer(file);
-
-      } else {
-        // Handle Text/MD (Legacy or Unstructured) - Default Fallback
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          try {
-            const text = event.target?.result as string;
-            // Try legacy parser first
-            let parsed = parseLegacyContent(text);
-            
-            // If legacy parser found nothing, treat as unstructured text and ask Gemini
-            if (parsed.length === 0 && text.trim().length > 0) {
-              parsed = await parseDocumentWithGemini(text, 'text/plain');
-            }
-            
-            if (parsed.length === 0) {
-               setParseError("No features detected in the file. Is it empty?");
-            } else {
-               setFeatures(parsed);
-            }
-          } catch (err) {
-             console.error(err);
-             setParseError("Failed to parse text file.");
-          } finally {
-            setIsParsing(false);
-          }
-        };
-        reader.onerror = () => {
-           setParseError("Error reading file.");
-           setIsParsing(false);
-        };
-        reader.readAsText(file);
+  // Reopen the last project on start
+  useEffect(() => {
+    const restore = async () => {
+      await refreshProjects();
+      const lastId = getLastProjectId();
+      if (!lastId) return;
+      try {
+        const saved = await loadProject(lastId);
+        if (saved) applyProject(saved);
+      } catch (error) {
+        console.error("Failed to restore project", error);
       }
+    };
+    restore();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Autosave the current project shortly after anything changes
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject({
+          ...project,
+          updatedAt: Date.now(),
+          features,
+          documents,
+          techStack,
+          analysis,
+          codeScaffold,
+          messages,
+          scaffoldVersions,
+          contract,
+          diagrams,
+          analysisStale,
+          scaffoldStale,
+        });
+        await refreshProjects();
+      } catch (error) {
+        console.error("Failed to save project", error);
+        setProjectError("Could not save the project in this browser.");
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, features, documents, techStack, analysis, codeScaffold, messages, scaffoldVersions, contract, diagrams, analysisStale, scaffoldStale, refreshProjects]);
+
+  const handleSelectProject = async (id: string) => {
+    try {
+      const saved = await loadProject(id);
+      if (saved) applyProject(saved);
     } catch (error) {
       console.error(error);
-      setParseError("An unexpected error occurred during upload.");
-      setIsParsing(false);
-    } finally {
-        // Reset input value to allow re-uploading the same file
-        if (fileInputRef.current) {
-            fileInputRef.current.value = '';
+      setProjectError("Failed to open project.");
+    }
+  };
+
+  const handleNewProject = () => {
+    setProject(null);
+    setLastProjectId(null);
+    setParseError(null);
+    setImportDiagnostics([]);
+    setProjectError(null);
+    setTechStack(EMPTY_STACK);
+    resetWorkspace();
+  };
+
+  const handleRenameProject = (name: string) => {
+    setProject(prev => prev ? { ...prev, name } : prev);
+  };
+
+  const handleDeleteProject = async () => {
+    if (!project || !window.confirm(`Delete project "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      handleNewProject();
+      await refreshProjects();
+    } catch (error) {
+      console.error(error);
+      setProjectError("Failed to delete project.");
+    }
+  };
+
+  const handleExportProject = () => {
+    if (!project) return;
+    const json = serializeProject({
+      ...project,
+      updatedAt: Date.now(),
+      features,
+      documents,
+      techStack,
+      analysis,
+      codeScaffold,
+      messages,
+      scaffoldVersions,
+      contract,
+      diagrams,
+      analysisStale,
+      scaffoldStale,
+    });
+    const fileName = `${project.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'project'}.devstack.json`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), fileName);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await file.text());
+      await saveProject(imported);
+      applyProject(imported);
+      await refreshProjects();
+    } catch (error) {
+      console.error(error);
+      setProjectError(error instanceof Error ? error.message : "Failed to import project.");
+    }
+  };
+
+  const commitImport = (next: ParsedFeature[], nextDocuments: SourceDocument[]) => {
+    setDocuments(nextDocuments);
+    // The first import analyses right away; later ones keep the analysis and chat and flag them as out of date
+    if (features.length > 0) handleFeaturesChange(next);
+    else setFeatures(next);
+  };
+
+  const requestColumnMapping = (fileName: string, table: Table, detected: ColumnMapping) =>
+    new Promise<ColumnMapping | null>(resolve => {
+      setParseProgress(`Waiting for the columns of ${fileName}...`);
+      setColumnMapping({ fileName, table, detected, resolve });
+    });
+
+  const resolveColumnMapping = (mapping: ColumnMapping | null) => {
+    columnMapping?.resolve(mapping);
+    setColumnMapping(null);
+  };
+
+  // Imports one or more documents into the current project. A document imported before, or the one
+  // given by `replaceId`, only replaces its own features; near-duplicates go through a review first.
+  const importDocuments = async (files: File[], replaceId?: string) => {
+    if (files.length === 0) return;
+    setIsParsing(true);
+    setParseError(null);
+    setImportDiagnostics([]);
+    setProjectError(null);
+    let baseFeatures = features;
+    let baseDocuments = documents;
+    if (!project) {
+      resetWorkspace();
+      baseFeatures = [];
+      baseDocuments = [];
+      // A first import starts its own project, named after the first file
+      const projectId = createId();
+      setProject({ id: projectId, name: files[0].name.replace(/\.[^.]+$/, '') || 'Untitled project', createdAt: Date.now() });
+      setLastProjectId(projectId);
+    }
+
+    let next = { features: baseFeatures, documents: baseDocuments };
+    const added = new Set<ParsedFeature>();
+    const errors: string[] = [];
+    const diagnostics: FileDiagnostics[] = [];
+    for (const [index, file] of files.entries()) {
+      setParseProgress(files.length > 1 ? `Analyzing ${file.name} (${index + 1} of ${files.length})...` : `Analyzing ${file.name}...`);
+      try {
+        const content = await readDocument(file);
+        const previous = next.documents.find(document => (replaceId ? document.id === replaceId : document.name === file.name));
+        // Documents stored before their text was kept are parsed again so their features get source anchors
+        if (previous?.fingerprint === content.fingerprint && previous.content !== undefined) {
+          errors.push(`${file.name} has not changed since it was imported.`);
+          continue;
+        }
+        const extracted = await extractFeatures(content, { mapColumns: requestColumnMapping });
+        if (extracted.diagnostics.length > 0) diagnostics.push({ fileName: file.name, diagnostics: extracted.diagnostics });
+        if (extracted.features.length === 0) {
+          errors.push(`${file.name}: none of its blocks could be imported.`);
+          continue;
+        }
+        const result = applyDocumentImport(next.features, next.documents, content, extracted.features, previous?.id);
+        result.added.forEach(feature => added.add(feature));
+        next = result;
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : "Error reading file."}`);
+      }
+    }
+
+    setIsParsing(false);
+    setParseProgress(null);
+    // Reset input value to allow re-uploading the same file
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (errors.length > 0) setParseError(errors.join('\n'));
+    setImportDiagnostics(diagnostics);
+    if (next.documents === baseDocuments) return;
+
+    const candidates = findDuplicates(next.features, feature => added.has(feature));
+    if (candidates.length > 0) {
+      setImportReview({ ...next, candidates });
+    } else {
+      commitImport(next.features, next.documents);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importDocuments(Array.from(e.target.files ?? []));
+  };
+
+  const handleApplyImportReview = (accepted: DuplicateCandidate[]) => {
+    if (!importReview) return;
+    commitImport(mergeDuplicates(importReview.features, accepted), importReview.documents);
+    setImportReview(null);
+  };
+
+  // Incompatible combinations are caught here, before any request is made with them
+  const stackIssues = checkStackCompatibility(techStack);
+  const isStackReady = isStackComplete(techStack) && stackIssues.length === 0;
+
+  // Runs the fast analysis and opens a fresh architect chat.
+  // Pass the current messages to keep the conversation going with the updated context.
+  const runAnalysis = async (history?: ChatMessage[]) => {
+    // A newer run supersedes whatever is still running
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const previousAnalysis = analysis;
+
+    setStatus(AnalysisStatus.ANALYZING);
+    setAnalysis(null);
+    setPartialAnalysis(null);
+    setAnalysisError(null);
+    try {
+      // 1. Fast Analysis with Flash Lite
+      const result = await analyzeRequirementsFast(features, techStack, controller.signal, partial => {
+        if (!controller.signal.aborted) setPartialAnalysis(partial);
+      });
+      if (controller.signal.aborted) return;
+      setAnalysis(result);
+      setAnalysisStale(false);
+
+      // 2. Initialize Chat with Pro, grounded in the analysis
+      const chat = createProjectChat(features, techStack, { analysis: result, contract }, history);
+      setChatSession(chat);
+      setMessages(history ?? [CHAT_GREETING]);
+      
+      setStatus(AnalysisStatus.COMPLETE);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Cancelled by the user: put back what was there before. Superseded runs leave state alone.
+        if (analysisAbortRef.current === controller) {
+          setAnalysis(previousAnalysis);
+          setStatus(previousAnalysis ? AnalysisStatus.COMPLETE : AnalysisStatus.IDLE);
         }
+        return;
+      }
+      setAnalysisError(error instanceof Error ? error.message : "Failed to analyze requirements.");
+      setStatus(AnalysisStatus.ERROR);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setPartialAnalysis(null);
+      }
     }
   };
 
   // Effect to trigger analysis when tech stack and features are ready
   useEffect(() => {
-    const runAnalysis = async () => {
-      if (features.length > 0 && techStack.language && techStack.frontendFramework && techStack.backendFramework && !isParsing) {
-        setStatus(AnalysisStatus.ANALYZING);
-        try {
-          // 1. Fast Analysis with Flash Lite
-          const result = await analyzeRequirementsFast(features, techStack);
-          setAnalysis(result);
-
-          // 2. Initialize Chat with Pro
-          const chat = createProjectChat(features, techStack);
-          setChatSession(chat);
-          
-          setStatus(AnalysisStatus.COMPLETE);
-        } catch (error) {
-          console.error(error);
-          setStatus(AnalysisStatus.ERROR);
-        }
+    if (skipAnalysisRef.current) {
+      skipAnalysisRef.current = false;
+      return;
+    }
+
+    if (features.length > 0 && isStackReady && !isParsing) {
+      runAnalysis();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [features, techStack, isParsing, providerId]);
+
+  // Manual edits keep the current results but flag them as out of date
+  const handleFeaturesChange = (next: ParsedFeature[]) => {
+    skipAnalysisRef.current = true;
+    setFeatures(next);
+    if (analysis || isStackReady) setAnalysisStale(true);
+    if (codeScaffold) setScaffoldStale(true);
+  };
+
+  // Findings do not change what the requirements say, so neither the analysis nor the scaffold go stale
+  const applyFindingChange = (update: (features: ParsedFeature[]) => ParsedFeature[]) => {
+    skipAnalysisRef.current = true;
+    setFeatures(update);
+  };
+
+  const handleReviewRequirements = async () => {
+    reviewAbortRef.current?.abort();
+    const controller = new AbortController();
+    reviewAbortRef.current = controller;
+
+    setIsReviewing(true);
+    setReviewError(null);
+    try {
+      const findings = await reviewRequirements(features, controller.signal);
+      // Matched by title, so features reordered or edited during the review still get their findings
+      if (!controller.signal.aborted) applyFindingChange(prev => attachFindings(prev, findings));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      setReviewError(error instanceof Error ? error.message : "Failed to review the requirements.");
+    } finally {
+      if (reviewAbortRef.current === controller) {
+        reviewAbortRef.current = null;
+        setIsReviewing(false);
       }
-    };
+    }
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const handleRecommendStack = async (preferences: StackPreferences) => {
+    recommendAbortRef.current?.abort();
+    const controller = new AbortController();
+    recommendAbortRef.current = controller;
+
+    setIsRecommending(true);
+    setRecommendError(null);
+    try {
+      const result = await recommendTechStacks(features, preferences, controller.signal);
+      if (!controller.signal.aborted) setRecommendations(result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      setRecommendError(error instanceof Error ? error.message : "Failed to recommend a tech stack.");
+    } finally {
+      if (recommendAbortRef.current === controller) {
+        recommendAbortRef.current = null;
+        setIsRecommending(false);
+      }
+    }
+  };
+
+  // Replaces the whole stack, so optional fields the candidate leaves open are cleared too
+  const handleSelectRecommendation = (stack: TechStack) => {
+    setTechStack({ ...EMPTY_STACK, ...stack });
+  };
+
+  const isComparisonFull = comparedStacks.length >= MAX_COMPARED_STACKS;
+
+  // Stacks already in the lineup are not added twice
+  const handleAddToComparison = (stack: TechStack) => {
+    setComparedStacks(prev => (prev.some(compared => isSameStack(compared, stack)) ? prev : [...prev, { ...stack }]));
+    setShowComparison(true);
+  };
 
-    runAnalysis();
-  }, [features, techStack, isParsing]);
+  const handleRunComparison = async (includeManifest: boolean) => {
+    comparisonAbortRef.current?.abort();
+    const controller = new AbortController();
+    comparisonAbortRef.current = controller;
 
-  const handleGenerateCode = async () => {
+    setIsComparing(true);
+    try {
+      await runStackComparison(features, createComparison(comparedStacks, includeManifest), {
+        signal: controller.signal,
+        onUpdate: setComparison,
+      });
+    } catch (error) {
+      // Only an abort gets here, column and summary failures are recorded in the comparison
+      if (!controller.signal.aborted) console.error(error);
+    } finally {
+      if (comparisonAbortRef.current === controller) {
+        comparisonAbortRef.current = null;
+        setIsComparing(false);
+      }
+    }
+  };
+
+  const handleGenerateCode = async (resume = false) => {
     if (status !== AnalysisStatus.COMPLETE && status !== AnalysisStatus.GENERATING_CODE) return;
     
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setStreamedFiles([]);
+    setRepairError(null);
     setStatus(AnalysisStatus.GENERATING_CODE);
+    // Resuming keeps the plan and every finished stage of the previous run
+    const initial = resume && pipeline ? pipeline : createPipeline();
+    setPipeline(initial);
     try {
-      const scaffold = await generateCodeScaffold(features, techStack);
+      const scaffold = await runScaffoldPipeline(features, techStack, designContext, initial, {
+        signal: controller.signal,
+        onUpdate: setPipeline,
+        onFile: (file) => setStreamedFiles(prev => [...prev, file]),
+      });
+      setPipeline(null);
       setCodeScaffold(scaffold);
+      setScaffoldVersions(prev => {
+        const generations = prev.filter(version => version.source === 'generation').length;
+        return appendVersion(prev, createScaffoldVersion(scaffold, 'generation', `Generation ${generations + 1}`));
+      });
+      setScaffoldStale(false);
       setViewMode('demo'); // Switch to demo immediately
       setStatus(AnalysisStatus.COMPLETE);
     } catch (error) {
-      console.error("Code generation failed", error);
+      if (!controller.signal.aborted) {
+        console.error("Code generation failed", error);
+      }
       setStatus(AnalysisStatus.COMPLETE); // Revert to complete to show previous state
+    } finally {
+      generationAbortRef.current = null;
+      setStreamedFiles([]);
+    }
+  };
+
+  // Edit mode in the chat: ask for file changes against the current scaffold
+  const handleRequestEdits = async (request: string, signal: AbortSignal): Promise<ChatMessage> => {
+    if (!codeScaffold) throw new Error("No scaffold to edit.");
+    const proposal = await proposeScaffoldEdits(features, techStack, designContext, codeScaffold, messages, request, signal);
+    const reply: ChatMessage = { role: 'model', text: proposal.reply, edits: proposal.edits };
+    // Rebuild the session so normal chat turns also know about this exchange
+    setChatSession(createProjectChat(features, techStack, designContext, [...messages, { role: 'user', text: request }, reply]));
+    return reply;
+  };
+
+  const handleEditDecision = (editId: string, decision: Exclude<FileEditStatus, 'pending'>) => {
+    const edit = getPendingEdits(messages).find(pending => pending.id === editId);
+    if (!edit) return;
+    if (decision === 'accepted' && codeScaffold) {
+      const updated = applyFileEdit(codeScaffold, edit);
+      setCodeScaffold(updated);
+      setScaffoldVersions(prev => appendVersion(prev, createScaffoldVersion(updated, 'edit', `${edit.action} ${edit.path}`)));
+    }
+    setMessages(prev => setEditStatus(prev, editId, decision));
+  };
+
+  // Typing in the editor updates the scaffold directly; a version is only recorded on save
+  const handleFileContentChange = (path: string, content: string) => {
+    setCodeScaffold(prev => prev
+      ? applyFileEdit(prev, { id: path, action: 'modify', path, content, description: '', status: 'accepted' })
+      : prev);
+  };
+
+  const handleRevertFile = (path: string) => {
+    const baseline = scaffoldVersions[scaffoldVersions.length - 1]?.scaffold;
+    if (!baseline) return;
+    const content = getScaffoldFileContent(baseline, path);
+    setCodeScaffold(prev => {
+      if (!prev) return prev;
+      return content === null
+        ? applyFileEdit(prev, { id: path, action: 'delete', path, description: '', status: 'accepted' })
+        : applyFileEdit(prev, { id: path, action: 'modify', path, content, description: '', status: 'accepted' });
+    });
+  };
+
+  const handleSaveVersion = () => {
+    if (!codeScaffold) return;
+    setScaffoldVersions(prev => appendVersion(prev, createScaffoldVersion(codeScaffold, 'manual', 'Manual edits')));
+  };
+
+  const handleGenerateContract = async () => {
+    contractAbortRef.current?.abort();
+    const controller = new AbortController();
+    contractAbortRef.current = controller;
+
+    setIsGeneratingContract(true);
+    setContractError(null);
+    try {
+      const result = await generateApiContract(features, techStack, analysis, controller.signal);
+      if (!controller.signal.aborted) handleContractChange(result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      setContractError(error instanceof Error ? error.message : "Failed to derive the API contract.");
+    } finally {
+      if (contractAbortRef.current === controller) {
+        contractAbortRef.current = null;
+        setIsGeneratingContract(false);
+      }
+    }
+  };
+
+  // Code generated against an older contract no longer matches it
+  const handleContractChange = (next: ApiContract) => {
+    setContract(next);
+    if (codeScaffold) setScaffoldStale(true);
+  };
+
+  const handleGenerateDiagrams = async () => {
+    diagramsAbortRef.current?.abort();
+    const controller = new AbortController();
+    diagramsAbortRef.current = controller;
+
+    setIsGeneratingDiagrams(true);
+    setDiagramError(null);
+    try {
+      const result = await generateArchitectureDiagrams(features, techStack, codeScaffold, controller.signal);
+      if (!controller.signal.aborted) setDiagrams(result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      setDiagramError(error instanceof Error ? error.message : "Failed to generate architecture diagrams.");
+    } finally {
+      if (diagramsAbortRef.current === controller) {
+        diagramsAbortRef.current = null;
+        setIsGeneratingDiagrams(false);
+      }
+    }
+  };
+
+  // Diagrams that do not render still go in as Mermaid source, just without an SVG
+  const handleAddDiagramsToScaffold = async () => {
+    if (!codeScaffold) return;
+    const svgs: Partial<Record<DiagramKind, string>> = {};
+    for (const diagram of diagrams) {
+      try {
+        svgs[diagram.kind] = await renderDiagram(diagram.source);
+      } catch (error) {
+        console.warn(`Skipping the ${diagram.kind} SVG`, error);
+      }
+    }
+    const updated = addFilesToScaffold(codeScaffold, buildDiagramFiles(diagrams, svgs));
+    setCodeScaffold(updated);
+    setScaffoldVersions(prev => appendVersion(prev, createScaffoldVersion(updated, 'docs', 'Architecture diagrams')));
+  };
+
+  // Sends the broken files back until validation passes or the rounds run out
+  const handleRepair = async () => {
+    if (!codeScaffold) return;
+    const controller = new AbortController();
+    repairAbortRef.current = controller;
+    setRepairError(null);
+
+    let current = codeScaffold;
+    let problems = validateScaffold(current);
+    const initialCount = problems.length;
+    try {
+      for (let round = 1; round <= MAX_REPAIR_ROUNDS && problems.length > 0; round++) {
+        const brokenFiles = getBrokenFiles(current, problems);
+        setRepairProgress({ round, maxRounds: MAX_REPAIR_ROUNDS, fileCount: brokenFiles.length });
+        const repaired = await repairScaffoldFiles(features, techStack, current, brokenFiles, problems, controller.signal);
+        if (repaired.length === 0) break;
+        current = mergeRepairedFiles(current, repaired);
+        problems = validateScaffold(current);
+      }
+      if (problems.length > 0) {
+        setRepairError(`${problems.length} problem${problems.length === 1 ? '' : 's'} left after ${MAX_REPAIR_ROUNDS} repair rounds.`);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Scaffold repair failed", error);
+        setRepairError(error instanceof Error ? error.message : "Repair failed.");
+      }
+    } finally {
+      if (repairAbortRef.current === controller) {
+        repairAbortRef.current = null;
+        setRepairProgress(null);
+      }
     }
+
+    // Finished rounds are kept when a later one fails; stopping or switching projects discards them
+    if (current !== codeScaffold && !controller.signal.aborted) {
+      setCodeScaffold(current);
+      setScaffoldVersions(prev => appendVersion(prev, createScaffoldVersion(
+        current, 'repair', `Repair (${initialCount - problems.length} of ${initialCount} problems fixed)`
+      )));
+    }
+  };
+
+  // Restoring never drops history: the old scaffold comes back as a new version
+  const handleRestoreVersion = (versionId: string) => {
+    const index = scaffoldVersions.findIndex(version => version.id === versionId);
+    if (index === -1) return;
+    const restored = scaffoldVersions[index].scaffold;
+    setCodeScaffold(restored);
+    setScaffoldVersions(prev => appendVersion(prev, createScaffoldVersion(restored, 'restore', `Restored v${index + 1}`)));
   };
 
   return (
@@ -237,13 +809,42 @@ const App: React.FC = () => {
               Import requirements, select your full stack, and build with AI.
             </p>
           </div>
-          <div className="mt-4 md:mt-0 flex items-center space-x-4">
-             <div className="px-4 py-2 bg-slate-900 rounded-lg border border-slate-800 text-xs font-mono text-slate-500">
-                Powered by Gemini 2.5 Flash Lite & 3 Pro
-             </div>
+          <div className="mt-4 md:mt-0 flex flex-wrap items-center gap-4">
+             <ProjectSwitcher
+                projects={projects}
+                currentProjectId={project?.id ?? null}
+                currentProjectName={project?.name ?? ''}
+                disabled={isParsing || status === AnalysisStatus.ANALYZING || status === AnalysisStatus.GENERATING_CODE}
+                onSelect={handleSelectProject}
+                onNew={handleNewProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+                onExport={handleExportProject}
+                onImport={handleImportProject}
+             />
+             <label className="flex items-center px-4 py-2 bg-slate-900 rounded-lg border border-slate-800 text-xs font-mono text-slate-500">
+                <span className="mr-2">AI Provider</span>
+                <select
+                  value={providerId}
+                  onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                  disabled={isParsing || status === AnalysisStatus.ANALYZING || status === AnalysisStatus.GENERATING_CODE}
+                  className="bg-slate-800 text-slate-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {PROVIDER_IDS.map(id => (
+                    <option key={id} value={id}>{getProvider(id).label}</option>
+                  ))}
+                </select>
+             </label>
           </div>
         </header>
 
+        {projectError && (
+          <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg flex items-center text-sm text-red-400">
+            <AlertCircle size={16} className="mr-2" />
+            {projectError}
+          </div>
+        )}
+
         {/* Main Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
@@ -259,9 +860,10 @@ const App: React.FC = () => {
                 <input 
                   ref={fileInputRef}
                   type="file" 
-                  accept=".txt,.md,.pdf,.docx"
+                  accept={ACCEPTED_FILE_TYPES}
+                  multiple
                   onChange={handleFileUpload}
-                  disabled={isParsing}
+                  disabled={isParsing || Boolean(importReview)}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                 />
                 <div className="flex flex-col items-center">
@@ -273,103 +875,132 @@ const App: React.FC = () => {
                     </div>
                   )}
                   <p className="text-sm font-medium text-slate-300">
-                    {isParsing ? "Analyzing Document..." : "Drop PDF, DOCX, or Text file here"}
+                    {isParsing
+                      ? parseProgress ?? "Analyzing Document..."
+                      : documents.length > 0 ? "Drop more documents to add their features" : "Drop PDF, DOCX, Markdown, HTML or Text files here"}
                   </p>
                   <p className="text-xs text-slate-500 mt-1">
-                    AI will automatically extract requirements
+                    CSV/XLSX backlogs and Jira or Linear JSON exports are mapped directly; AI extracts requirements from the rest
                   </p>
                 </div>
               </div>
               {parseError && (
                 <div className="mt-4 p-3 bg-red-900/20 border border-red-800 rounded-lg flex items-center text-sm text-red-400">
-                  <AlertCircle size={16} className="mr-2" />
-                  {parseError}
+                  <AlertCircle size={16} className="mr-2 shrink-0" />
+                  <span className="whitespace-pre-line">{parseError}</span>
                 </div>
               )}
+              {importDiagnostics.length > 0 && (
+                <ImportDiagnostics reports={importDiagnostics} onDismiss={() => setImportDiagnostics([])} />
+              )}
+              {documents.length > 0 && (
+                <SourceDocuments
+                  documents={documents}
+                  features={features}
+                  disabled={isParsing || Boolean(importReview)}
+                  onReimport={(id, file) => importDocuments([file], id)}
+                />
+              )}
             </section>
 
+            {columnMapping && (
+              <ColumnMapper
+                key={columnMapping.fileName}
+                fileName={columnMapping.fileName}
+                table={columnMapping.table}
+                initialMapping={columnMapping.detected}
+                onConfirm={resolveColumnMapping}
+                onCancel={() => resolveColumnMapping(null)}
+              />
+            )}
+
+            {importReview && (
+              <ImportReview
+                features={importReview.features}
+                candidates={importReview.candidates}
+                documents={importReview.documents}
+                onApply={handleApplyImportReview}
+                onDiscard={() => setImportReview(null)}
+              />
+            )}
+
             {/* 2. Tech Stack Selector */}
             <section className="bg-slate-900 rounded-xl border border-slate-800 p-6">
-              <h2 className="text-xl font-semibold mb-4 flex items-center text-white">
-                <Code2 className="mr-2 text-green-500" /> Select Tech Stack
-              </h2>
-              
-              <div className="space-y-6">
-                <div>
-                  <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Preferred Language</label>
-                  <div className="grid grid-cols-3 gap-2">
-                    {LANGUAGES.map(lang => (
-                      <button
-                        key={lang}
-                        onClick={() => setTechStack(prev => ({ ...prev, language: lang }))}
-                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                          techStack.language === lang 
-                            ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' 
-                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                        }`}
-                      >
-                        {lang}
-                      </button>
-                    ))}
-                  </div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold flex items-center text-white">
+                  <Code2 className="mr-2 text-green-500" /> Select Tech Stack
+                </h2>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => setShowRecommendations(!showRecommendations)}
+                    className={`flex items-center px-2 py-1 text-xs rounded transition-colors ${
+                      showRecommendations ? 'bg-green-700 text-white' : 'text-slate-400 bg-slate-800 hover:text-white'
+                    }`}
+                    title="Score candidate stacks against the requirements"
+                  >
+                    <Sparkles size={12} className="mr-1" /> Recommend
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (!showComparison && comparedStacks.length === 0 && isStackReady) setComparedStacks([{ ...techStack }]);
+                      setShowComparison(!showComparison);
+                    }}
+                    className={`ml-2 flex items-center px-2 py-1 text-xs rounded transition-colors ${
+                      showComparison ? 'bg-purple-600 text-white' : 'text-slate-400 bg-slate-800 hover:text-white'
+                    }`}
+                    title="Analyse up to three stacks side by side"
+                  >
+                    <Columns3 size={12} className="mr-1" /> Compare
+                  </button>
                 </div>
+              </div>
 
-                <div>
-                  <label className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                    <Monitor size={14} className="mr-1"/> Frontend Framework
-                  </label>
-                  <div className="grid grid-cols-2 gap-2">
-                    {FRONTEND_FRAMEWORKS.map(fw => (
-                      <button
-                        key={fw}
-                        onClick={() => setTechStack(prev => ({ ...prev, frontendFramework: fw }))}
-                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                          techStack.frontendFramework === fw 
-                            ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50' 
-                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                        }`}
-                      >
-                        {fw}
-                      </button>
-                    ))}
-                  </div>
-                </div>
+              {showRecommendations && (
+                <StackRecommendations
+                  recommendations={recommendations}
+                  currentStack={techStack}
+                  isLoading={isRecommending}
+                  error={recommendError}
+                  onRecommend={features.length > 0 && !isParsing ? handleRecommendStack : undefined}
+                  onCancel={() => recommendAbortRef.current?.abort()}
+                  onSelect={handleSelectRecommendation}
+                  onCompare={isComparisonFull ? undefined : handleAddToComparison}
+                />
+              )}
 
-                <div>
-                  <label className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                    <Server size={14} className="mr-1"/> Backend Framework
-                  </label>
-                  <div className="grid grid-cols-2 gap-2">
-                    {BACKEND_FRAMEWORKS.map(fw => (
-                      <button
-                        key={fw}
-                        onClick={() => setTechStack(prev => ({ ...prev, backendFramework: fw }))}
-                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                          techStack.backendFramework === fw 
-                            ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' 
-                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                        }`}
-                      >
-                        {fw}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              </div>
+              <TechStackSelector stack={techStack} onChange={setTechStack} />
             </section>
 
             {/* 3. Features List */}
-            {features.length > 0 && (
-              <section className="space-y-4">
-                 <h2 className="text-lg font-semibold text-slate-300 flex items-center">
-                    Detected Features <span className="ml-2 bg-slate-800 text-xs px-2 py-0.5 rounded-full">{features.length}</span>
-                 </h2>
-                 <div className="grid gap-3 max-h-[400px] overflow-y-auto pr-2 scrollbar-hide">
-                    {features.map((feature, idx) => (
-                      <FeatureCard key={idx} feature={feature} />
-                    ))}
-                 </div>
-              </section>
+            {(features.length > 0 || project) && !isParsing && (
+              <FeatureList
+                features={features}
+                documents={documents}
+                projectName={project?.name}
+                disabled={status === AnalysisStatus.ANALYZING || status === AnalysisStatus.GENERATING_CODE || Boolean(importReview)}
+                onChange={handleFeaturesChange}
+                activeTitle={selectedFeatureTitle}
+                onActivate={(title) => {
+                  setSelectedFeatureTitle(title);
+                  setSourceFeatureTitle(title);
+                }}
+                onDismissFinding={(id) => applyFindingChange(prev => dismissFinding(prev, id))}
+              />
+            )}
+
+            {sourceFeature?.anchors && sourceFeature.anchors.length > 0 && !isParsing && (
+              <DocumentViewer feature={sourceFeature} documents={documents} onClose={() => setSourceFeatureTitle(null)} />
+            )}
+
+            {features.length > 0 && !isParsing && (
+              <RequirementsReview
+                features={features}
+                projectName={project?.name ?? 'Requirements'}
+                isReviewing={isReviewing}
+                error={reviewError}
+                onReview={handleReviewRequirements}
+                onCancel={() => reviewAbortRef.current?.abort()}
+              />
             )}
           </div>
 
@@ -386,42 +1017,128 @@ const App: React.FC = () => {
                 <h2 className="text-xl font-semibold mb-4 flex items-center text-white relative z-10">
                   <Zap className="mr-2 text-yellow-500" /> 
                   Fast Architecture Analysis
-                  {(status === AnalysisStatus.ANALYZING) && <span className="ml-2 text-xs text-yellow-500 animate-pulse">Processing...</span>}
+                  {(status === AnalysisStatus.ANALYZING) && (
+                    <>
+                      <span className="ml-2 text-xs text-yellow-500 animate-pulse">Processing...</span>
+                      <button
+                        onClick={() => analysisAbortRef.current?.abort()}
+                        className="ml-auto flex items-center px-2 py-1 text-xs font-normal text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+                      >
+                        <Square size={10} className="mr-1" /> Cancel
+                      </button>
+                    </>
+                  )}
                 </h2>
                 
+                <div className="flex space-x-4 mb-3 text-sm relative z-10 border-b border-slate-800">
+                  {(['summary', 'contract', 'diagrams'] as const).map(tab => (
+                    <button
+                      key={tab}
+                      onClick={() => setAnalysisTab(tab)}
+                      className={`pb-2 -mb-px border-b-2 transition-colors ${
+                        analysisTab === tab ? 'border-yellow-500 text-white' : 'border-transparent text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      {tab === 'summary'
+                        ? 'Summary'
+                        : tab === 'contract'
+                          ? `Contract${contractIssues.length > 0 ? ` (${contractIssues.length} issues)` : ''}`
+                          : `Diagrams${diagrams.length > 0 ? ` (${diagrams.length})` : ''}`}
+                    </button>
+                  ))}
+                </div>
+
+                {analysisTab === 'contract' ? (
+                  <ContractPanel
+                    contract={contract}
+                    onChange={handleContractChange}
+                    isGenerating={isGeneratingContract}
+                    error={contractError}
+                    onGenerate={analysis && isStackReady ? handleGenerateContract : undefined}
+                    onCancel={() => contractAbortRef.current?.abort()}
+                  />
+                ) : analysisTab === 'diagrams' ? (
+                  <ArchitectureDiagrams
+                    diagrams={diagrams}
+                    onChange={setDiagrams}
+                    isGenerating={isGeneratingDiagrams}
+                    error={diagramError}
+                    onGenerate={features.length > 0 && isStackReady ? handleGenerateDiagrams : undefined}
+                    onCancel={() => diagramsAbortRef.current?.abort()}
+                    onAddToScaffold={codeScaffold && diagrams.length > 0 && !repairProgress ? handleAddDiagramsToScaffold : undefined}
+                  />
+                ) : (
                 <div className="bg-slate-950/50 rounded-lg p-4 border border-slate-800 min-h-[100px] text-slate-300 relative z-10">
                    {analysis ? (
-                     <div className="prose prose-invert prose-sm max-w-none">
-                       <p className="whitespace-pre-line">{analysis}</p>
+                     <AnalysisView analysis={analysis} />
+                   ) : status === AnalysisStatus.ANALYZING && partialAnalysis ? (
+                     <AnalysisView analysis={partialAnalysis} />
+                   ) : status === AnalysisStatus.ERROR && analysisError ? (
+                     <div className="flex items-start justify-between gap-4 px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">
+                        <span>{analysisError}</span>
+                        <button
+                         onClick={() => runAnalysis(messages.length > 0 ? messages : undefined)}
+                         disabled={features.length === 0 || !isStackReady}
+                         className="shrink-0 flex items-center px-2 py-1 bg-red-800/60 hover:bg-red-700/60 disabled:opacity-50 text-white rounded-md font-medium transition-colors"
+                        >
+                          <RefreshCw size={12} className="mr-1" /> Retry
+                        </button>
                      </div>
                    ) : (
                      <div className="flex flex-col items-center justify-center h-full text-slate-600">
-                        <p>Select your Language, Frontend, and Backend stack.</p>
+                        <p>{status === AnalysisStatus.ANALYZING ? 'Working out modules, entities and risks...' : 'Select your Language, Frontend, and Backend stack.'}</p>
                      </div>
                    )}
                 </div>
+                )}
+
+                {(analysisStale || scaffoldStale) && status !== AnalysisStatus.ANALYZING && status !== AnalysisStatus.GENERATING_CODE && (
+                   <div className="mt-4 p-3 bg-amber-900/20 border border-amber-800 rounded-lg flex items-center justify-between text-sm text-amber-400 relative z-10">
+                     <div className="flex items-center">
+                        <AlertCircle size={16} className="mr-2 shrink-0" />
+                        {analysisStale
+                          ? 'Features changed since this analysis was produced.'
+                          : 'Features changed since the codebase was generated.'}
+                     </div>
+                     {analysisStale && (
+                       <button
+                        onClick={() => runAnalysis(messages.length > 0 ? messages : undefined)}
+                        disabled={features.length === 0 || !isStackReady}
+                        className="ml-4 shrink-0 flex items-center px-3 py-1.5 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white rounded-md text-xs font-medium transition-colors"
+                       >
+                         <RefreshCw size={12} className="mr-1" /> Re-run analysis
+                       </button>
+                     )}
+                   </div>
+                )}
                 
-                {status === AnalysisStatus.COMPLETE && !codeScaffold && (
+                {status === AnalysisStatus.COMPLETE && (!codeScaffold || scaffoldStale) && (
                    <div className="mt-4 flex items-center justify-between">
                      <div className="text-xs text-green-400 flex items-center">
                         <CheckCircle2 size={14} className="mr-1" /> Ready for code generation
                      </div>
                      <button 
-                      onClick={handleGenerateCode}
-                      className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center transition-colors shadow-lg shadow-blue-900/20"
+                      onClick={() => handleGenerateCode()}
+                      disabled={stackIssues.length > 0 || contractIssues.length > 0}
+                      title={stackIssues.length > 0
+                        ? 'Resolve the tech stack conflicts first'
+                        : contractIssues.length > 0 ? 'Fix the API contract issues first' : undefined}
+                      className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center transition-colors shadow-lg shadow-blue-900/20"
                      >
                        <FileCode2 size={16} className="mr-2" />
-                       Generate Full Codebase
+                       {codeScaffold ? 'Regenerate Codebase' : 'Generate Full Codebase'}
                      </button>
                    </div>
                 )}
-                 {status === AnalysisStatus.GENERATING_CODE && (
-                   <div className="mt-4 flex items-center justify-end">
-                      <div className="flex items-center text-blue-400 text-sm font-medium animate-pulse">
-                        <Loader2 size={16} className="mr-2 animate-spin" />
-                        Generating Production-Ready Code & Demo...
-                      </div>
-                   </div>
+                 {pipeline && (status === AnalysisStatus.GENERATING_CODE || hasUnfinishedStages(pipeline)) && (
+                   <ScaffoldProgress
+                      stages={pipeline.stages}
+                      files={streamedFiles}
+                      isRunning={status === AnalysisStatus.GENERATING_CODE}
+                      onCancel={() => generationAbortRef.current?.abort()}
+                      onRetry={status === AnalysisStatus.COMPLETE ? () => handleGenerateCode(true) : undefined}
+                      onDismiss={() => setPipeline(null)}
+                   />
                 )}
               </div>
             </div>
@@ -462,6 +1179,17 @@ const App: React.FC = () => {
                   <MessageSquare size={16} className="mr-2" />
                   Ask Architect
                 </button>
+                <button
+                  onClick={() => setViewMode('trace')}
+                  className={`flex items-center px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                    viewMode === 'trace' 
+                      ? 'bg-blue-600 text-white shadow-lg' 
+                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                  }`}
+                >
+                  <GitBranch size={16} className="mr-2" />
+                  Traceability
+                </button>
               </div>
             )}
 
@@ -469,12 +1197,43 @@ const App: React.FC = () => {
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
               {/* Show Chat if no code yet, OR if viewMode is chat */}
               {(!codeScaffold || viewMode === 'chat') && (
-                 <ChatInterface chatSession={chatSession} />
+                 <ChatInterface
+                    chatSession={chatSession}
+                    messages={messages}
+                    onMessagesChange={setMessages}
+                    onRequestEdits={codeScaffold ? handleRequestEdits : undefined}
+                    onReviewEdits={() => setViewMode('code')}
+                 />
               )}
               
               {/* Show Code only if code exists AND viewMode is code */}
               {codeScaffold && viewMode === 'code' && (
-                 <CodePreview scaffold={codeScaffold} />
+                 <CodePreview
+                    scaffold={codeScaffold}
+                    pendingEdits={getPendingEdits(messages)}
+                    onEditDecision={handleEditDecision}
+                    versions={scaffoldVersions}
+                    onRestoreVersion={handleRestoreVersion}
+                    highlightedPaths={selectedFeatureTitle ? getLinkedFiles(codeScaffold, selectedFeatureTitle).map(file => file.path) : []}
+                    // Read-only while a repair is running, its result would overwrite the typing
+                    onFileChange={repairProgress ? undefined : handleFileContentChange}
+                    onRevertFile={handleRevertFile}
+                    onSaveVersion={handleSaveVersion}
+                    problems={scaffoldProblems}
+                    onRepair={handleRepair}
+                    onCancelRepair={() => repairAbortRef.current?.abort()}
+                    repairProgress={repairProgress}
+                    repairError={repairError}
+                 />
+              )}
+
+              {codeScaffold && viewMode === 'trace' && (
+                 <TraceabilityMatrix
+                    features={features}
+                    scaffold={codeScaffold}
+                    selectedFeatureTitle={selectedFeatureTitle}
+                    onSelectFeature={setSelectedFeatureTitle}
+                 />
               )}
 
               {/* Show Demo only if code exists AND viewMode is demo */}
@@ -485,6 +1244,21 @@ const App: React.FC = () => {
 
           </div>
         </div>
+
+        {showComparison && (
+          <StackComparison
+            stacks={comparedStacks}
+            comparison={comparison}
+            currentStack={techStack}
+            isRunning={isComparing}
+            onAddCurrent={isStackReady && !comparedStacks.some(stack => isSameStack(stack, techStack)) ? () => handleAddToComparison(techStack) : undefined}
+            onRemoveStack={(index) => setComparedStacks(prev => prev.filter((_, i) => i !== index))}
+            onRun={features.length > 0 && !isParsing ? handleRunComparison : undefined}
+            onCancel={() => comparisonAbortRef.current?.abort()}
+            onUseStack={handleSelectRecommendation}
+            onClose={() => setShowComparison(false)}
+          />
+        )}
       </div>
     </div>
   );
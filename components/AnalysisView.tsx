@@ -0,0 +1,130 @@
+import React from 'react';
+import { Boxes, Database, Plug, Gauge, AlertTriangle, HelpCircle } from 'lucide-react';
+import { RequirementsAnalysis, RiskSeverity } from '../types';
+import { sortRisks } from '../services/analysis';
+
+interface AnalysisViewProps {
+  analysis: RequirementsAnalysis;
+  // Names only, for the narrow comparison columns
+  compact?: boolean;
+}
+
+export const SEVERITY_STYLES: Record<RiskSeverity, string> = {
+  high: 'bg-red-900/40 text-red-300 border-red-800',
+  medium: 'bg-amber-900/40 text-amber-300 border-amber-800',
+  low: 'bg-slate-800 text-slate-300 border-slate-700',
+};
+
+const Section: React.FC<{ icon: React.ElementType; title: string; count: number; children: React.ReactNode }> = ({ icon: Icon, title, count, children }) => {
+  if (count === 0) return null;
+  return (
+    <div>
+      <h3 className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+        <Icon size={12} className="mr-1" /> {title} <span className="ml-1 text-slate-600">({count})</span>
+      </h3>
+      {children}
+    </div>
+  );
+};
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, compact = false }) => {
+  const risks = sortRisks(analysis);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        {analysis.architectureStyle && (
+          <span className="inline-block mb-2 px-2 py-0.5 text-xs font-medium text-yellow-300 bg-yellow-900/30 border border-yellow-800 rounded">
+            {analysis.architectureStyle}
+          </span>
+        )}
+        {analysis.summary && <p className="text-slate-300 whitespace-pre-line">{analysis.summary}</p>}
+      </div>
+
+      <Section icon={Boxes} title="Modules" count={analysis.modules.length}>
+        {compact ? (
+          <p className="text-slate-400">{analysis.modules.map(module => module.name).join(', ')}</p>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-2">
+            {analysis.modules.map(module => (
+              <div key={module.name} className="p-2 bg-slate-900 rounded border border-slate-800">
+                <div className="font-medium text-white">{module.name}</div>
+                <ul className="mt-1 text-xs text-slate-400 list-disc list-inside">
+                  {module.responsibilities.map((responsibility, index) => <li key={index}>{responsibility}</li>)}
+                </ul>
+                {module.featureTitles.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {module.featureTitles.map(title => (
+                      <span key={title} className="px-1.5 py-0.5 text-[10px] text-blue-300 bg-blue-900/30 rounded">{title}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section icon={Database} title="Data entities" count={analysis.entities.length}>
+        {compact ? (
+          <p className="text-slate-400">{analysis.entities.map(entity => entity.name).join(', ')}</p>
+        ) : (
+          <ul className="space-y-1">
+            {analysis.entities.map(entity => (
+              <li key={entity.name} className="text-slate-300">
+                <span className="font-mono text-green-300">{entity.name}</span> — {entity.description}
+                {entity.relations.length > 0 && <span className="text-xs text-slate-500"> ({entity.relations.join(', ')})</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section icon={Plug} title="External integrations" count={analysis.integrations.length}>
+        <ul className="space-y-1">
+          {analysis.integrations.map(integration => (
+            <li key={integration.name} className="text-slate-300">
+              <span className="font-medium text-white">{integration.name}</span>{!compact && <> — {integration.purpose}</>}
+            </li>
+          ))}
+        </ul>
+      </Section>
+
+      {!compact && (
+        <Section icon={Gauge} title="Non-functional concerns" count={analysis.nonFunctional.length}>
+          <ul className="space-y-1">
+            {analysis.nonFunctional.map((concern, index) => (
+              <li key={index} className="text-slate-300">
+                <span className="font-medium text-white">{concern.category}:</span> {concern.description}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      <Section icon={AlertTriangle} title="Risks" count={risks.length}>
+        <ul className="space-y-2">
+          {risks.map((risk, index) => (
+            <li key={index} className="flex items-start text-slate-300">
+              <span className={`mr-2 px-1.5 py-0.5 text-[10px] uppercase rounded border shrink-0 ${SEVERITY_STYLES[risk.severity]}`}>{risk.severity}</span>
+              <span>
+                {risk.description}
+                {!compact && risk.mitigation && <span className="block text-xs text-slate-500">Mitigation: {risk.mitigation}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </Section>
+
+      {!compact && (
+        <Section icon={HelpCircle} title="Open questions" count={analysis.openQuestions.length}>
+          <ul className="space-y-1 list-disc list-inside text-slate-300">
+            {analysis.openQuestions.map((question, index) => <li key={index}>{question}</li>)}
+          </ul>
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisView;
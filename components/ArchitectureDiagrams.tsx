@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Loader2, Square, RefreshCw, Code2, Download, FilePlus2, AlertCircle } from 'lucide-react';
+import { ArchitectureDiagram, DiagramKind } from '../types';
+import { DIAGRAM_KINDS, renderDiagram } from '../services/diagrams';
+import { downloadBlob } from '../services/projectExport';
+
+interface ArchitectureDiagramsProps {
+  diagrams: ArchitectureDiagram[];
+  onChange: (diagrams: ArchitectureDiagram[]) => void;
+  isGenerating: boolean;
+  error?: string | null;
+  // Unset while features or the stack are missing
+  onGenerate?: () => void;
+  onCancel: () => void;
+  // Unset until there is a scaffold to add the docs to
+  onAddToScaffold?: () => void;
+}
+
+// Re-render only once typing pauses, Mermaid is too slow to run on every keystroke
+const RENDER_DELAY_MS = 400;
+
+const ArchitectureDiagrams: React.FC<ArchitectureDiagramsProps> = ({
+  diagrams,
+  onChange,
+  isGenerating,
+  error,
+  onGenerate,
+  onCancel,
+  onAddToScaffold,
+}) => {
+  const [activeKind, setActiveKind] = useState<DiagramKind>('component');
+  const [isEditing, setIsEditing] = useState(false);
+  const [svg, setSvg] = useState('');
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const diagram = diagrams.find(d => d.kind === activeKind);
+  const source = diagram?.source ?? '';
+
+  useEffect(() => {
+    if (!source) {
+      setSvg('');
+      setRenderError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = await renderDiagram(source);
+        if (cancelled) return;
+        setSvg(rendered);
+        setRenderError(null);
+      } catch (err) {
+        // The last good rendering stays visible while the source is being fixed
+        if (!cancelled) setRenderError(err instanceof Error ? err.message : "The diagram could not be rendered.");
+      }
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source]);
+
+  const updateSource = (value: string) => {
+    onChange(diagrams.map(d => (d.kind === activeKind ? { ...d, source: value } : d)));
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${activeKind}-diagram.svg`);
+  };
+
+  return (
+    <div className="space-y-3 relative z-10">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1 bg-slate-900 p-1 rounded-lg border border-slate-800">
+          {DIAGRAM_KINDS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => setActiveKind(kind)}
+              className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                activeKind === kind ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          {diagram && (
+            <>
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className={`flex items-center px-2 py-1 text-xs rounded transition-colors ${
+                  isEditing ? 'bg-slate-600 text-white' : 'text-slate-300 bg-slate-800 hover:bg-slate-700'
+                }`}
+                title="Edit the Mermaid source"
+              >
+                <Code2 size={12} className="mr-1" /> Source
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!svg || Boolean(renderError)}
+                className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded transition-colors"
+              >
+                <Download size={12} className="mr-1" /> SVG
+              </button>
+              {onAddToScaffold && (
+                <button
+                  onClick={onAddToScaffold}
+                  className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+                  title="Write docs/ARCHITECTURE.md and the SVGs into the codebase"
+                >
+                  <FilePlus2 size={12} className="mr-1" /> Add to docs/
+                </button>
+              )}
+            </>
+          )}
+          {isGenerating ? (
+            <button
+              onClick={onCancel}
+              className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+            >
+              <Loader2 size={12} className="mr-1 animate-spin" /> Cancel <Square size={10} className="ml-1" />
+            </button>
+          ) : (
+            <button
+              onClick={onGenerate}
+              disabled={!onGenerate}
+              className="flex items-center px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              {diagrams.length > 0 ? <RefreshCw size={12} className="mr-1" /> : <Network size={12} className="mr-1" />}
+              {diagrams.length > 0 ? 'Regenerate' : 'Generate diagrams'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">{error}</div>}
+
+      {diagram ? (
+        <div className={`grid gap-3 ${isEditing ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {isEditing && (
+            <textarea
+              value={source}
+              onChange={(e) => updateSource(e.target.value)}
+              spellCheck={false}
+              className="min-h-[300px] bg-slate-950 border border-slate-800 rounded-lg p-3 font-mono text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <div className="min-h-[300px] bg-slate-950/50 border border-slate-800 rounded-lg p-3 overflow-auto custom-scrollbar">
+            <div className="text-xs font-semibold text-slate-400 mb-2">{diagram.title}</div>
+            {renderError && (
+              <div className="flex items-start mb-2 text-xs text-red-300">
+                <AlertCircle size={12} className="mr-1 mt-0.5 shrink-0" />
+                <span className="whitespace-pre-wrap">{renderError}</span>
+              </div>
+            )}
+            {svg ? (
+              <div className="flex justify-center [&_svg]:max-w-full [&_svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} />
+            ) : (
+              !renderError && <div className="flex items-center text-xs text-slate-600"><Loader2 size={12} className="mr-2 animate-spin" /> Rendering...</div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-center min-h-[100px] text-sm text-slate-600">
+          {isGenerating ? 'Drawing component, deployment and sequence diagrams...' : 'No diagrams yet.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchitectureDiagrams;
@@ -1,19 +1,37 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { Chat } from '@google/genai';
+import { Send, Bot, User, Sparkles, Square, FilePen, GitPullRequest } from 'lucide-react';
+import { ChatMessage, FileEdit } from '../types';
+import { ProjectChat } from '../services/providers';
+import { StructuredOutputError } from '../services/structuredOutput';
 
 interface ChatInterfaceProps {
-  chatSession: Chat | null;
+  chatSession: ProjectChat | null;
+  // Messages live in the parent so they are saved with the project
+  messages: ChatMessage[];
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  // Only provided once a scaffold exists; enables edit mode
+  onRequestEdits?: (request: string, signal: AbortSignal) => Promise<ChatMessage>;
+  onReviewEdits?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatSession }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'Hello! I am your AI Architect. I have reviewed your requirements. How can I help you build this?' }
-  ]);
+const EDIT_STATUS_STYLES: Record<FileEdit['status'], string> = {
+  pending: 'text-amber-400',
+  accepted: 'text-green-400',
+  rejected: 'text-slate-500 line-through',
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  chatSession,
+  messages,
+  onMessagesChange: setMessages,
+  onRequestEdits,
+  onReviewEdits,
+}) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [editMode, setEditMode] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -23,30 +41,55 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatSession }) => {
     scrollToBottom();
   }, [messages]);
 
-  // Reset chat when session changes (new requirements loaded)
-  useEffect(() => {
-    if (chatSession) {
-      setMessages([{ role: 'model', text: 'Requirements loaded. I am ready to assist with your stack.' }]);
-    }
-  }, [chatSession]);
+  // Replaces the placeholder reply at the end of the list
+  const updateReply = (reply: ChatMessage | null) => {
+    setMessages(prev => {
+      const rest = prev.slice(0, -1);
+      return reply ? [...rest, reply] : rest;
+    });
+  };
 
   const handleSend = async () => {
     if (!input.trim() || !chatSession) return;
 
     const userMsg: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, { role: 'model', text: '', isThinking: true }]);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let responseText = '';
+
     try {
-      const result = await chatSession.sendMessage({ message: userMsg.text });
-      const responseText = result.text || "I couldn't generate a response.";
-      
-      setMessages(prev => [...prev, { role: 'model', text: responseText }]);
+      if (editMode && onRequestEdits) {
+        // Edit requests come back as one structured answer, not as a stream
+        updateReply(await onRequestEdits(userMsg.text, controller.signal));
+        return;
+      }
+
+      for await (const chunk of chatSession.sendMessageStream(userMsg.text, controller.signal)) {
+        responseText += chunk;
+        updateReply({ role: 'model', text: responseText });
+      }
+      if (!responseText) {
+        updateReply({ role: 'model', text: "I couldn't generate a response." });
+      }
     } catch (error) {
-      console.error("Chat error", error);
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error processing your request." }]);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the reply
+        updateReply(responseText ? { role: 'model', text: responseText } : null);
+      } else {
+        console.error("Chat error", error);
+        updateReply({
+          role: 'model',
+          text: error instanceof StructuredOutputError
+            ? `Sorry, I could not produce usable changes. ${error.message}`
+            : "Sorry, I encountered an error processing your request."
+        });
+      }
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -72,12 +115,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatSession }) => {
       {/* Header */}
       <div className="bg-slate-800 p-4 border-b border-slate-700 flex items-center space-x-2">
         <Bot className="text-blue-400" size={20} />
-        <span className="font-semibold text-slate-200">Gemini 3 Pro Architect</span>
+        <span className="font-semibold text-slate-200">AI Architect</span>
+        <span className="text-xs font-mono text-slate-500">{chatSession.model}</span>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-900/50">
-        {messages.map((msg, idx) => (
+        {messages.map((msg, idx) => msg.isThinking ? (
+          <div key={idx} className="flex justify-start">
+            <div className="bg-slate-800 rounded-2xl rounded-bl-none p-4 border border-slate-700">
+               <div className="flex space-x-2">
+                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"></div>
+                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce delay-100"></div>
+                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce delay-200"></div>
+               </div>
+            </div>
+          </div>
+        ) : (
           <div
             key={idx}
             className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -94,42 +148,72 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatSession }) => {
                  <span>{msg.role === 'user' ? 'You' : 'AI'}</span>
               </div>
               <div className="whitespace-pre-wrap text-sm">{msg.text}</div>
+              {msg.edits && msg.edits.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-700 space-y-1">
+                  {msg.edits.map(edit => (
+                    <div key={edit.id} className="flex items-center text-xs font-mono" title={edit.description}>
+                      <span className="w-14 text-slate-500">{edit.action}</span>
+                      <span className={`truncate ${EDIT_STATUS_STYLES[edit.status]}`}>{edit.path}</span>
+                      <span className="ml-auto pl-2 text-slate-500">{edit.status}</span>
+                    </div>
+                  ))}
+                  {onReviewEdits && msg.edits.some(edit => edit.status === 'pending') && (
+                    <button
+                      onClick={onReviewEdits}
+                      className="mt-2 flex items-center text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      <GitPullRequest size={12} className="mr-1" /> Review changes in Code Preview
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         ))}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-slate-800 rounded-2xl rounded-bl-none p-4 border border-slate-700">
-               <div className="flex space-x-2">
-                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"></div>
-                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce delay-100"></div>
-                 <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce delay-200"></div>
-               </div>
-            </div>
-          </div>
-        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <div className="p-4 bg-slate-800 border-t border-slate-700">
         <div className="flex items-center space-x-2">
+          {onRequestEdits && (
+            <button
+              onClick={() => setEditMode(prev => !prev)}
+              disabled={isLoading}
+              className={`p-3 rounded-lg transition-colors disabled:opacity-50 ${
+                editMode ? 'bg-amber-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white border border-slate-700'
+              }`}
+              title={editMode ? 'Edit mode: replies propose file changes' : 'Switch to edit mode'}
+            >
+              <FilePen size={20} />
+            </button>
+          )}
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Ask about your implementation..."
+            placeholder={editMode && onRequestEdits ? "Describe a change to the generated code..." : "Ask about your implementation..."}
             className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all placeholder-slate-500"
             disabled={isLoading}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
-          >
-            <Send size={20} />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="bg-slate-700 hover:bg-red-600 text-white p-3 rounded-lg transition-colors"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors"
+            >
+              <Send size={20} />
+            </button>
+          )}
         </div>
       </div>
     </div>
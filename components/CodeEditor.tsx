@@ -0,0 +1,144 @@
+import React, { useEffect, useRef } from 'react';
+import Editor, { BeforeMount, OnMount } from '@monaco-editor/react';
+import { Search, ChevronsDownUp, ChevronsUpDown } from 'lucide-react';
+import { ScaffoldProblem } from '../types';
+
+interface CodeEditorProps {
+  path: string;
+  language: string;
+  value: string;
+  onChange?: (value: string) => void;
+  // Validation results for this file, shown as squiggles
+  problems?: ScaffoldProblem[];
+}
+
+const MARKER_OWNER = 'scaffold-validation';
+
+// Monaco's own TypeScript and JSON checks lack the project's types and packages and would flag
+// nearly every import, so only the scaffold validation is surfaced
+interface DiagnosticsDefaults {
+  setDiagnosticsOptions: (options: Record<string, boolean>) => void;
+}
+
+// Newer Monaco releases moved the language services from `languages.typescript` / `languages.json` to
+// top-level namespaces and type the old ones as deprecated stubs, so both places are looked up at runtime
+const findDefaults = (namespaces: unknown[], key: string): DiagnosticsDefaults | undefined => {
+  for (const namespace of namespaces) {
+    if (!namespace || typeof namespace !== 'object') continue;
+    const defaults: unknown = (namespace as Record<string, unknown>)[key];
+    if (defaults && typeof defaults === 'object' && typeof (defaults as Partial<DiagnosticsDefaults>).setDiagnosticsOptions === 'function') {
+      return defaults as DiagnosticsDefaults;
+    }
+  }
+  return undefined;
+};
+
+const disableBuiltInDiagnostics: BeforeMount = (monaco) => {
+  const topLevel = monaco as unknown as Record<string, unknown>;
+  const typescript = [topLevel.typescript, monaco.languages.typescript];
+  const json = [topLevel.json, monaco.languages.json];
+  findDefaults(typescript, 'typescriptDefaults')?.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: true });
+  findDefaults(typescript, 'javascriptDefaults')?.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: true });
+  findDefaults(json, 'jsonDefaults')?.setDiagnosticsOptions({ validate: false });
+};
+
+// Generators use loose names ("ts", "tsx", "py"); Monaco needs its own language ids
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+  js: 'javascript', jsx: 'javascript', javascript: 'javascript',
+  py: 'python', python: 'python',
+  json: 'json', md: 'markdown', markdown: 'markdown',
+  go: 'go', golang: 'go', rs: 'rust', rust: 'rust', java: 'java', kt: 'kotlin', kotlin: 'kotlin',
+  html: 'html', css: 'css', scss: 'scss', yml: 'yaml', yaml: 'yaml',
+  sh: 'shell', bash: 'shell', shell: 'shell', dockerfile: 'dockerfile', sql: 'sql', xml: 'xml',
+  graphql: 'graphql', toml: 'ini', ini: 'ini', env: 'ini',
+};
+
+export const toEditorLanguage = (language: string, path: string): string => {
+  const byName = LANGUAGE_ALIASES[language.trim().toLowerCase()];
+  if (byName) return byName;
+  const fileName = path.split('/').pop()?.toLowerCase() || '';
+  if (fileName === 'dockerfile') return 'dockerfile';
+  return LANGUAGE_ALIASES[fileName.split('.').pop() || ''] || 'plaintext';
+};
+
+/**
+ * Monaco based editor pane: highlighting, line numbers, search (Ctrl+F) and folding come built in.
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({ path, language, value, onChange, problems = [] }) => {
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = useRef<Parameters<OnMount>[1] | null>(null);
+
+  const applyMarkers = () => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, problems.map(problem => {
+      const line = Math.min(problem.line ?? 1, model.getLineCount());
+      return {
+        severity: monaco.MarkerSeverity.Error,
+        message: problem.message,
+        startLineNumber: line,
+        startColumn: problem.column ?? 1,
+        endLineNumber: line,
+        // Without a column the whole line is marked
+        endColumn: problem.column ? problem.column + 1 : model.getLineMaxColumn(line),
+      };
+    }));
+  };
+
+  // Cheap enough to redo on every render, which also covers switching files and typing
+  useEffect(applyMarkers);
+
+  const runAction = (actionId: string) => {
+    editorRef.current?.focus();
+    editorRef.current?.getAction(actionId)?.run();
+  };
+
+  const toolButton = 'p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-end space-x-1 px-2 py-1 border-b border-slate-800 bg-[#0d1117]">
+        <button onClick={() => runAction('actions.find')} className={toolButton} title="Search in file (Ctrl+F)">
+          <Search size={14} />
+        </button>
+        <button onClick={() => runAction('editor.foldAll')} className={toolButton} title="Fold all">
+          <ChevronsDownUp size={14} />
+        </button>
+        <button onClick={() => runAction('editor.unfoldAll')} className={toolButton} title="Unfold all">
+          <ChevronsUpDown size={14} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">
+        <Editor
+          // One model per path keeps undo history and folding state when switching files
+          path={path}
+          language={toEditorLanguage(language, path)}
+          value={value}
+          theme="vs-dark"
+          beforeMount={disableBuiltInDiagnostics}
+          onMount={(editor, monaco) => {
+            editorRef.current = editor;
+            monacoRef.current = monaco;
+            applyMarkers();
+          }}
+          onChange={(next) => onChange?.(next ?? '')}
+          options={{
+            readOnly: !onChange,
+            minimap: { enabled: false },
+            fontSize: 13,
+            folding: true,
+            lineNumbers: 'on',
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            renderValidationDecorations: 'on',
+          }}
+          loading={<div className="p-4 text-sm text-slate-500">Loading editor...</div>}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
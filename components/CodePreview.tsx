@@ -1,32 +1,73 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
-  Folder, 
   FileCode, 
-  FileJson, 
-  FileText, 
   ChevronRight, 
-  ChevronDown, 
   Copy, 
   Check, 
   Terminal,
-  Play
+  Play,
+  Download,
+  GitPullRequest,
+  X,
+  History,
+  Save,
+  Undo2,
+  Search,
+  AlertCircle
 } from 'lucide-react';
-import { CodeScaffold, ProjectFile } from '../types';
+import { CodeScaffold, FileEdit, FileEditStatus, ProjectFile, ScaffoldProblem, ScaffoldVersion } from '../types';
+import { downloadScaffoldZip } from '../services/projectExport';
+import { getScaffoldFileContent } from '../services/scaffoldEdits';
+import { buildFileTree, getAncestorPaths, matchesFileFilter } from '../services/fileTree';
+import DiffView from './DiffView';
+import VersionHistory from './VersionHistory';
+import CodeEditor from './CodeEditor';
+import FileTree, { FileIcon } from './FileTree';
+import ProblemsPanel, { RepairProgress } from './ProblemsPanel';
 
 interface CodePreviewProps {
   scaffold: CodeScaffold;
+  // Changes proposed in the architect chat that still wait for review
+  pendingEdits?: FileEdit[];
+  onEditDecision?: (editId: string, status: Exclude<FileEditStatus, 'pending'>) => void;
+  versions?: ScaffoldVersion[];
+  onRestoreVersion?: (versionId: string) => void;
+  // Files linked to the feature selected in the requirements list
+  highlightedPaths?: string[];
+  // In-place editing; files differing from the latest version are shown as modified
+  onFileChange?: (path: string, content: string) => void;
+  onRevertFile?: (path: string) => void;
+  onSaveVersion?: () => void;
+  // Static validation results and the repair loop that fixes them
+  problems?: ScaffoldProblem[];
+  onRepair?: () => void;
+  onCancelRepair?: () => void;
+  repairProgress?: RepairProgress | null;
+  repairError?: string | null;
 }
 
-const FileIcon: React.FC<{ filename: string }> = ({ filename }) => {
-  if (filename.endsWith('.json')) return <FileJson size={14} className="text-yellow-400" />;
-  if (filename.endsWith('.ts') || filename.endsWith('.tsx')) return <FileCode size={14} className="text-blue-400" />;
-  if (filename.endsWith('.js') || filename.endsWith('.jsx')) return <FileCode size={14} className="text-yellow-300" />;
-  if (filename.endsWith('.py')) return <FileCode size={14} className="text-blue-300" />;
-  if (filename.endsWith('.md')) return <FileText size={14} className="text-slate-400" />;
-  return <FileText size={14} className="text-slate-500" />;
+const ACTION_BADGES: Record<FileEdit['action'], { label: string; className: string }> = {
+  create: { label: 'A', className: 'text-green-400' },
+  modify: { label: 'M', className: 'text-yellow-400' },
+  delete: { label: 'D', className: 'text-red-400' },
 };
 
-const CodePreview: React.FC<CodePreviewProps> = ({ scaffold }) => {
+const CodePreview: React.FC<CodePreviewProps> = ({
+  scaffold,
+  pendingEdits = [],
+  onEditDecision,
+  versions = [],
+  onRestoreVersion,
+  highlightedPaths = [],
+  onFileChange,
+  onRevertFile,
+  onSaveVersion,
+  problems = [],
+  onRepair,
+  onCancelRepair,
+  repairProgress,
+  repairError,
+}) => {
   // Flatten scaffold to a list, including the README as a file
   const allFiles = useMemo(() => {
     const files = [...scaffold.files];
@@ -41,8 +82,63 @@ const CodePreview: React.FC<CodePreviewProps> = ({ scaffold }) => {
     return files.sort((a, b) => a.path.localeCompare(b.path));
   }, [scaffold]);
 
-  const [selectedFile, setSelectedFile] = useState<ProjectFile>(allFiles[0]);
+  // Selection is kept by path so it survives edits being applied to the scaffold
+  const [selectedPath, setSelectedPath] = useState<string>(allFiles[0].path);
+  const [selectedEditId, setSelectedEditId] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [panel, setPanel] = useState<'files' | 'history' | 'problems'>('files');
+  const [filter, setFilter] = useState('');
+
+  const selectedFile = allFiles.find(f => f.path === selectedPath) ?? allFiles[0];
+
+  // Top-level folders start open; deeper ones open as files inside them get selected or highlighted
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(() => new Set(
+    allFiles.filter(f => f.path.includes('/')).map(f => f.path.split('/')[0])
+  ));
+
+  const expandFolders = (folders: string[]) => {
+    if (folders.every(path => expandedPaths.has(path))) return;
+    setExpandedPaths(prev => new Set([...prev, ...folders]));
+  };
+
+  useEffect(() => {
+    expandFolders([selectedFile.path, ...highlightedPaths].flatMap(getAncestorPaths));
+  }, [selectedFile.path, highlightedPaths.join('\n')]);
+
+  const toggleFolder = (path: string) => {
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  // Manual edits are measured against the last recorded version
+  const baseline = versions[versions.length - 1]?.scaffold;
+  const dirtyPaths = useMemo(() => {
+    if (!baseline) return new Set<string>();
+    return new Set(allFiles
+      .filter(file => getScaffoldFileContent(baseline, file.path) !== file.content)
+      .map(file => file.path));
+  }, [allFiles, baseline]);
+  const isDirty = dirtyPaths.has(selectedFile.path);
+  const problemPaths = useMemo(() => new Set(problems.map(problem => problem.path)), [problems]);
+  const selectedProblems = problems.filter(problem => problem.path === selectedFile.path);
+  const selectedEdit = pendingEdits.find(edit => edit.id === selectedEditId) ?? null;
+
+  const selectFile = (file: ProjectFile) => {
+    setSelectedPath(file.path);
+    setSelectedEditId(null);
+  };
+
+  const decide = (edit: FileEdit, status: Exclude<FileEditStatus, 'pending'>) => {
+    onEditDecision?.(edit.id, status);
+    // Move on to the next change under review, or back to the file itself
+    const next = pendingEdits.find(other => other.id !== edit.id);
+    setSelectedEditId(next ? next.id : null);
+    if (!next && edit.action !== 'delete') setSelectedPath(edit.path);
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(selectedFile.content);
@@ -50,101 +146,267 @@ const CodePreview: React.FC<CodePreviewProps> = ({ scaffold }) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Group files by root directory (e.g., frontend/, backend/)
-  const fileTree = useMemo(() => {
-    const tree: Record<string, ProjectFile[]> = {};
-    allFiles.forEach(file => {
-      const root = file.path.split('/')[0];
-      if (!tree[root]) tree[root] = [];
-      tree[root].push(file);
-    });
-    return tree;
-  }, [allFiles]);
+  const fileTree = useMemo(
+    () => buildFileTree(allFiles.filter(file => matchesFileFilter(file.path, filter))),
+    [allFiles, filter]
+  );
+
+  const breadcrumbs = selectedFile.path.split('/');
 
   return (
-    <div className="bg-[#0f172a] border border-slate-700 rounded-xl overflow-hidden shadow-2xl flex h-[700px] flex-col md:flex-row">
-      
-      {/* Sidebar - File Explorer */}
-      <div className="w-full md:w-64 bg-[#1e293b] border-r border-slate-700 flex flex-col">
-        <div className="p-3 border-b border-slate-700 flex items-center justify-between">
-          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Explorer</span>
+    <div className="bg-[#0f172a] border border-slate-700 rounded-xl overflow-hidden shadow-2xl flex h-[700px] flex-col">
+
+      {/* Panel Tabs */}
+      <div className="flex items-center justify-between bg-[#1e293b] border-b border-slate-700 px-3 py-2">
+        <div className="flex space-x-1">
+          <button
+            onClick={() => setPanel('files')}
+            className={`flex items-center px-3 py-1 rounded text-xs font-medium transition-colors ${
+              panel === 'files' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <FileCode size={12} className="mr-1" /> Files
+          </button>
+          <button
+            onClick={() => setPanel('history')}
+            className={`flex items-center px-3 py-1 rounded text-xs font-medium transition-colors ${
+              panel === 'history' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <History size={12} className="mr-1" /> History
+            <span className="ml-1 text-slate-500">{versions.length}</span>
+          </button>
+          <button
+            onClick={() => setPanel('problems')}
+            className={`flex items-center px-3 py-1 rounded text-xs font-medium transition-colors ${
+              panel === 'problems' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <AlertCircle size={12} className={`mr-1 ${problems.length > 0 ? 'text-red-400' : ''}`} /> Problems
+            <span className={`ml-1 ${problems.length > 0 ? 'text-red-400' : 'text-slate-500'}`}>{problems.length}</span>
+          </button>
         </div>
-        
-        <div className="flex-1 overflow-y-auto p-2 space-y-4">
-          {(Object.entries(fileTree) as [string, ProjectFile[]][]).map(([folder, files]) => (
-            <div key={folder}>
-              <div className="flex items-center text-slate-300 text-sm font-semibold mb-1 px-2">
-                 {files.length > 1 ? <Folder size={14} className="mr-2 text-blue-400" /> : <FileText size={14} className="mr-2" />}
-                 {folder}
-              </div>
-              <div className="pl-4 space-y-1">
-                {files.map((file) => (
-                  <button
-                    key={file.path}
-                    onClick={() => setSelectedFile(file)}
-                    className={`flex items-center w-full text-left px-2 py-1.5 rounded-md text-xs transition-colors ${
-                      selectedFile.path === file.path
-                        ? 'bg-blue-600 text-white'
-                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
-                    }`}
-                  >
-                    <div className="mr-2">
-                      <FileIcon filename={file.path} />
-                    </div>
-                    <span className="truncate">
-                      {file.path.split('/').pop()}
-                    </span>
+        <button
+          onClick={() => downloadScaffoldZip(scaffold)}
+          className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-700 hover:bg-blue-600 hover:text-white rounded transition-colors"
+          title="Download project as ZIP"
+        >
+          <Download size={12} className="mr-1" />
+          Download project
+        </button>
+      </div>
+
+      {panel === 'history' ? (
+        <VersionHistory versions={versions} onRestore={onRestoreVersion} />
+      ) : panel === 'problems' ? (
+        <ProblemsPanel
+          problems={problems}
+          onSelectProblem={(problem) => {
+            setSelectedPath(problem.path);
+            setSelectedEditId(null);
+            setPanel('files');
+          }}
+          onRepair={onRepair}
+          onCancelRepair={onCancelRepair}
+          repairProgress={repairProgress}
+          repairError={repairError}
+        />
+      ) : (
+        <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+
+          {/* Sidebar - File Explorer */}
+          <div className="w-full md:w-64 bg-[#1e293b] border-r border-slate-700 flex flex-col">
+            <div className="p-3 border-b border-slate-700 space-y-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Explorer</span>
+              <div className="flex items-center bg-slate-900 border border-slate-700 rounded px-2">
+                <Search size={12} className="text-slate-500 shrink-0" />
+                <input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter by name or *.ext"
+                  className="w-full bg-transparent px-2 py-1 text-xs text-slate-200 placeholder-slate-500 focus:outline-none"
+                />
+                {filter && (
+                  <button onClick={() => setFilter('')} className="text-slate-500 hover:text-white" title="Clear filter">
+                    <X size={12} />
                   </button>
-                ))}
+                )}
               </div>
             </div>
-          ))}
-        </div>
-      </div>
-
-      {/* Main Content - Code Editor View */}
-      <div className="flex-1 flex flex-col bg-[#0d1117] min-w-0">
         
-        {/* Editor Tabs/Header */}
-        <div className="flex items-center justify-between bg-[#0f172a] border-b border-slate-700 px-4 py-2">
-          <div className="flex items-center text-sm text-slate-300">
-             <FileIcon filename={selectedFile.path} />
-             <span className="ml-2 font-mono">{selectedFile.path}</span>
-          </div>
-          <div className="flex items-center space-x-2">
-             <button
-              onClick={handleCopy}
-              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
-              title="Copy Content"
-            >
-              {copied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
-            </button>
+            <div className="flex-1 overflow-y-auto p-2 space-y-4">
+              {pendingEdits.length > 0 && (
+                <div>
+                  <div className="flex items-center text-amber-400 text-sm font-semibold mb-1 px-2">
+                    <GitPullRequest size={14} className="mr-2" />
+                    Pending changes
+                    <span className="ml-auto text-xs font-normal text-slate-500">{pendingEdits.length}</span>
+                  </div>
+                  <div className="pl-4 space-y-1">
+                    {pendingEdits.map(edit => (
+                      <button
+                        key={edit.id}
+                        onClick={() => setSelectedEditId(edit.id)}
+                        className={`flex items-center w-full text-left px-2 py-1.5 rounded-md text-xs transition-colors ${
+                          selectedEditId === edit.id
+                            ? 'bg-amber-600 text-white'
+                            : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+                        }`}
+                        title={edit.description}
+                      >
+                        <span className={`mr-2 font-mono font-bold ${selectedEditId === edit.id ? '' : ACTION_BADGES[edit.action].className}`}>
+                          {ACTION_BADGES[edit.action].label}
+                        </span>
+                        <span className="truncate">{edit.path}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {fileTree.length > 0 ? (
+                <FileTree
+                  nodes={fileTree}
+                  selectedPath={selectedEdit ? null : selectedFile.path}
+                  expandedPaths={expandedPaths}
+                  onToggleFolder={toggleFolder}
+                  onSelectFile={selectFile}
+                  highlightedPaths={highlightedPaths}
+                  dirtyPaths={dirtyPaths}
+                  problemPaths={problemPaths}
+                  forceExpanded={filter.trim() !== ''}
+                />
+              ) : (
+                <p className="px-2 text-xs text-slate-500">No files match "{filter}".</p>
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Code View */}
-        <div className="flex-1 overflow-auto p-4 custom-scrollbar">
-           <pre className="text-sm font-mono leading-relaxed">
-             <code className="block whitespace-pre">
-               {selectedFile.content}
-             </code>
-           </pre>
-        </div>
+          {/* Main Content - Code Editor View */}
+          <div className="flex-1 flex flex-col bg-[#0d1117] min-w-0 min-h-0">
+        
+            {/* Editor Tabs/Header */}
+            {selectedEdit ? (
+              <div className="flex items-center justify-between bg-[#0f172a] border-b border-slate-700 px-4 py-2">
+                <div className="flex items-center text-sm text-slate-300 min-w-0">
+                   <span className={`mr-2 font-mono font-bold ${ACTION_BADGES[selectedEdit.action].className}`}>
+                     {ACTION_BADGES[selectedEdit.action].label}
+                   </span>
+                   <span className="font-mono truncate">{selectedEdit.path}</span>
+                   <span className="ml-3 text-xs text-slate-500 truncate">{selectedEdit.description}</span>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <button
+                    onClick={() => decide(selectedEdit, 'rejected')}
+                    className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+                  >
+                    <X size={12} className="mr-1" /> Reject
+                  </button>
+                  <button
+                    onClick={() => decide(selectedEdit, 'accepted')}
+                    className="flex items-center px-2 py-1 text-xs text-white bg-green-600 hover:bg-green-500 rounded transition-colors"
+                  >
+                    <Check size={12} className="mr-1" /> Accept
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between bg-[#0f172a] border-b border-slate-700 px-4 py-2">
+                <div className="flex items-center text-sm text-slate-300 min-w-0">
+                   <FileIcon filename={selectedFile.path} />
+                   <nav className="ml-2 flex items-center font-mono min-w-0" aria-label="File path">
+                     {breadcrumbs.map((segment, index) => {
+                       const isLast = index === breadcrumbs.length - 1;
+                       const folderPath = breadcrumbs.slice(0, index + 1).join('/');
+                       return (
+                         <React.Fragment key={folderPath}>
+                           {index > 0 && <ChevronRight size={12} className="mx-0.5 text-slate-600 shrink-0" />}
+                           {isLast ? (
+                             <span className="truncate text-slate-200">{segment}</span>
+                           ) : (
+                             <button
+                               // Reveals the folder in the explorer
+                               onClick={() => expandFolders([...getAncestorPaths(folderPath), folderPath])}
+                               className="text-slate-500 hover:text-slate-200 shrink-0"
+                             >
+                               {segment}
+                             </button>
+                           )}
+                         </React.Fragment>
+                       );
+                     })}
+                   </nav>
+                   {selectedFile.featureTitles && selectedFile.featureTitles.length > 0 && (
+                     <span className="ml-3 text-xs text-slate-500 truncate" title="Features implemented by this file">
+                       implements {selectedFile.featureTitles.join(', ')}
+                     </span>
+                   )}
+                </div>
+                <div className="flex items-center space-x-2">
+                   {isDirty && onRevertFile && (
+                     <button
+                      onClick={() => onRevertFile(selectedFile.path)}
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+                      title="Revert to the last version"
+                    >
+                      <Undo2 size={16} />
+                    </button>
+                   )}
+                   <button
+                    onClick={handleCopy}
+                    className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+                    title="Copy Content"
+                  >
+                    {copied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
+                  </button>
+                </div>
+              </div>
+            )}
 
-        {/* Status Bar / Simulated Terminal */}
-        <div className="bg-[#1e293b] border-t border-slate-700 p-2 text-xs flex items-center justify-between text-slate-500">
-          <div className="flex items-center">
-            <Terminal size={12} className="mr-2" />
-            <span>Generated by Gemini 3 Pro</span>
-          </div>
-          <div className="flex items-center space-x-4">
-             <span>{selectedFile.language}</span>
-             <span className="flex items-center text-green-500">
-               <Check size={10} className="mr-1" /> Ready
-             </span>
+            {/* Code View */}
+            <div className={`flex-1 min-h-0 ${selectedEdit ? 'overflow-auto custom-scrollbar' : ''}`}>
+              {selectedEdit ? (
+                <DiffView
+                  oldText={getScaffoldFileContent(scaffold, selectedEdit.path) ?? ''}
+                  newText={selectedEdit.content ?? ''}
+                />
+              ) : (
+                <CodeEditor
+                  path={selectedFile.path}
+                  language={selectedFile.language}
+                  value={selectedFile.content}
+                  problems={selectedProblems}
+                  onChange={onFileChange ? (content) => onFileChange(selectedFile.path, content) : undefined}
+                />
+              )}
+            </div>
+
+            {/* Status Bar / Simulated Terminal */}
+            <div className="bg-[#1e293b] border-t border-slate-700 p-2 text-xs flex items-center justify-between text-slate-500">
+              <div className="flex items-center">
+                <Terminal size={12} className="mr-2" />
+                <span>Generated by AI Architect</span>
+              </div>
+              <div className="flex items-center space-x-4">
+                 <span>{selectedFile.language}</span>
+                 {dirtyPaths.size > 0 ? (
+                   <>
+                     <span className="text-amber-400">{dirtyPaths.size} modified</span>
+                     {onSaveVersion && (
+                       <button onClick={onSaveVersion} className="flex items-center text-slate-300 hover:text-white">
+                         <Save size={10} className="mr-1" /> Save version
+                       </button>
+                     )}
+                   </>
+                 ) : (
+                   <span className="flex items-center text-green-500">
+                     <Check size={10} className="mr-1" /> Ready
+                   </span>
+                 )}
+              </div>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Table2, X, Check } from 'lucide-react';
+import { ColumnMapping, Table, tableToFeatures } from '../services/importers';
+
+interface ColumnMapperProps {
+  fileName: string;
+  table: Table;
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ fileName, table, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const preview = useMemo(() => tableToFeatures({ ...table, rows: table.rows.slice(0, PREVIEW_ROWS) }, mapping), [table, mapping]);
+
+  const toggleDescription = (column: number) => {
+    setMapping(prev => ({
+      ...prev,
+      description: prev.description.includes(column)
+        ? prev.description.filter(c => c !== column)
+        : [...prev.description, column].sort((a, b) => a - b),
+    }));
+  };
+
+  const optionalColumn = (label: string, value: number | null, onChange: (column: number | null) => void) => (
+    <label className="block text-xs text-slate-400">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="mt-1 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+      >
+        <option value="">None</option>
+        {table.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <section className="bg-slate-900 rounded-xl border border-blue-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-300 flex items-center min-w-0">
+          <Table2 size={16} className="mr-2 text-blue-400 shrink-0" />
+          <span className="truncate">Map the columns of {fileName}</span>
+          <span className="ml-2 bg-slate-800 text-xs px-2 py-0.5 rounded-full shrink-0">{table.rows.length} rows</span>
+        </h2>
+        <button onClick={onCancel} className="p-1 text-slate-500 hover:text-white" title="Skip this file">
+          <X size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Every row with a title becomes a feature. The category column (type, component or label) picks the feature type.
+      </p>
+
+      <div className="grid grid-cols-4 gap-2">
+        <label className="block text-xs text-slate-400">
+          Title
+          <select
+            value={mapping.title}
+            onChange={e => setMapping(prev => ({ ...prev, title: Number(e.target.value) }))}
+            className="mt-1 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+          >
+            {table.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+          </select>
+        </label>
+        {optionalColumn('Category', mapping.type, type => setMapping(prev => ({ ...prev, type })))}
+        {optionalColumn('Icon', mapping.icon, icon => setMapping(prev => ({ ...prev, icon })))}
+        {optionalColumn('ID', mapping.id, id => setMapping(prev => ({ ...prev, id })))}
+      </div>
+
+      <div>
+        <div className="text-xs text-slate-400 mb-1">Description</div>
+        <div className="flex flex-wrap gap-2">
+          {table.headers.map((header, index) => index !== mapping.title && (
+            <label key={index} className="flex items-center text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mapping.description.includes(index)}
+                onChange={() => toggleDescription(index)}
+                className="mr-1 accent-blue-500"
+              />
+              {header || `Column ${index + 1}`}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {preview.map((feature, index) => (
+          <li key={index} className="p-2 rounded-lg border border-slate-800 text-xs">
+            <div className="flex items-center">
+              <span className="font-medium text-slate-200 truncate">{feature.title}</span>
+              <span className="ml-2 px-1.5 py-0.5 text-[10px] text-slate-400 bg-slate-800 rounded shrink-0">{feature.type}</span>
+            </div>
+            {feature.content && <p className="text-slate-400 line-clamp-2 whitespace-pre-line">{feature.content}</p>}
+          </li>
+        ))}
+        {preview.length === 0 && <li className="text-xs text-amber-300">The first rows have no title in this column.</li>}
+      </ul>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onConfirm(mapping)}
+          className="flex items-center px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+        >
+          <Check size={12} className="mr-1" /> Import {table.rows.length} rows
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ColumnMapper;
@@ -0,0 +1,318 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileJson, Loader2, Square, RefreshCw, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { ApiContract, DataEntity, DataField } from '../types';
+import { FIELD_TYPES, checkContract, entitiesToMermaid, listEndpoints, parseOpenApi } from '../services/apiContract';
+import { renderDiagram } from '../services/diagrams';
+import CodeEditor from './CodeEditor';
+
+interface ContractPanelProps {
+  contract: ApiContract | null;
+  onChange: (contract: ApiContract) => void;
+  isGenerating: boolean;
+  error?: string | null;
+  // Unset until there is an analysis to derive the contract from
+  onGenerate?: () => void;
+  onCancel: () => void;
+}
+
+// Same pause as the diagram editor before the ER diagram is redrawn
+const RENDER_DELAY_MS = 400;
+const SPEC_PATH = 'openapi.json';
+
+const METHOD_STYLES: Record<string, string> = {
+  GET: 'text-green-400',
+  POST: 'text-blue-400',
+  PUT: 'text-amber-400',
+  PATCH: 'text-amber-400',
+  DELETE: 'text-red-400',
+};
+
+const EMPTY_FIELD: DataField = { name: '', type: 'string', required: false };
+
+const inputClass = 'w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ContractPanel: React.FC<ContractPanelProps> = ({
+  contract,
+  onChange,
+  isGenerating,
+  error,
+  onGenerate,
+  onCancel,
+}) => {
+  const [activeTab, setActiveTab] = useState<'model' | 'openapi'>('model');
+  const [svg, setSvg] = useState('');
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const entities = contract?.entities ?? [];
+  const erSource = useMemo(() => (entities.length > 0 ? entitiesToMermaid(entities) : ''), [entities]);
+  const issues = useMemo(() => (contract ? checkContract(contract) : []), [contract]);
+  const endpoints = useMemo(() => {
+    const { spec } = parseOpenApi(contract?.openApi ?? '');
+    return spec ? listEndpoints(spec) : [];
+  }, [contract?.openApi]);
+
+  useEffect(() => {
+    if (!erSource) {
+      setSvg('');
+      setRenderError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = await renderDiagram(erSource);
+        if (cancelled) return;
+        setSvg(rendered);
+        setRenderError(null);
+      } catch (err) {
+        if (!cancelled) setRenderError(err instanceof Error ? err.message : "The data model could not be rendered.");
+      }
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [erSource]);
+
+  const updateEntities = (next: DataEntity[]) => {
+    if (contract) onChange({ ...contract, entities: next });
+  };
+
+  const updateEntity = (index: number, patch: Partial<DataEntity>) => {
+    updateEntities(entities.map((entity, i) => (i === index ? { ...entity, ...patch } : entity)));
+  };
+
+  // Renaming an entity keeps the foreign keys pointing at it
+  const renameEntity = (index: number, name: string) => {
+    const previous = entities[index].name;
+    updateEntities(entities.map((entity, i) => ({
+      ...entity,
+      name: i === index ? name : entity.name,
+      fields: entity.fields.map(field => (field.references === previous ? { ...field, references: name } : field)),
+    })));
+  };
+
+  const updateField = (entityIndex: number, fieldIndex: number, patch: Partial<DataField>) => {
+    const fields = entities[entityIndex].fields.map((field, i) => (i === fieldIndex ? { ...field, ...patch } : field));
+    updateEntity(entityIndex, { fields });
+  };
+
+  const removeField = (entityIndex: number, fieldIndex: number) => {
+    updateEntity(entityIndex, { fields: entities[entityIndex].fields.filter((_, i) => i !== fieldIndex) });
+  };
+
+  // Dropping an entity also drops the references to it, they would fail the contract check otherwise
+  const removeEntity = (index: number) => {
+    const removed = entities[index].name;
+    updateEntities(entities
+      .filter((_, i) => i !== index)
+      .map(entity => ({
+        ...entity,
+        fields: entity.fields.map(field => (field.references === removed ? { ...field, references: undefined } : field)),
+      })));
+  };
+
+  const specProblems = issues
+    .filter(issue => issue.source === 'openapi')
+    .map(issue => ({ path: SPEC_PATH, kind: 'json' as const, message: issue.message, line: issue.line, column: issue.column }));
+
+  return (
+    <div className="space-y-3 relative z-10">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1 bg-slate-900 p-1 rounded-lg border border-slate-800">
+          {([['model', 'Data model'], ['openapi', 'OpenAPI']] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                activeTab === tab ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {label}
+              {tab === 'openapi' && endpoints.length > 0 && <span className="ml-1 text-slate-500">({endpoints.length})</span>}
+            </button>
+          ))}
+        </div>
+        {isGenerating ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+          >
+            <Loader2 size={12} className="mr-1 animate-spin" /> Cancel <Square size={10} className="ml-1" />
+          </button>
+        ) : (
+          <button
+            onClick={onGenerate}
+            disabled={!onGenerate}
+            title={contract ? 'Replaces your edits with a freshly derived contract' : undefined}
+            className="flex items-center px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+          >
+            {contract ? <RefreshCw size={12} className="mr-1" /> : <FileJson size={12} className="mr-1" />}
+            {contract ? 'Regenerate' : 'Derive contract'}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">{error}</div>}
+
+      {issues.length > 0 && (
+        <ul className="px-3 py-2 space-y-1 text-xs text-amber-300 bg-amber-900/20 border border-amber-800 rounded-lg">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start">
+              <AlertCircle size={12} className="mr-1 mt-0.5 shrink-0" />
+              <span><span className="font-mono">{issue.source}</span>{issue.line ? `:${issue.line}` : ''} — {issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!contract ? (
+        <div className="flex items-center justify-center min-h-[100px] text-sm text-slate-600">
+          {isGenerating
+            ? 'Deriving entities, relations and endpoints...'
+            : 'No contract yet. Derive one to review the data model and API before generating code.'}
+        </div>
+      ) : activeTab === 'model' ? (
+        <div className="space-y-3">
+          <div className="min-h-[160px] bg-slate-950/50 border border-slate-800 rounded-lg p-3 overflow-auto custom-scrollbar">
+            {renderError && (
+              <div className="flex items-start mb-2 text-xs text-red-300">
+                <AlertCircle size={12} className="mr-1 mt-0.5 shrink-0" />
+                <span className="whitespace-pre-wrap">{renderError}</span>
+              </div>
+            )}
+            {svg ? (
+              <div className="flex justify-center [&_svg]:max-w-full [&_svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} />
+            ) : (
+              !renderError && erSource && <div className="flex items-center text-xs text-slate-600"><Loader2 size={12} className="mr-2 animate-spin" /> Rendering...</div>
+            )}
+          </div>
+
+          {entities.map((entity, entityIndex) => (
+            <div key={entityIndex} className="p-3 bg-slate-950/50 border border-slate-800 rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  value={entity.name}
+                  onChange={(e) => renameEntity(entityIndex, e.target.value)}
+                  placeholder="Entity name"
+                  className={`${inputClass} font-mono font-semibold text-green-300 max-w-[200px]`}
+                />
+                <input
+                  value={entity.description}
+                  onChange={(e) => updateEntity(entityIndex, { description: e.target.value })}
+                  placeholder="Description"
+                  className={inputClass}
+                />
+                <button onClick={() => removeEntity(entityIndex)} className="p-1 text-slate-500 hover:text-red-400" title="Remove entity">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="font-medium pb-1">Field</th>
+                    <th className="font-medium pb-1">Type</th>
+                    <th className="font-medium pb-1 text-center">Required</th>
+                    <th className="font-medium pb-1 text-center">Unique</th>
+                    <th className="font-medium pb-1">References</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entity.fields.map((field, fieldIndex) => (
+                    <tr key={fieldIndex}>
+                      <td className="pr-2 py-0.5">
+                        <input
+                          value={field.name}
+                          onChange={(e) => updateField(entityIndex, fieldIndex, { name: e.target.value })}
+                          className={`${inputClass} font-mono`}
+                        />
+                      </td>
+                      <td className="pr-2 py-0.5">
+                        <select
+                          value={field.type}
+                          onChange={(e) => updateField(entityIndex, fieldIndex, { type: e.target.value })}
+                          className={inputClass}
+                        >
+                          {/* Keeps a type the model came up with selectable */}
+                          {!FIELD_TYPES.includes(field.type) && <option value={field.type}>{field.type}</option>}
+                          {FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                      </td>
+                      <td className="text-center">
+                        <input
+                          type="checkbox"
+                          checked={field.required}
+                          onChange={(e) => updateField(entityIndex, fieldIndex, { required: e.target.checked })}
+                        />
+                      </td>
+                      <td className="text-center">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(field.unique)}
+                          onChange={(e) => updateField(entityIndex, fieldIndex, { unique: e.target.checked })}
+                        />
+                      </td>
+                      <td className="pr-2 py-0.5">
+                        <select
+                          value={field.references ?? ''}
+                          onChange={(e) => updateField(entityIndex, fieldIndex, { references: e.target.value || undefined })}
+                          className={inputClass}
+                        >
+                          <option value="">—</option>
+                          {entities.map(other => other.name).filter(Boolean).map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                      </td>
+                      <td className="text-right">
+                        <button onClick={() => removeField(entityIndex, fieldIndex)} className="p-1 text-slate-500 hover:text-red-400" title="Remove field">
+                          <Trash2 size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                onClick={() => updateEntity(entityIndex, { fields: [...entity.fields, { ...EMPTY_FIELD }] })}
+                className="flex items-center text-xs text-slate-400 hover:text-white"
+              >
+                <Plus size={12} className="mr-1" /> Add field
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => updateEntities([...entities, { name: '', description: '', fields: [{ name: 'id', type: 'uuid', required: true, unique: true }] }])}
+            className="flex items-center px-3 py-1 rounded-full text-xs text-slate-500 border border-dashed border-slate-700 hover:text-slate-300 hover:border-slate-500"
+          >
+            <Plus size={12} className="mr-1" /> Add entity
+          </button>
+        </div>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-[1fr_260px]">
+          <div className="h-[400px] border border-slate-800 rounded-lg overflow-hidden flex flex-col">
+            <CodeEditor
+              path={SPEC_PATH}
+              language="json"
+              value={contract.openApi}
+              onChange={(openApi) => onChange({ ...contract, openApi })}
+              problems={specProblems}
+            />
+          </div>
+          <ul className="h-[400px] overflow-y-auto custom-scrollbar bg-slate-950/50 border border-slate-800 rounded-lg p-2 space-y-1 text-xs">
+            {endpoints.length === 0 && <li className="text-slate-600">No valid endpoints.</li>}
+            {endpoints.map(endpoint => (
+              <li key={`${endpoint.method} ${endpoint.path}`} title={endpoint.operationId}>
+                <span className={`inline-block w-12 font-mono font-semibold ${METHOD_STYLES[endpoint.method] || 'text-slate-400'}`}>{endpoint.method}</span>
+                <span className="font-mono text-slate-200">{endpoint.path}</span>
+                {endpoint.summary && <span className="block pl-12 text-slate-500">{endpoint.summary}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContractPanel;
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { diffLines, countChanges, DiffLine } from '../services/diff';
+
+export type DiffMode = 'unified' | 'split';
+
+interface DiffViewProps {
+  oldText: string;
+  newText: string;
+  mode?: DiffMode;
+}
+
+const LINE_STYLES = {
+  equal: 'text-slate-400',
+  added: 'bg-green-900/30 text-green-300',
+  removed: 'bg-red-900/30 text-red-300',
+};
+
+const LINE_MARKERS = { equal: ' ', added: '+', removed: '-' };
+
+interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Lines removed and added next to each other are shown on the same row
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach(line => {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
+
+const SplitCell: React.FC<{ line?: DiffLine; side: 'left' | 'right' }> = ({ line, side }) => (
+  <>
+    <td className={`select-none text-right text-slate-600 px-2 w-12 ${line ? LINE_STYLES[line.type] : 'bg-slate-900/60'}`}>
+      {line ? (side === 'left' ? line.oldLine : line.newLine) : ''}
+    </td>
+    <td className={`whitespace-pre pr-4 w-1/2 ${line ? LINE_STYLES[line.type] : 'bg-slate-900/60'}`}>
+      {line?.text ?? ''}
+    </td>
+  </>
+);
+
+/**
+ * Line diff between two versions of a file, either unified or side by side.
+ */
+const DiffView: React.FC<DiffViewProps> = ({ oldText, newText, mode = 'unified' }) => {
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const splitRows = useMemo(() => (mode === 'split' ? toSplitRows(lines) : []), [lines, mode]);
+  const { added, removed } = countChanges(lines);
+
+  return (
+    <div className="text-sm font-mono leading-relaxed">
+      <div className="px-4 py-1 text-xs text-slate-500 border-b border-slate-800">
+        <span className="text-green-400">+{added}</span> <span className="text-red-400">-{removed}</span>
+      </div>
+      <table className="w-full border-collapse">
+        <tbody>
+          {mode === 'split'
+            ? splitRows.map((row, idx) => (
+                <tr key={idx}>
+                  <SplitCell line={row.left} side="left" />
+                  <SplitCell line={row.right} side="right" />
+                </tr>
+              ))
+            : lines.map((line, idx) => (
+                <tr key={idx} className={LINE_STYLES[line.type]}>
+                  <td className="select-none text-right text-slate-600 px-2 w-12">{line.oldLine ?? ''}</td>
+                  <td className="select-none text-right text-slate-600 px-2 w-12">{line.newLine ?? ''}</td>
+                  <td className="select-none px-1 w-4">{LINE_MARKERS[line.type]}</td>
+                  <td className="whitespace-pre pr-4">{line.text}</td>
+                </tr>
+              ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen, X, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ParsedFeature, SourceDocument } from '../types';
+import { describeAnchorLocation, locateQuote } from '../services/sourceAnchors';
+
+interface DocumentViewerProps {
+  feature: ParsedFeature;
+  documents: SourceDocument[];
+  onClose: () => void;
+}
+
+const base64ToBlob = (data: string, type: string) => {
+  const bytes = Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+  return new Blob([bytes], { type });
+};
+
+// The browser's PDF viewer can open a page but not highlight text, so the quote is shown above it
+const PdfSource: React.FC<{ content: string; page?: number }> = ({ content, page }) => {
+  const url = useMemo(() => URL.createObjectURL(base64ToBlob(content, 'application/pdf')), [content]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  return <iframe key={page} src={`${url}#page=${page ?? 1}`} title="Source document" className="w-full h-96 rounded border border-slate-800 bg-white" />;
+};
+
+const TextSource: React.FC<{ content: string; quote: string; documentName: string }> = ({ content, quote, documentName }) => {
+  const markRef = useRef<HTMLElement>(null);
+  const match = useMemo(() => locateQuote(content, quote), [content, quote]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [match]);
+
+  return (
+    <>
+      {!match && (
+        <div className="flex items-start mb-2 px-3 py-2 text-xs text-amber-300 bg-amber-900/20 border border-amber-800 rounded-lg">
+          <AlertTriangle size={12} className="mr-2 mt-0.5 shrink-0" />
+          <span>This passage is not in {documentName}. The requirement may be paraphrased or invented; check it against the document.</span>
+        </div>
+      )}
+      {match && !match.complete && (
+        <div className="mb-2 text-xs text-slate-500">Only the beginning of the quoted passage matches the document.</div>
+      )}
+      <pre className="h-96 overflow-y-auto custom-scrollbar whitespace-pre-wrap font-sans text-xs text-slate-400 bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+        {match ? (
+          <>
+            {content.slice(0, match.start)}
+            <mark ref={markRef} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">{content.slice(match.start, match.end)}</mark>
+            {content.slice(match.end)}
+          </>
+        ) : content}
+      </pre>
+    </>
+  );
+};
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ feature, documents, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const anchors = feature.anchors ?? [];
+
+  // A merged feature has several anchors; a newly selected feature starts at its first
+  useEffect(() => {
+    setIndex(0);
+  }, [feature.title]);
+
+  const anchor = anchors[Math.min(index, anchors.length - 1)];
+  const source = anchor && documents.find(d => d.id === anchor.documentId);
+  const location = anchor ? describeAnchorLocation(anchor) : '';
+
+  return (
+    <section className="bg-slate-900 rounded-xl border border-slate-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-300 flex items-center min-w-0">
+          <BookOpen size={16} className="mr-2 text-yellow-400 shrink-0" />
+          <span className="truncate">Source of “{feature.title}”</span>
+        </h2>
+        <div className="flex items-center space-x-1 shrink-0">
+          {anchors.length > 1 && (
+            <>
+              <button onClick={() => setIndex(index - 1)} disabled={index === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Previous source">
+                <ChevronLeft size={14} />
+              </button>
+              <span className="text-xs text-slate-500">{index + 1} / {anchors.length}</span>
+              <button onClick={() => setIndex(index + 1)} disabled={index === anchors.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Next source">
+                <ChevronRight size={14} />
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white" title="Close the source view">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {!anchor ? (
+        <p className="text-xs text-slate-500">This feature has no source passage; it was added by hand or imported before sources were recorded.</p>
+      ) : (
+        <>
+          <div className="text-xs text-slate-500">
+            {source?.name ?? 'Unknown document'}{location && ` · ${location}`}
+          </div>
+          {source?.kind === 'pdf' && (
+            <blockquote className="px-3 py-2 text-xs text-yellow-100 bg-yellow-500/10 border-l-2 border-yellow-500 rounded-r">{anchor.quote}</blockquote>
+          )}
+          {!source?.content ? (
+            <p className="text-xs text-slate-500">The document text is not stored with this project. Re-import it to view the passage in context.</p>
+          ) : source.kind === 'pdf' ? (
+            <PdfSource content={source.content} page={anchor.page} />
+          ) : (
+            <TextSource content={source.content} quote={anchor.quote} documentName={source.name} />
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default DocumentViewer;
@@ -1,37 +1,213 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ParsedFeature } from '../types';
 import * as LucideIcons from 'lucide-react';
+import { findingLabel } from '../services/requirementsReview';
+import { SEVERITY_STYLES } from './AnalysisView';
 
 interface FeatureCardProps {
   feature: ParsedFeature;
+  // Editing controls are optional so the card can still be used read-only
+  isEditing?: boolean;
+  isSelected?: boolean;
+  /** Highlighted as the feature whose linked files are shown */
+  isActive?: boolean;
+  disabled?: boolean;
+  onActivate?: () => void;
+  onEdit?: () => void;
+  onSave?: (feature: ParsedFeature) => void;
+  onCancel?: () => void;
+  onDelete?: () => void;
+  onToggleSelect?: () => void;
+  onDismissFinding?: (id: string) => void;
+  /** Names of the documents the feature was imported from */
+  sourceNames?: string[];
 }
 
-const FeatureCard: React.FC<FeatureCardProps> = ({ feature }) => {
-  // Dynamically render icon if it exists in Lucide, otherwise default
+const FEATURE_TYPES = ['Core', 'Security', 'UI', 'Database', 'API', 'Integration', 'Performance'];
+
+const resolveIcon = (name: string) =>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const IconComponent = (LucideIcons as any)[feature.icon] || LucideIcons.FileText;
-  
-  // Format the icon name to ensure it's valid (PascalCase usually)
-  // Simple check, if not found, use FileText
+  (LucideIcons as any)[name] || LucideIcons.FileText;
+
+const FeatureEditor: React.FC<{
+  feature: ParsedFeature;
+  onSave: (feature: ParsedFeature) => void;
+  onCancel: () => void;
+}> = ({ feature, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(feature);
+  const PreviewIcon = resolveIcon(draft.icon);
+
+  const update = (field: keyof ParsedFeature) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 text-slate-200 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
 
   return (
-    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 hover:border-blue-500 transition-colors duration-300 shadow-sm">
+    <div className="bg-slate-800 border border-blue-500 rounded-xl p-4 space-y-3">
+      <input value={draft.title} onChange={update('title')} placeholder="Title" className={inputClass} autoFocus />
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.type} onChange={update('type')} placeholder="Type" list="feature-types" className={inputClass} />
+        <div className="flex items-center space-x-2">
+          <div className="p-1.5 bg-blue-500/10 rounded-lg text-blue-400">
+            <PreviewIcon size={16} />
+          </div>
+          <input value={draft.icon} onChange={update('icon')} placeholder="Lucide icon, e.g. ShieldCheck" className={inputClass} />
+        </div>
+      </div>
+      <datalist id="feature-types">
+        {FEATURE_TYPES.map(type => <option key={type} value={type} />)}
+      </datalist>
+      <textarea value={draft.content} onChange={update('content')} placeholder="Describe the requirement" rows={4} className={inputClass} />
+      <div className="flex justify-end space-x-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white rounded-md hover:bg-slate-700 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, title: draft.title.trim(), type: draft.type.trim() || 'Core', icon: draft.icon.trim() || 'FileText' })}
+          disabled={!draft.title.trim()}
+          className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-md transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const FeatureCard: React.FC<FeatureCardProps> = ({
+  feature,
+  isEditing,
+  isSelected,
+  isActive,
+  disabled,
+  onActivate,
+  onEdit,
+  onSave,
+  onCancel,
+  onDelete,
+  onToggleSelect,
+  onDismissFinding,
+  sourceNames,
+}) => {
+  const [showFindings, setShowFindings] = useState(false);
+  // Dynamically render icon if it exists in Lucide, otherwise default
+  const IconComponent = resolveIcon(feature.icon);
+
+  if (isEditing && onSave && onCancel) {
+    return <FeatureEditor feature={feature} onSave={onSave} onCancel={onCancel} />;
+  }
+
+  return (
+    <div
+      onClick={onActivate}
+      className={`group bg-slate-800 border rounded-xl p-4 hover:border-blue-500 transition-colors duration-300 shadow-sm ${
+        isSelected ? 'border-blue-500 ring-1 ring-blue-500' : isActive ? 'border-indigo-400 bg-indigo-950/40' : 'border-slate-700'
+      } ${onActivate ? 'cursor-pointer' : ''}`}
+    >
       <div className="flex items-start justify-between mb-2">
-        <div className="flex items-center space-x-3">
+        <div className="flex items-center space-x-3 min-w-0">
+          {onToggleSelect && (
+            <input
+              type="checkbox"
+              checked={Boolean(isSelected)}
+              onChange={onToggleSelect}
+              onClick={(e) => e.stopPropagation()}
+              disabled={disabled}
+              className="accent-blue-500"
+              title="Select for merge"
+            />
+          )}
           <div className="p-2 bg-blue-500/10 rounded-lg text-blue-400">
             <IconComponent size={20} />
           </div>
-          <h3 className="font-semibold text-slate-100">{feature.title}</h3>
+          <h3 className="font-semibold text-slate-100 truncate">{feature.title}</h3>
+        </div>
+        <div className="flex items-center space-x-1 shrink-0">
+          {onEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit();
+              }}
+              disabled={disabled}
+              className="p-1 text-slate-500 hover:text-white rounded opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+              title="Edit feature"
+            >
+              <LucideIcons.Pencil size={14} />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+              disabled={disabled}
+              className="p-1 text-slate-500 hover:text-red-400 rounded opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+              title="Delete feature"
+            >
+              <LucideIcons.Trash2 size={14} />
+            </button>
+          )}
+          <span className="text-xs font-mono text-slate-500 bg-slate-900 px-2 py-1 rounded">
+            {feature.type}
+          </span>
         </div>
-        <span className="text-xs font-mono text-slate-500 bg-slate-900 px-2 py-1 rounded">
-          {feature.type}
-        </span>
       </div>
       <p className="text-slate-400 text-sm leading-relaxed mt-2 line-clamp-3">
         {feature.content}
       </p>
+      {sourceNames && sourceNames.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {sourceNames.map((name, index) => (
+            <span key={index} className="flex items-center px-1.5 py-0.5 text-[10px] text-slate-400 bg-slate-900 rounded" title="Imported from">
+              <LucideIcons.FileText size={10} className="mr-1" /> {name}
+            </span>
+          ))}
+        </div>
+      )}
+      {feature.findings && feature.findings.length > 0 && (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+          <button onClick={() => setShowFindings(!showFindings)} className="flex flex-wrap gap-1 text-left" title="Show the review findings">
+            {feature.findings.map(finding => (
+              <span
+                key={finding.id}
+                title={finding.issue}
+                className={`flex items-center px-1.5 py-0.5 text-[10px] rounded border ${SEVERITY_STYLES[finding.severity]}`}
+              >
+                <LucideIcons.AlertTriangle size={10} className="mr-1" /> {findingLabel(finding.category)}
+              </span>
+            ))}
+          </button>
+          {showFindings && (
+            <ul className="mt-2 space-y-2">
+              {feature.findings.map(finding => (
+                <li key={finding.id} className="flex items-start text-xs">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-slate-300">{finding.issue}</p>
+                    <p className="text-blue-300">{finding.question}</p>
+                    {finding.relatedTitles && finding.relatedTitles.length > 0 && (
+                      <p className="text-slate-500">See also: {finding.relatedTitles.join(', ')}</p>
+                    )}
+                  </div>
+                  {onDismissFinding && (
+                    <button
+                      onClick={() => onDismissFinding(finding.id)}
+                      disabled={disabled}
+                      className="ml-2 p-1 text-slate-500 hover:text-green-400 disabled:opacity-50"
+                      title="Mark as resolved"
+                    >
+                      <LucideIcons.Check size={12} />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default FeatureCard;
\ No newline at end of file
+export default FeatureCard;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Plus, Merge, GripVertical, Download } from 'lucide-react';
+import { ParsedFeature, SourceDocument } from '../types';
+import FeatureCard from './FeatureCard';
+import { mergeFeatureGroup } from '../services/featureMerge';
+import { FEATURE_EXPORT_FORMATS, FeatureExportFormat, exportFeatures } from '../services/featureExport';
+import { downloadBlob } from '../services/projectExport';
+
+interface FeatureListProps {
+  features: ParsedFeature[];
+  // Resolves source ids to document names
+  documents?: SourceDocument[];
+  // Heads the Markdown export and names the exported files
+  projectName?: string;
+  disabled?: boolean;
+  onChange: (features: ParsedFeature[]) => void;
+  activeTitle?: string | null;
+  onActivate?: (title: string | null) => void;
+  onDismissFinding?: (id: string) => void;
+}
+
+const NEW_FEATURE: ParsedFeature = { type: 'Core', title: 'New feature', icon: 'FileText', content: '', raw: '' };
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Combines the selected features into the first one (in list order) and drops the rest.
+ */
+const mergeFeatures = (features: ParsedFeature[], indices: number[]): ParsedFeature[] => {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const merged = mergeFeatureGroup(sorted.map(i => features[i]));
+  return features
+    .map((feature, idx) => (idx === sorted[0] ? merged : feature))
+    .filter((_, idx) => !sorted.slice(1).includes(idx));
+};
+
+const FeatureList: React.FC<FeatureListProps> = ({ features, documents = [], projectName = '', disabled, onChange, activeTitle, onActivate, onDismissFinding }) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState<FeatureExportFormat>('markdown');
+
+  // Indices shift on structural changes, so selection and editing start over
+  const commit = (next: ParsedFeature[]) => {
+    setSelected([]);
+    setEditingIndex(null);
+    onChange(next);
+  };
+
+  const handleSave = (idx: number, feature: ParsedFeature) => {
+    setEditingIndex(null);
+    onChange(features.map((f, i) => (i === idx ? feature : f)));
+  };
+
+  const handleAdd = () => {
+    commit([...features, NEW_FEATURE]);
+    setEditingIndex(features.length);
+  };
+
+  const toggleSelect = (idx: number) => {
+    setSelected(prev => (prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]));
+  };
+
+  const handleDrop = (idx: number) => {
+    if (dragIndex !== null && dragIndex !== idx) {
+      commit(moveItem(features, dragIndex, idx));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleExport = () => {
+    const { extension, mimeType } = FEATURE_EXPORT_FORMATS.find(option => option.format === exportFormat)!;
+    const baseName = projectName.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'project';
+    downloadBlob(new Blob([exportFeatures(features, exportFormat, projectName)], { type: mimeType }), `${baseName}-requirements.${extension}`);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-300 flex items-center">
+          Detected Features <span className="ml-2 bg-slate-800 text-xs px-2 py-0.5 rounded-full">{features.length}</span>
+        </h2>
+        <div className="flex items-center space-x-2">
+          {selected.length > 1 && (
+            <button
+              onClick={() => commit(mergeFeatures(features, selected))}
+              disabled={disabled}
+              className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-blue-600 hover:text-white rounded transition-colors disabled:opacity-50"
+            >
+              <Merge size={12} className="mr-1" /> Merge {selected.length}
+            </button>
+          )}
+          {features.length > 0 && (
+            <div className="flex items-center">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as FeatureExportFormat)}
+                className="bg-slate-800 text-xs text-slate-300 rounded-l px-1 py-1 border-r border-slate-700 focus:outline-none"
+                title="Export format"
+              >
+                {FEATURE_EXPORT_FORMATS.map(option => <option key={option.format} value={option.format}>{option.label}</option>)}
+              </select>
+              <button
+                onClick={handleExport}
+                className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-blue-600 hover:text-white rounded-r transition-colors"
+                title="Download the features; the file can be imported again"
+              >
+                <Download size={12} className="mr-1" /> Export
+              </button>
+            </div>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={disabled}
+            className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-blue-600 hover:text-white rounded transition-colors disabled:opacity-50"
+          >
+            <Plus size={12} className="mr-1" /> Add feature
+          </button>
+        </div>
+      </div>
+      <div className="grid gap-3 max-h-[400px] overflow-y-auto pr-2 scrollbar-hide">
+        {features.map((feature, idx) => (
+          <div
+            key={idx}
+            draggable={!disabled && editingIndex === null}
+            onDragStart={() => setDragIndex(idx)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(idx);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDrop={() => handleDrop(idx)}
+            className={`flex items-stretch ${dragIndex === idx ? 'opacity-40' : ''} ${
+              dropIndex === idx && dragIndex !== idx ? 'border-t-2 border-blue-500 pt-1' : ''
+            }`}
+          >
+            {editingIndex === null && !disabled && (
+              <div className="flex items-center pr-1 text-slate-600 hover:text-slate-400 cursor-grab" title="Drag to reorder">
+                <GripVertical size={14} />
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <FeatureCard
+                feature={feature}
+                disabled={disabled}
+                isEditing={editingIndex === idx}
+                isSelected={selected.includes(idx)}
+                isActive={activeTitle === feature.title}
+                onActivate={onActivate ? () => onActivate(activeTitle === feature.title ? null : feature.title) : undefined}
+                onEdit={() => setEditingIndex(idx)}
+                onSave={(updated) => handleSave(idx, updated)}
+                onCancel={() => setEditingIndex(null)}
+                onDelete={() => commit(features.filter((_, i) => i !== idx))}
+                onToggleSelect={() => toggleSelect(idx)}
+                onDismissFinding={onDismissFinding}
+                sourceNames={feature.sources?.map(id => documents.find(document => document.id === id)?.name ?? 'Unknown document')}
+              />
+            </div>
+          </div>
+        ))}
+        {features.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-6 border border-dashed border-slate-800 rounded-xl">
+            No features yet. Import a document or add one by hand.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default FeatureList;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Folder, FolderOpen, FileCode, FileJson, FileText, ChevronRight, ChevronDown } from 'lucide-react';
+import { ProjectFile } from '../types';
+import { FileTreeNode } from '../services/fileTree';
+
+interface FileTreeProps {
+  nodes: FileTreeNode[];
+  selectedPath: string | null;
+  expandedPaths: Set<string>;
+  onToggleFolder: (path: string) => void;
+  onSelectFile: (file: ProjectFile) => void;
+  highlightedPaths?: string[];
+  dirtyPaths?: Set<string>;
+  // Files that failed static validation
+  problemPaths?: Set<string>;
+  // While filtering every folder is shown open regardless of its saved state
+  forceExpanded?: boolean;
+  depth?: number;
+}
+
+export const FileIcon: React.FC<{ filename: string }> = ({ filename }) => {
+  if (filename.endsWith('.json')) return <FileJson size={14} className="text-yellow-400" />;
+  if (filename.endsWith('.ts') || filename.endsWith('.tsx')) return <FileCode size={14} className="text-blue-400" />;
+  if (filename.endsWith('.js') || filename.endsWith('.jsx')) return <FileCode size={14} className="text-yellow-300" />;
+  if (filename.endsWith('.py')) return <FileCode size={14} className="text-blue-300" />;
+  if (filename.endsWith('.md')) return <FileText size={14} className="text-slate-400" />;
+  return <FileText size={14} className="text-slate-500" />;
+};
+
+const containsPath = (folderPath: string, paths: Iterable<string>) => {
+  for (const path of paths) {
+    if (path.startsWith(`${folderPath}/`)) return true;
+  }
+  return false;
+};
+
+const FileTree: React.FC<FileTreeProps> = ({
+  nodes,
+  selectedPath,
+  expandedPaths,
+  onToggleFolder,
+  onSelectFile,
+  highlightedPaths = [],
+  dirtyPaths = new Set<string>(),
+  problemPaths = new Set<string>(),
+  forceExpanded = false,
+  depth = 0,
+}) => {
+  const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+  return (
+    <div className="space-y-0.5">
+      {nodes.map(node => {
+        if (node.kind === 'folder') {
+          const isOpen = forceExpanded || expandedPaths.has(node.path);
+          // Collapsed folders still surface what is inside them
+          const hasHighlight = !isOpen && containsPath(node.path, highlightedPaths);
+          const hasDirty = !isOpen && containsPath(node.path, dirtyPaths);
+          const hasProblem = !isOpen && containsPath(node.path, problemPaths);
+          return (
+            <div key={node.path}>
+              <button
+                onClick={() => onToggleFolder(node.path)}
+                style={indent}
+                className={`flex items-center w-full text-left pr-2 py-1 rounded-md text-xs transition-colors ${
+                  hasHighlight ? 'text-indigo-200' : 'text-slate-300'
+                } hover:bg-slate-700`}
+                title={node.path}
+              >
+                {isOpen ? <ChevronDown size={12} className="mr-1 shrink-0" /> : <ChevronRight size={12} className="mr-1 shrink-0" />}
+                {isOpen
+                  ? <FolderOpen size={14} className="mr-2 shrink-0 text-blue-400" />
+                  : <Folder size={14} className="mr-2 shrink-0 text-blue-400" />}
+                <span className={`truncate font-medium ${hasProblem ? 'text-red-400' : ''}`}>{node.name}</span>
+                {hasDirty && <span className="ml-auto pl-2 text-amber-400" title="Contains modified files">●</span>}
+              </button>
+              {isOpen && (
+                <FileTree
+                  nodes={node.children}
+                  selectedPath={selectedPath}
+                  expandedPaths={expandedPaths}
+                  onToggleFolder={onToggleFolder}
+                  onSelectFile={onSelectFile}
+                  highlightedPaths={highlightedPaths}
+                  dirtyPaths={dirtyPaths}
+                  problemPaths={problemPaths}
+                  forceExpanded={forceExpanded}
+                  depth={depth + 1}
+                />
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <button
+            key={node.path}
+            onClick={() => onSelectFile(node.file)}
+            // Files line up with the folder names next to them, past the chevron
+            style={{ paddingLeft: `${depth * 12 + 24}px` }}
+            className={`flex items-center w-full text-left pr-2 py-1 rounded-md text-xs transition-colors ${
+              selectedPath === node.path
+                ? 'bg-blue-600 text-white'
+                : highlightedPaths.includes(node.path)
+                  ? 'bg-indigo-900/50 text-indigo-200 ring-1 ring-indigo-500/50'
+                  : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+            }`}
+            title={node.path}
+          >
+            <div className="mr-2 shrink-0">
+              <FileIcon filename={node.path} />
+            </div>
+            <span className={`truncate ${problemPaths.has(node.path) && selectedPath !== node.path ? 'text-red-400' : ''}`}>{node.name}</span>
+            {dirtyPaths.has(node.path) && (
+              <span className="ml-auto pl-2 text-amber-400" title="Modified since the last version">●</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FileTree;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { FileDiagnostics } from '../services/documentImport';
+
+interface ImportDiagnosticsProps {
+  reports: FileDiagnostics[];
+  onDismiss: () => void;
+}
+
+const ImportDiagnostics: React.FC<ImportDiagnosticsProps> = ({ reports, onDismiss }) => {
+  const skipped = reports.reduce((count, report) => count + report.diagnostics.filter(d => d.severity === 'error').length, 0);
+
+  return (
+    <div className="mt-4 p-3 bg-amber-900/10 border border-amber-800 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-amber-300 flex items-center">
+          <AlertTriangle size={14} className="mr-2" />
+          {skipped > 0 ? `${skipped} block${skipped === 1 ? ' was' : 's were'} skipped` : 'Some lines were not understood'}
+        </h3>
+        <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white" title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="max-h-60 overflow-y-auto custom-scrollbar space-y-2">
+        {reports.map(report => (
+          <div key={report.fileName}>
+            <div className="text-xs font-medium text-slate-300 truncate" title={report.fileName}>{report.fileName}</div>
+            <ul className="mt-1 space-y-1">
+              {report.diagnostics.map((diagnostic, index) => (
+                <li key={index} className="flex items-start text-xs">
+                  {diagnostic.severity === 'error'
+                    ? <AlertCircle size={12} className="mr-2 mt-0.5 shrink-0 text-red-400" />
+                    : <AlertTriangle size={12} className="mr-2 mt-0.5 shrink-0 text-amber-400" />}
+                  <div className="min-w-0">
+                    <span className="text-slate-500">Block {diagnostic.block}, line {diagnostic.line}: </span>
+                    <span className={diagnostic.severity === 'error' ? 'text-red-300' : 'text-amber-200'}>{diagnostic.message}</span>
+                    {diagnostic.excerpt && (
+                      <code className="block mt-0.5 px-1.5 py-0.5 text-[10px] text-slate-400 bg-slate-950/50 rounded truncate">{diagnostic.excerpt}</code>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ImportDiagnostics;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Merge, X, Check, FileText } from 'lucide-react';
+import { ParsedFeature, SourceDocument } from '../types';
+import { DuplicateCandidate } from '../services/featureMerge';
+
+interface ImportReviewProps {
+  features: ParsedFeature[];
+  candidates: DuplicateCandidate[];
+  documents: SourceDocument[];
+  onApply: (accepted: DuplicateCandidate[]) => void;
+  onDiscard: () => void;
+}
+
+const SourceTags: React.FC<{ feature: ParsedFeature; documents: SourceDocument[] }> = ({ feature, documents }) => (
+  <div className="flex flex-wrap gap-1 mt-1">
+    {(feature.sources ?? []).map(id => (
+      <span key={id} className="flex items-center px-1.5 py-0.5 text-[10px] text-slate-400 bg-slate-900 rounded">
+        <FileText size={10} className="mr-1" /> {documents.find(document => document.id === id)?.name ?? 'Unknown document'}
+      </span>
+    ))}
+    {!feature.sources?.length && <span className="px-1.5 py-0.5 text-[10px] text-slate-500 bg-slate-900 rounded">Added by hand</span>}
+  </div>
+);
+
+const ImportReview: React.FC<ImportReviewProps> = ({ features, candidates, documents, onApply, onDiscard }) => {
+  // Every pair starts accepted; unticking keeps both features
+  const [rejected, setRejected] = useState<number[]>([]);
+
+  const toggle = (index: number) => {
+    setRejected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
+
+  const accepted = candidates.filter((_, index) => !rejected.includes(index));
+
+  return (
+    <section className="bg-slate-900 rounded-xl border border-blue-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-300 flex items-center">
+          <Merge size={16} className="mr-2 text-blue-400" /> Possible duplicates
+          <span className="ml-2 bg-slate-800 text-xs px-2 py-0.5 rounded-full">{candidates.length}</span>
+        </h2>
+        <button onClick={onDiscard} className="p-1 text-slate-500 hover:text-white" title="Discard this import">
+          <X size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        These features from different documents look alike. Ticked pairs are merged into the first feature; untick a pair to keep both.
+      </p>
+
+      <ul className="max-h-80 overflow-y-auto custom-scrollbar space-y-2">
+        {candidates.map((candidate, index) => {
+          const isAccepted = !rejected.includes(index);
+          return (
+            <li
+              key={`${candidate.first}-${candidate.second}`}
+              className={`p-2 rounded-lg border text-xs ${isAccepted ? 'border-blue-700 bg-blue-950/20' : 'border-slate-800'}`}
+            >
+              <label className="flex items-center mb-2 text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={isAccepted} onChange={() => toggle(index)} className="mr-2 accent-blue-500" />
+                Merge ({Math.round(candidate.score * 100)}% similar)
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {[features[candidate.first], features[candidate.second]].map((feature, side) => (
+                  <div key={side} className="min-w-0">
+                    <div className="font-medium text-slate-200 truncate" title={feature.title}>{feature.title}</div>
+                    <p className="text-slate-400 line-clamp-3">{feature.content}</p>
+                    <SourceTags feature={feature} documents={documents} />
+                  </div>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={() => onApply([])}
+          className="px-3 py-1.5 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-md transition-colors"
+        >
+          Keep all
+        </button>
+        <button
+          onClick={() => onApply(accepted)}
+          className="flex items-center px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded-md transition-colors"
+        >
+          <Check size={12} className="mr-1" /> Merge {accepted.length} and import
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ImportReview;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Wrench, Square } from 'lucide-react';
+import { ScaffoldProblem, ScaffoldProblemKind } from '../types';
+
+export interface RepairProgress {
+  round: number;
+  maxRounds: number;
+  fileCount: number;
+}
+
+interface ProblemsPanelProps {
+  problems: ScaffoldProblem[];
+  onSelectProblem: (problem: ScaffoldProblem) => void;
+  onRepair?: () => void;
+  onCancelRepair?: () => void;
+  repairProgress?: RepairProgress | null;
+  repairError?: string | null;
+}
+
+const KIND_LABELS: Record<ScaffoldProblemKind, string> = {
+  json: 'JSON',
+  syntax: 'Syntax',
+  import: 'Import',
+  duplicate: 'Duplicate',
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  problems,
+  onSelectProblem,
+  onRepair,
+  onCancelRepair,
+  repairProgress,
+  repairError,
+}) => {
+  const byFile: Record<string, ScaffoldProblem[]> = {};
+  problems.forEach(problem => {
+    (byFile[problem.path] = byFile[problem.path] || []).push(problem);
+  });
+  const fileCount = Object.keys(byFile).length;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-[#0d1117]">
+      <div className="flex items-center justify-between bg-[#1e293b] border-b border-slate-700 px-4 py-2">
+        <span className="text-xs text-slate-400">
+          {problems.length === 0
+            ? 'All static checks passed.'
+            : `${problems.length} problem${problems.length === 1 ? '' : 's'} in ${fileCount} file${fileCount === 1 ? '' : 's'}`}
+        </span>
+        {repairProgress ? (
+          <div className="flex items-center space-x-3 text-xs text-slate-300">
+            <span className="flex items-center">
+              <Loader2 size={12} className="mr-1 animate-spin" />
+              Repairing {repairProgress.fileCount} file{repairProgress.fileCount === 1 ? '' : 's'} · round {repairProgress.round} of {repairProgress.maxRounds}
+            </span>
+            {onCancelRepair && (
+              <button onClick={onCancelRepair} className="flex items-center text-slate-400 hover:text-white" title="Stop repairing">
+                <Square size={12} className="mr-1" /> Stop
+              </button>
+            )}
+          </div>
+        ) : (
+          problems.length > 0 && onRepair && (
+            <button
+              onClick={onRepair}
+              className="flex items-center px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+              title="Send only the broken files and their problems back to the model"
+            >
+              <Wrench size={12} className="mr-1" /> Repair {fileCount} file{fileCount === 1 ? '' : 's'}
+            </button>
+          )
+        )}
+      </div>
+
+      {repairError && (
+        <div className="px-4 py-2 text-xs text-red-300 bg-red-900/30 border-b border-red-900/50">{repairError}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-3">
+        {problems.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-sm text-slate-500">
+            <CheckCircle2 size={16} className="mr-2 text-green-500" />
+            JSON, syntax, relative imports and paths look fine.
+          </div>
+        ) : (
+          (Object.entries(byFile) as [string, ScaffoldProblem[]][]).map(([path, fileProblems]) => (
+            <div key={path}>
+              <div className="px-2 mb-1 text-xs font-mono text-slate-300">{path}</div>
+              {fileProblems.map((problem, index) => (
+                <button
+                  key={index}
+                  onClick={() => onSelectProblem(problem)}
+                  className="flex items-start w-full text-left px-2 py-1 rounded-md text-xs text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+                >
+                  <AlertCircle size={12} className="mr-2 mt-0.5 shrink-0 text-red-400" />
+                  <span className="mr-2 shrink-0 text-slate-500">{KIND_LABELS[problem.kind]}</span>
+                  <span className="flex-1">{problem.message}</span>
+                  {problem.line && <span className="ml-2 shrink-0 font-mono text-slate-600">{problem.line}:{problem.column ?? 1}</span>}
+                </button>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
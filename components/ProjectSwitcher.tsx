@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Plus, Download, Upload, Trash2, Pencil, Check } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  currentProjectName: string;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  currentProjectId,
+  currentProjectName,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = () => {
+    setDraftName(currentProjectName);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (draftName.trim()) {
+      onRename(draftName.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Reset input value to allow importing the same file again
+    e.target.value = '';
+  };
+
+  const iconButton = 'p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center space-x-1 px-3 py-1.5 bg-slate-900 rounded-lg border border-slate-800 text-xs">
+      <FolderOpen size={14} className="text-blue-400 mr-1" />
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          className="bg-slate-800 text-slate-200 rounded px-2 py-1 w-40 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ) : (
+        <select
+          value={currentProjectId ?? ''}
+          onChange={(e) => e.target.value && onSelect(e.target.value)}
+          disabled={disabled}
+          className="bg-slate-800 text-slate-300 rounded px-2 py-1 max-w-[11rem] focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {!currentProjectId && <option value="">Unsaved workspace</option>}
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+      )}
+      {isRenaming ? (
+        <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className={iconButton} title="Save name">
+          <Check size={14} />
+        </button>
+      ) : (
+        <button onClick={startRename} disabled={disabled || !currentProjectId} className={iconButton} title="Rename project">
+          <Pencil size={14} />
+        </button>
+      )}
+      <button onClick={onNew} disabled={disabled} className={iconButton} title="New project">
+        <Plus size={14} />
+      </button>
+      <button onClick={onExport} disabled={disabled || !currentProjectId} className={iconButton} title="Export project as JSON">
+        <Download size={14} />
+      </button>
+      <button onClick={() => importInputRef.current?.click()} disabled={disabled} className={iconButton} title="Import project from JSON">
+        <Upload size={14} />
+      </button>
+      <button onClick={onDelete} disabled={disabled || !currentProjectId} className={`${iconButton} hover:text-red-400`} title="Delete project">
+        <Trash2 size={14} />
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleImportChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
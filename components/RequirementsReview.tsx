@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, Loader2, Square, RefreshCw, Download, Copy, Check } from 'lucide-react';
+import { ParsedFeature } from '../types';
+import { RISK_SEVERITIES } from '../services/analysis';
+import { buildClarifyingQuestions, countFindings, findingLabel, sortFindings } from '../services/requirementsReview';
+import { downloadBlob } from '../services/projectExport';
+import { SEVERITY_STYLES } from './AnalysisView';
+
+interface RequirementsReviewProps {
+  features: ParsedFeature[];
+  projectName: string;
+  isReviewing: boolean;
+  error?: string | null;
+  // Unset while there is nothing to review
+  onReview?: () => void;
+  onCancel: () => void;
+}
+
+const RequirementsReview: React.FC<RequirementsReviewProps> = ({
+  features,
+  projectName,
+  isReviewing,
+  error,
+  onReview,
+  onCancel,
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const total = countFindings(features);
+  const isReviewed = features.some(feature => feature.findings);
+  const bySeverity = RISK_SEVERITIES.map(severity => ({
+    severity,
+    count: features.reduce((count, feature) => count + (feature.findings?.filter(f => f.severity === severity).length ?? 0), 0),
+  })).filter(({ count }) => count > 0);
+
+  const handleExport = () => {
+    const fileName = `${projectName.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'project'}-questions.md`;
+    downloadBlob(new Blob([buildClarifyingQuestions(features, projectName)], { type: 'text/markdown' }), fileName);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(buildClarifyingQuestions(features, projectName));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <section className="bg-slate-900 rounded-xl border border-slate-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-300 flex items-center">
+          <ClipboardCheck size={16} className="mr-2 text-teal-400" /> Requirements Review
+          {bySeverity.map(({ severity, count }) => (
+            <span key={severity} className={`ml-2 px-1.5 py-0.5 text-[10px] rounded border ${SEVERITY_STYLES[severity]}`}>
+              {count} {severity}
+            </span>
+          ))}
+        </h2>
+        <div className="flex items-center space-x-2">
+          {total > 0 && (
+            <>
+              <button
+                onClick={handleCopy}
+                className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+                title="Copy the questions as Markdown"
+              >
+                {copied ? <Check size={12} className="mr-1 text-green-400" /> : <Copy size={12} className="mr-1" />} Copy
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+                title="Download the questions to send to the client"
+              >
+                <Download size={12} className="mr-1" /> Export
+              </button>
+            </>
+          )}
+          {isReviewing ? (
+            <button
+              onClick={onCancel}
+              className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+            >
+              <Loader2 size={12} className="mr-1 animate-spin" /> Cancel <Square size={10} className="ml-1" />
+            </button>
+          ) : (
+            <button
+              onClick={onReview}
+              disabled={!onReview}
+              title={isReviewed ? 'Replaces the current findings' : undefined}
+              className="flex items-center px-2 py-1 text-xs text-white bg-teal-700 hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              {isReviewed ? <RefreshCw size={12} className="mr-1" /> : <ClipboardCheck size={12} className="mr-1" />}
+              {isReviewed ? 'Review again' : 'Review'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">{error}</div>}
+
+      {total > 0 ? (
+        <ol className="max-h-64 overflow-y-auto custom-scrollbar space-y-2 text-xs">
+          {features.filter(feature => feature.findings && feature.findings.length > 0).map(feature => (
+            <li key={feature.title}>
+              <div className="font-medium text-slate-200">{feature.title}</div>
+              <ul className="mt-1 space-y-1">
+                {sortFindings(feature.findings!).map(finding => (
+                  <li key={finding.id} className="flex items-start">
+                    <span className={`mr-2 px-1 text-[10px] rounded border shrink-0 ${SEVERITY_STYLES[finding.severity]}`}>{findingLabel(finding.category)}</span>
+                    <span className="text-slate-400">{finding.question}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-xs text-slate-500">
+          {isReviewing
+            ? 'Looking for missing acceptance criteria, conflicts, undefined roles and gaps...'
+            : isReviewed
+              ? 'No open findings. Every requirement looks complete and unambiguous.'
+              : 'Check the requirements for gaps and get a list of clarifying questions for the client.'}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default RequirementsReview;
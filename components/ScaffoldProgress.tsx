@@ -0,0 +1,106 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2, FileCode, Square, CheckCircle2, Circle, AlertCircle, RefreshCw, X } from 'lucide-react';
+import { ProjectFile } from '../types';
+import { PipelineStage } from '../services/scaffoldPipeline';
+
+interface ScaffoldProgressProps {
+  stages: PipelineStage[];
+  files: ProjectFile[];
+  isRunning: boolean;
+  onCancel: () => void;
+  // Shown once a run stopped with unfinished stages
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const StageIcon: React.FC<{ stage: PipelineStage }> = ({ stage }) => {
+  if (stage.status === 'running') return <Loader2 size={12} className="animate-spin text-blue-400" />;
+  if (stage.status === 'done') return <CheckCircle2 size={12} className="text-green-500" />;
+  if (stage.status === 'failed') return <AlertCircle size={12} className="text-red-400" />;
+  return <Circle size={12} className="text-slate-600" />;
+};
+
+const ScaffoldProgress: React.FC<ScaffoldProgressProps> = ({ stages, files, isRunning, onCancel, onRetry, onDismiss }) => {
+  const listEndRef = useRef<HTMLLIElement>(null);
+  const done = stages.filter(stage => stage.status === 'done').length;
+  const failed = stages.filter(stage => stage.status === 'failed').length;
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [files.length]);
+
+  return (
+    <div className="mt-4 bg-slate-950/50 rounded-lg border border-slate-800 relative z-10">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800">
+        {isRunning ? (
+          <div className="flex items-center text-blue-400 text-sm font-medium">
+            <Loader2 size={16} className="mr-2 animate-spin" />
+            Generating Production-Ready Code & Demo...
+            <span className="ml-2 text-xs text-slate-500">stage {Math.min(done + 1, stages.length)} of {stages.length} · {files.length} files so far</span>
+          </div>
+        ) : (
+          <div className="flex items-center text-amber-400 text-sm font-medium">
+            <AlertCircle size={16} className="mr-2" />
+            {failed > 0 ? `${failed} stage${failed === 1 ? '' : 's'} failed` : 'Generation stopped'}
+            <span className="ml-2 text-xs text-slate-500">{done} of {stages.length} stages done</span>
+          </div>
+        )}
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded transition-colors"
+          >
+            <Square size={10} className="mr-1" /> Cancel
+          </button>
+        ) : (
+          <div className="flex items-center space-x-2">
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex items-center px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+                title="Run only the stages that are not done yet"
+              >
+                <RefreshCw size={10} className="mr-1" /> Resume
+              </button>
+            )}
+            {onDismiss && (
+              <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white" title="Discard this run">
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <ul className="p-2 space-y-1 text-xs border-b border-slate-800">
+        {stages.map(stage => (
+          <li key={stage.id} className="flex items-center px-2 text-slate-400">
+            <span className="mr-2 shrink-0"><StageIcon stage={stage} /></span>
+            <span className="truncate">{stage.label}</span>
+            {stage.paths.length > 0 && <span className="ml-2 text-slate-600 shrink-0">{stage.paths.length} files</span>}
+            {stage.attempts > 1 && <span className="ml-2 text-slate-600 shrink-0">attempt {stage.attempts}</span>}
+            {stage.error && <span className="ml-auto pl-2 text-red-400 truncate" title={stage.error}>{stage.error}</span>}
+          </li>
+        ))}
+      </ul>
+      {isRunning && (
+        <ul className="max-h-40 overflow-y-auto p-2 space-y-1 font-mono text-xs">
+          {files.map((file, idx) => (
+            <li key={`${file.path}-${idx}`} className="flex items-center justify-between text-slate-400 px-2">
+              <span className="flex items-center truncate">
+                <FileCode size={12} className="mr-2 text-blue-400 shrink-0" />
+                {file.path}
+              </span>
+              <span className="text-slate-600 ml-2 shrink-0">{file.content.split('\n').length} lines</span>
+            </li>
+          ))}
+          {files.length === 0 && (
+            <li className="text-slate-600 px-2">Waiting for the first file...</li>
+          )}
+          <li ref={listEndRef} />
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScaffoldProgress;
@@ -0,0 +1,57 @@
+import React, { useRef, useState } from 'react';
+import { FileText, RefreshCw } from 'lucide-react';
+import { ParsedFeature, SourceDocument } from '../types';
+import { ACCEPTED_FILE_TYPES } from '../services/documentImport';
+
+interface SourceDocumentsProps {
+  documents: SourceDocument[];
+  features: ParsedFeature[];
+  disabled?: boolean;
+  onReimport: (documentId: string, file: File) => void;
+}
+
+const SourceDocuments: React.FC<SourceDocumentsProps> = ({ documents, features, disabled, onReimport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && targetId) onReimport(targetId, file);
+    setTargetId(null);
+    // Allows picking the same file again later
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Sources</h3>
+      <ul className="space-y-1">
+        {documents.map(document => {
+          const count = features.filter(feature => feature.sources?.includes(document.id)).length;
+          return (
+            <li key={document.id} className="flex items-center text-xs text-slate-300">
+              <FileText size={12} className="mr-2 text-slate-500 shrink-0" />
+              <span className="truncate" title={document.name}>{document.name}</span>
+              <span className="ml-2 text-slate-500 shrink-0">{count} feature{count === 1 ? '' : 's'}</span>
+              <span className="ml-2 text-slate-600 shrink-0">{new Date(document.importedAt).toLocaleDateString()}</span>
+              <button
+                onClick={() => {
+                  setTargetId(document.id);
+                  inputRef.current?.click();
+                }}
+                disabled={disabled}
+                className="ml-auto flex items-center px-2 py-0.5 text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-50 transition-colors shrink-0"
+                title="Import a new version; only the features from this document are replaced"
+              >
+                <RefreshCw size={10} className="mr-1" /> Re-import
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <input ref={inputRef} type="file" accept={ACCEPTED_FILE_TYPES} onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
+
+export default SourceDocuments;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Columns3, Loader2, Square, Play, X, Plus, AlertCircle, AlertTriangle, CheckCircle2, FileCode } from 'lucide-react';
+import { TechStack } from '../types';
+import { StackComplexity } from '../services/geminiService';
+import { ComparisonColumn, MAX_COMPARED_STACKS, StackComparison as Comparison } from '../services/stackComparison';
+import { isSameStack, stackTitle } from '../services/stackCatalog';
+import AnalysisView from './AnalysisView';
+
+interface StackComparisonProps {
+  stacks: TechStack[];
+  comparison: Comparison | null;
+  currentStack: TechStack;
+  isRunning: boolean;
+  // Unset when the current stack is incomplete, already listed or the lineup is full
+  onAddCurrent?: () => void;
+  onRemoveStack: (index: number) => void;
+  // Unset while there are no features to analyse
+  onRun?: (includeManifest: boolean) => void;
+  onCancel: () => void;
+  onUseStack: (stack: TechStack) => void;
+  onClose: () => void;
+}
+
+const COMPLEXITY_STYLES: Record<StackComplexity, string> = {
+  low: 'bg-green-900/40 text-green-300 border-green-800',
+  medium: 'bg-amber-900/40 text-amber-300 border-amber-800',
+  high: 'bg-red-900/40 text-red-300 border-red-800',
+};
+
+const ColumnStatus: React.FC<{ column: ComparisonColumn }> = ({ column }) => {
+  if (column.status === 'running') return <Loader2 size={14} className="animate-spin text-blue-400" />;
+  if (column.status === 'done') return <CheckCircle2 size={14} className="text-green-500" />;
+  if (column.status === 'failed') return <AlertCircle size={14} className="text-red-400" />;
+  return null;
+};
+
+const StackComparison: React.FC<StackComparisonProps> = ({
+  stacks,
+  comparison,
+  currentStack,
+  isRunning,
+  onAddCurrent,
+  onRemoveStack,
+  onRun,
+  onCancel,
+  onUseStack,
+  onClose,
+}) => {
+  const [includeManifest, setIncludeManifest] = useState(false);
+
+  // File counts are only comparable once every manifest is in
+  const fileCounts = comparison?.columns.map(column => column.plan?.files.length) || [];
+  const fewestFiles = fileCounts.every(count => count !== undefined) && fileCounts.length > 1
+    ? Math.min(...(fileCounts as number[]))
+    : null;
+
+  return (
+    <section className="bg-slate-900 rounded-xl border border-slate-800 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center text-white">
+          <Columns3 className="mr-2 text-purple-400" /> Compare Stacks
+        </h2>
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-white" title="Close the comparison">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {stacks.map((stack, index) => (
+          <span key={index} className="flex items-center px-3 py-1 bg-slate-800 rounded-full text-xs text-slate-300">
+            {stackTitle(stack)}
+            <button
+              onClick={() => onRemoveStack(index)}
+              disabled={isRunning}
+              className="ml-2 text-slate-500 hover:text-white disabled:opacity-50"
+              title="Remove from the comparison"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {stacks.length < MAX_COMPARED_STACKS && (
+          <button
+            onClick={onAddCurrent}
+            disabled={!onAddCurrent || isRunning}
+            className="flex items-center px-3 py-1 rounded-full text-xs text-slate-500 border border-dashed border-slate-700 hover:text-slate-300 hover:border-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Add the stack selected above; recommendations can be added with their Compare button"
+          >
+            <Plus size={12} className="mr-1" /> Add selected stack
+          </button>
+        )}
+        <span className="text-xs text-slate-600">{stacks.length} of {MAX_COMPARED_STACKS}</span>
+
+        <div className="ml-auto flex items-center space-x-3">
+          <label className="flex items-center text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={includeManifest}
+              onChange={(e) => setIncludeManifest(e.target.checked)}
+              disabled={isRunning}
+              className="mr-2"
+            />
+            Include file manifest
+          </label>
+          {isRunning ? (
+            <button
+              onClick={onCancel}
+              className="flex items-center px-3 py-1.5 text-xs text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded-md transition-colors"
+            >
+              <Square size={12} className="mr-1" /> Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => onRun?.(includeManifest)}
+              disabled={!onRun || stacks.length < 2}
+              title={stacks.length < 2 ? 'Add at least two stacks' : undefined}
+              className="flex items-center px-3 py-1.5 text-xs font-medium text-white bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors"
+            >
+              <Play size={12} className="mr-1" /> Compare
+            </button>
+          )}
+        </div>
+      </div>
+
+      {comparison?.differences && (
+        <div className="mb-4 p-3 bg-purple-900/10 border border-purple-900/50 rounded-lg">
+          <h3 className="text-xs font-semibold text-purple-300 uppercase tracking-wider mb-2">Key differences</h3>
+          <ul className="space-y-1 text-sm text-slate-300 list-disc list-inside">
+            {comparison.differences.map((difference, index) => <li key={index}>{difference}</li>)}
+          </ul>
+        </div>
+      )}
+      {comparison?.summaryError && (
+        <div className="mb-4 px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">{comparison.summaryError}</div>
+      )}
+
+      {comparison && (
+        <div className={`grid gap-4 ${comparison.columns.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {comparison.columns.map((column, index) => {
+            const fileCount = fileCounts[index];
+            return (
+              <div key={index} className="flex flex-col min-w-0 bg-slate-950/50 rounded-lg border border-slate-800">
+                <div className="px-4 py-3 border-b border-slate-800">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-white truncate" title={stackTitle(column.stack)}>{stackTitle(column.stack)}</span>
+                    <ColumnStatus column={column} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                    {column.assessment && (
+                      <span
+                        className={`px-2 py-0.5 rounded border ${COMPLEXITY_STYLES[column.assessment.complexity]}`}
+                        title={column.assessment.complexityNotes}
+                      >
+                        {column.assessment.complexity} complexity
+                      </span>
+                    )}
+                    {fileCount !== undefined && (
+                      <span className="flex items-center text-slate-400">
+                        <FileCode size={12} className="mr-1" /> {fileCount} files
+                        {fewestFiles !== null && fileCount > fewestFiles && (
+                          <span className="ml-1 text-amber-400">(+{fileCount - fewestFiles})</span>
+                        )}
+                      </span>
+                    )}
+                    {column.status === 'done' && (
+                      <button
+                        onClick={() => onUseStack(column.stack)}
+                        disabled={isSameStack(column.stack, currentStack)}
+                        className="ml-auto px-2 py-0.5 text-white bg-blue-600 hover:bg-blue-500 disabled:bg-green-700 disabled:cursor-default rounded transition-colors"
+                      >
+                        {isSameStack(column.stack, currentStack) ? 'In use' : 'Use this stack'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {column.assessment && column.assessment.risks.length > 0 && (
+                  <ul className="px-4 py-2 space-y-1 border-b border-slate-800">
+                    {column.assessment.risks.map((risk, riskIndex) => (
+                      <li key={riskIndex} className="flex items-start text-xs text-amber-300">
+                        <AlertTriangle size={12} className="mr-2 mt-0.5 shrink-0" /> {risk}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="px-4 py-3 text-sm text-slate-300 max-h-80 overflow-y-auto custom-scrollbar">
+                  {column.error
+                    ? <span className="text-red-400">{column.error}</span>
+                    : column.analysis
+                      ? <AnalysisView analysis={column.analysis} compact />
+                      : <span className="text-slate-600">Waiting for the analysis...</span>}
+                </div>
+
+                {column.plan && (
+                  <details className="px-4 py-2 border-t border-slate-800 text-xs">
+                    <summary className="cursor-pointer text-slate-400 hover:text-slate-200">File manifest</summary>
+                    <ul className="mt-2 max-h-48 overflow-y-auto custom-scrollbar font-mono text-slate-500 space-y-0.5">
+                      {column.plan.files.map(file => <li key={file.path} className="truncate" title={file.purpose}>{file.path}</li>)}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default StackComparison;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2, Square, Check, Columns3 } from 'lucide-react';
+import { StackPreferences, StackRecommendation, TechStack } from '../types';
+import { STACK_CATALOG, STACK_CRITERIA, isSameStack, overallScore, stackTitle } from '../services/stackCatalog';
+
+interface StackRecommendationsProps {
+  recommendations: StackRecommendation[] | null;
+  currentStack: TechStack;
+  isLoading: boolean;
+  error?: string | null;
+  // Unset while there are no features to recommend for
+  onRecommend?: (preferences: StackPreferences) => void;
+  onCancel: () => void;
+  onSelect: (stack: TechStack) => void;
+  // Unset once the comparison is full
+  onCompare?: (stack: TechStack) => void;
+}
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-green-500' : score >= 5 ? 'bg-amber-500' : 'bg-red-500';
+
+const StackRecommendations: React.FC<StackRecommendationsProps> = ({
+  recommendations,
+  currentStack,
+  isLoading,
+  error,
+  onRecommend,
+  onCancel,
+  onSelect,
+  onCompare,
+}) => {
+  const [preferences, setPreferences] = useState<StackPreferences>({});
+
+  return (
+    <div className="mb-6 p-4 bg-slate-950/50 rounded-lg border border-slate-800 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={preferences.teamLanguages || ''}
+          onChange={(e) => setPreferences({ ...preferences, teamLanguages: e.target.value })}
+          placeholder="Team knows (e.g. Python, Java)"
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          value={preferences.hosting || ''}
+          onChange={(e) => setPreferences({ ...preferences, hosting: e.target.value })}
+          placeholder="Hosting (e.g. AWS, on-prem)"
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {isLoading ? (
+        <button
+          onClick={onCancel}
+          className="w-full flex items-center justify-center px-3 py-2 text-sm text-slate-300 bg-slate-800 hover:bg-red-600 hover:text-white rounded-lg transition-colors"
+        >
+          <Loader2 size={14} className="mr-2 animate-spin" /> Scoring candidate stacks...
+          <Square size={12} className="ml-3 mr-1" /> Cancel
+        </button>
+      ) : (
+        <button
+          onClick={() => onRecommend?.(preferences)}
+          disabled={!onRecommend}
+          title={onRecommend ? undefined : 'Upload requirements first'}
+          className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-green-700 hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+        >
+          <Sparkles size={14} className="mr-2" /> Recommend stack
+        </button>
+      )}
+
+      {error && <div className="px-3 py-2 text-xs text-red-300 bg-red-900/30 border border-red-900/50 rounded-lg">{error}</div>}
+
+      {recommendations && !isLoading && recommendations.map((recommendation, index) => {
+        const selected = isSameStack(recommendation.stack, currentStack);
+        return (
+          <div
+            key={index}
+            className={`p-3 rounded-lg border ${selected ? 'border-green-600 bg-green-900/10' : 'border-slate-800 bg-slate-900'}`}
+          >
+            <div className="flex items-start justify-between mb-2">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold text-white">
+                  #{index + 1} {stackTitle(recommendation.stack)}
+                </div>
+                <div className="text-xs text-slate-500 truncate">
+                  {STACK_CATALOG.filter(dimension => !dimension.required && recommendation.stack[dimension.key])
+                    .map(dimension => recommendation.stack[dimension.key])
+                    .join(' · ')}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 shrink-0 ml-2">
+                <span className="text-xs font-mono text-slate-400">{overallScore(recommendation).toFixed(1)}/10</span>
+                {onCompare && (
+                  <button
+                    onClick={() => onCompare(recommendation.stack)}
+                    className="flex items-center px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+                    title="Add to the side-by-side comparison"
+                  >
+                    <Columns3 size={12} className="mr-1" /> Compare
+                  </button>
+                )}
+                <button
+                  onClick={() => onSelect(recommendation.stack)}
+                  disabled={selected}
+                  className="flex items-center px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 disabled:bg-green-700 disabled:cursor-default rounded transition-colors"
+                >
+                  {selected ? <><Check size={12} className="mr-1" /> In use</> : 'Use this stack'}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-1 mb-2">
+              {STACK_CRITERIA.map(criterion => {
+                const score = recommendation.scores[criterion.key];
+                return (
+                  <div key={criterion.key} className="flex items-center text-xs" title={recommendation.notes[criterion.key]}>
+                    <span className="w-24 shrink-0 text-slate-500">{criterion.label}</span>
+                    <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                      <div className={`h-full ${scoreColor(score)}`} style={{ width: `${score * 10}%` }} />
+                    </div>
+                    <span className="w-6 text-right text-slate-400 font-mono">{score}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">{recommendation.rationale}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StackRecommendations;
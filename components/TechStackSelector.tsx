@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Monitor, Server, Plus, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { TechStack } from '../types';
+import {
+  STACK_CATALOG,
+  StackDimension,
+  StackDimensionInfo,
+  addCustomOption,
+  checkStackCompatibility,
+  isOptionCompatible,
+  loadCustomOptions,
+} from '../services/stackCatalog';
+
+interface TechStackSelectorProps {
+  stack: TechStack;
+  onChange: (stack: TechStack) => void;
+}
+
+const ACCENTS: Partial<Record<StackDimension, string>> = {
+  language: 'bg-blue-600 text-white shadow-lg shadow-blue-900/50',
+  frontendFramework: 'bg-purple-600 text-white shadow-lg shadow-purple-900/50',
+  backendFramework: 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50',
+};
+
+const ICONS: Partial<Record<StackDimension, React.ElementType>> = {
+  frontendFramework: Monitor,
+  backendFramework: Server,
+};
+
+const GRID_COLUMNS: Partial<Record<StackDimension, string>> = {
+  language: 'grid-cols-3',
+};
+
+const CUSTOM_VALUE = '__custom__';
+
+const CustomEntry: React.FC<{ onAdd: (value: string) => void; onCancel: () => void }> = ({ onAdd, onCancel }) => {
+  const [value, setValue] = useState('');
+  const submit = () => {
+    if (value.trim()) onAdd(value.trim());
+  };
+  return (
+    <div className="flex mt-2 space-x-2">
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submit();
+          if (e.key === 'Escape') onCancel();
+        }}
+        placeholder="Type your own..."
+        className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button onClick={submit} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white">Use</button>
+    </div>
+  );
+};
+
+const TechStackSelector: React.FC<TechStackSelectorProps> = ({ stack, onChange }) => {
+  const [customOptions, setCustomOptions] = useState(loadCustomOptions);
+  const [customFor, setCustomFor] = useState<StackDimension | null>(null);
+  const [showMore, setShowMore] = useState(() =>
+    STACK_CATALOG.some(dimension => !dimension.required && stack[dimension.key])
+  );
+
+  const issues = checkStackCompatibility(stack);
+  const setValue = (key: StackDimension, value: string) => onChange({ ...stack, [key]: value });
+
+  const applyCustom = (key: StackDimension, value: string) => {
+    setCustomOptions(addCustomOption(key, value));
+    setValue(key, value);
+    setCustomFor(null);
+  };
+
+  const namesFor = (dimension: StackDimensionInfo) => [
+    ...dimension.options.map(option => option.name),
+    ...(customOptions[dimension.key] || []),
+  ];
+
+  const conflictHint = (key: StackDimension, name: string) =>
+    checkStackCompatibility({ ...stack, [key]: name })
+      .filter(issue => issue.dimensions.includes(key))
+      .map(issue => issue.message)
+      .join(' ');
+
+  const renderButtons = (dimension: StackDimensionInfo) => {
+    const Icon = ICONS[dimension.key];
+    return (
+      <div key={dimension.key}>
+        <label className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+          {Icon && <Icon size={14} className="mr-1" />} {dimension.key === 'language' ? 'Preferred Language' : `${dimension.label} Framework`}
+        </label>
+        <div className={`grid ${GRID_COLUMNS[dimension.key] || 'grid-cols-2'} gap-2`}>
+          {namesFor(dimension).map(name => {
+            const selected = stack[dimension.key] === name;
+            const compatible = isOptionCompatible(stack, dimension.key, name);
+            return (
+              <button
+                key={name}
+                onClick={() => setValue(dimension.key, name)}
+                title={compatible ? undefined : conflictHint(dimension.key, name)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                  selected
+                    ? compatible ? ACCENTS[dimension.key] : 'bg-red-700 text-white'
+                    : compatible
+                      ? 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                      : 'bg-slate-800/50 text-slate-600 line-through hover:bg-slate-700'
+                }`}
+              >
+                {name}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => setCustomFor(customFor === dimension.key ? null : dimension.key)}
+            className="flex items-center justify-center px-3 py-2 rounded-lg text-sm text-slate-500 border border-dashed border-slate-700 hover:text-slate-300 hover:border-slate-500"
+          >
+            <Plus size={14} className="mr-1" /> Custom
+          </button>
+        </div>
+        {customFor === dimension.key && (
+          <CustomEntry onAdd={(value) => applyCustom(dimension.key, value)} onCancel={() => setCustomFor(null)} />
+        )}
+      </div>
+    );
+  };
+
+  const renderSelect = (dimension: StackDimensionInfo) => (
+    <div key={dimension.key}>
+      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">{dimension.label}</label>
+      <select
+        value={customFor === dimension.key ? CUSTOM_VALUE : stack[dimension.key] || ''}
+        onChange={(e) => {
+          if (e.target.value === CUSTOM_VALUE) {
+            setCustomFor(dimension.key);
+          } else {
+            setCustomFor(null);
+            setValue(dimension.key, e.target.value);
+          }
+        }}
+        className="w-full bg-slate-800 text-slate-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Architect decides</option>
+        {namesFor(dimension).map(name => (
+          <option key={name} value={name}>
+            {name}{isOptionCompatible(stack, dimension.key, name) ? '' : ' (incompatible)'}
+          </option>
+        ))}
+        <option value={CUSTOM_VALUE}>Custom...</option>
+      </select>
+      {customFor === dimension.key && (
+        <CustomEntry onAdd={(value) => applyCustom(dimension.key, value)} onCancel={() => setCustomFor(null)} />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {STACK_CATALOG.filter(dimension => dimension.required).map(renderButtons)}
+
+      <div>
+        <button
+          onClick={() => setShowMore(!showMore)}
+          className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider hover:text-slate-300"
+        >
+          {showMore ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+          More options
+        </button>
+        {showMore && (
+          <div className="grid grid-cols-2 gap-3 mt-3">
+            {STACK_CATALOG.filter(dimension => !dimension.required).map(renderSelect)}
+          </div>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-red-900/20 border border-red-900/50 rounded-lg space-y-1">
+          {issues.map(issue => (
+            <div key={issue.message} className="flex items-start text-xs text-red-300">
+              <AlertCircle size={14} className="mr-2 shrink-0" /> {issue.message}
+            </div>
+          ))}
+          <p className="text-xs text-slate-500 pt-1">Analysis and code generation wait until these are resolved.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TechStackSelector;
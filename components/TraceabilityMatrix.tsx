@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { GitBranch, AlertTriangle, FileQuestion, FileCode } from 'lucide-react';
+import { CodeScaffold, ParsedFeature } from '../types';
+import { buildTraceabilityReport, normalizeTitle } from '../services/traceability';
+
+interface TraceabilityMatrixProps {
+  features: ParsedFeature[];
+  scaffold: CodeScaffold;
+  selectedFeatureTitle: string | null;
+  onSelectFeature: (title: string | null) => void;
+}
+
+const TraceabilityMatrix: React.FC<TraceabilityMatrixProps> = ({ features, scaffold, selectedFeatureTitle, onSelectFeature }) => {
+  const report = useMemo(() => buildTraceabilityReport(features, scaffold), [features, scaffold]);
+  const selectedKey = selectedFeatureTitle ? normalizeTitle(selectedFeatureTitle) : null;
+
+  const coverageColor = report.coverage >= 90 ? 'bg-green-500' : report.coverage >= 60 ? 'bg-yellow-500' : 'bg-red-500';
+
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded-xl overflow-hidden shadow-2xl flex flex-col h-[700px]">
+      <div className="bg-slate-800 border-b border-slate-700 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-200">
+            <GitBranch size={18} className="text-blue-400" />
+            <span className="font-semibold text-sm">Requirement Traceability</span>
+          </div>
+          <span className="text-sm font-mono text-slate-300">{report.coverage}% covered</span>
+        </div>
+        <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+          <div className={`h-full ${coverageColor} transition-all`} style={{ width: `${report.coverage}%` }} />
+        </div>
+        <div className="flex space-x-4 text-xs text-slate-400">
+          <span>{features.length - report.uncoveredFeatures.length}/{features.length} features implemented</span>
+          <span>{report.orphanFiles.length} files without a feature</span>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {/* Feature -> files */}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-slate-500">
+              <th className="pb-2 pr-4 w-1/3">Feature</th>
+              <th className="pb-2">Implemented by</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.traces.map(({ feature, files }, idx) => {
+              const isSelected = selectedKey === normalizeTitle(feature.title);
+              return (
+                <tr
+                  key={idx}
+                  onClick={() => onSelectFeature(isSelected ? null : feature.title)}
+                  className={`align-top border-t border-slate-800 cursor-pointer ${isSelected ? 'bg-blue-900/20' : 'hover:bg-slate-800/50'}`}
+                >
+                  <td className="py-2 pr-4">
+                    <div className={`font-medium ${files.length === 0 ? 'text-red-400' : 'text-slate-200'}`}>{feature.title}</div>
+                    <div className="text-xs text-slate-500">{feature.type}</div>
+                  </td>
+                  <td className="py-2">
+                    {files.length === 0 ? (
+                      <span className="flex items-center text-xs text-red-400">
+                        <AlertTriangle size={12} className="mr-1" /> Not covered by any file
+                      </span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {files.map(file => (
+                          <span key={file.path} className="flex items-center text-xs font-mono bg-slate-800 text-slate-300 px-2 py-0.5 rounded">
+                            <FileCode size={10} className="mr-1 text-blue-400" />
+                            {file.path}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {/* Orphans */}
+        {report.orphanFiles.length > 0 && (
+          <div>
+            <h3 className="flex items-center text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">
+              <FileQuestion size={12} className="mr-1" /> Files not linked to a feature
+            </h3>
+            <div className="flex flex-wrap gap-1">
+              {report.orphanFiles.map(file => (
+                <span key={file.path} className="text-xs font-mono bg-slate-800 text-slate-400 px-2 py-0.5 rounded" title={(file.featureTitles || []).join(', ') || 'No features declared'}>
+                  {file.path}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TraceabilityMatrix;
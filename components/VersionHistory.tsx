@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, Sparkles, FilePen, Columns2, Rows2, Keyboard, Wrench, Network } from 'lucide-react';
+import { ScaffoldVersion } from '../types';
+import { compareScaffolds, FileChangeType } from '../services/scaffoldHistory';
+import DiffView, { DiffMode } from './DiffView';
+
+interface VersionHistoryProps {
+  // Oldest first
+  versions: ScaffoldVersion[];
+  onRestore?: (versionId: string) => void;
+}
+
+const CHANGE_BADGES: Record<FileChangeType, { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  removed: { label: 'D', className: 'text-red-400' },
+  modified: { label: 'M', className: 'text-yellow-400' },
+  unchanged: { label: ' ', className: 'text-slate-600' },
+};
+
+const SOURCE_ICONS = {
+  generation: Sparkles,
+  edit: FilePen,
+  manual: Keyboard,
+  repair: Wrench,
+  docs: Network,
+  restore: RotateCcw,
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, onRestore }) => {
+  const latest = versions[versions.length - 1];
+  const [toId, setToId] = useState(latest?.id);
+  const [fromId, setFromId] = useState(versions[versions.length - 2]?.id ?? latest?.id);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Follow the newest version when one is added while the panel is open
+  useEffect(() => {
+    if (!latest) return;
+    setToId(latest.id);
+    setFromId(versions[versions.length - 2]?.id ?? latest.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [latest?.id]);
+
+  const fromVersion = versions.find(v => v.id === fromId) ?? versions[0];
+  const toVersion = versions.find(v => v.id === toId) ?? latest;
+
+  const changes = useMemo(
+    () => (fromVersion && toVersion ? compareScaffolds(fromVersion.scaffold, toVersion.scaffold) : []),
+    [fromVersion, toVersion]
+  );
+  const visibleChanges = showUnchanged ? changes : changes.filter(change => change.type !== 'unchanged');
+  const selectedChange = visibleChanges.find(change => change.path === selectedPath) ?? visibleChanges[0];
+
+  const compareWithPrevious = (idx: number) => {
+    setToId(versions[idx].id);
+    setFromId(versions[Math.max(0, idx - 1)].id);
+  };
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-slate-500 text-sm">
+        No versions recorded yet.
+      </div>
+    );
+  }
+
+  const selectClass = 'w-full bg-slate-800 text-slate-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+      {/* Timeline and changed files */}
+      <div className="w-full md:w-64 bg-[#1e293b] border-r border-slate-700 flex flex-col min-h-0">
+        <div className="p-3 border-b border-slate-700 space-y-2">
+          <label className="block text-[10px] uppercase tracking-wider text-slate-500">From</label>
+          <select value={fromVersion.id} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+            {versions.map((v, idx) => <option key={v.id} value={v.id}>v{idx + 1} · {v.label}</option>)}
+          </select>
+          <label className="block text-[10px] uppercase tracking-wider text-slate-500">To</label>
+          <select value={toVersion.id} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+            {versions.map((v, idx) => <option key={v.id} value={v.id}>v{idx + 1} · {v.label}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-4">
+          <div>
+            <div className="flex items-center text-slate-300 text-sm font-semibold mb-1 px-2">
+              <History size={14} className="mr-2 text-blue-400" /> Timeline
+            </div>
+            <div className="pl-2 space-y-1">
+              {[...versions].reverse().map(version => {
+                const idx = versions.indexOf(version);
+                const Icon = SOURCE_ICONS[version.source];
+                return (
+                  <div
+                    key={version.id}
+                    className={`group flex items-center px-2 py-1.5 rounded-md text-xs ${
+                      version.id === toVersion.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-700'
+                    }`}
+                  >
+                    <button onClick={() => compareWithPrevious(idx)} className="flex items-center flex-1 min-w-0 text-left" title="Compare with the previous version">
+                      <Icon size={12} className="mr-2 shrink-0" />
+                      <span className="truncate">v{idx + 1} · {version.label}</span>
+                    </button>
+                    <span className="ml-2 shrink-0 opacity-60">{formatTime(version.createdAt)}</span>
+                    {onRestore && version.id !== latest.id && (
+                      <button
+                        onClick={() => onRestore(version.id)}
+                        className="ml-1 p-0.5 opacity-0 group-hover:opacity-100 hover:text-white"
+                        title="Restore this version"
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between text-slate-300 text-sm font-semibold mb-1 px-2">
+              <span>Changed files</span>
+              <label className="flex items-center text-[10px] font-normal text-slate-500">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="mr-1 accent-blue-500" />
+                all
+              </label>
+            </div>
+            <div className="pl-2 space-y-1">
+              {visibleChanges.map(change => (
+                <button
+                  key={change.path}
+                  onClick={() => setSelectedPath(change.path)}
+                  className={`flex items-center w-full text-left px-2 py-1 rounded-md text-xs transition-colors ${
+                    selectedChange?.path === change.path ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+                  }`}
+                >
+                  <span className={`w-3 mr-2 font-mono font-bold ${CHANGE_BADGES[change.type].className}`}>{CHANGE_BADGES[change.type].label}</span>
+                  <span className="truncate">{change.path}</span>
+                </button>
+              ))}
+              {visibleChanges.length === 0 && (
+                <p className="px-2 text-xs text-slate-600">No differences between these versions.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 flex flex-col bg-[#0d1117] min-w-0 min-h-0">
+        <div className="flex items-center justify-between bg-[#0f172a] border-b border-slate-700 px-4 py-2">
+          <span className="text-sm font-mono text-slate-300 truncate">{selectedChange?.path ?? ''}</span>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setMode('unified')}
+              className={`p-1.5 rounded transition-colors ${mode === 'unified' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              title="Unified diff"
+            >
+              <Rows2 size={14} />
+            </button>
+            <button
+              onClick={() => setMode('split')}
+              className={`p-1.5 rounded transition-colors ${mode === 'split' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              title="Side-by-side diff"
+            >
+              <Columns2 size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          {selectedChange && (
+            <DiffView oldText={selectedChange.oldContent} newText={selectedChange.newContent} mode={mode} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
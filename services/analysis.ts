@@ -0,0 +1,82 @@
+import { AnalysisConcern, AnalysisEntity, AnalysisIntegration, AnalysisModule, AnalysisRisk, RequirementsAnalysis, RiskSeverity } from "../types";
+
+export const RISK_SEVERITIES: RiskSeverity[] = ['high', 'medium', 'low'];
+
+const EMPTY_ANALYSIS: RequirementsAnalysis = {
+  architectureStyle: '',
+  summary: '',
+  modules: [],
+  entities: [],
+  integrations: [],
+  nonFunctional: [],
+  risks: [],
+  openQuestions: [],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+// The sections render every field, so items with a missing or mistyped one are dropped
+const isModule = (value: unknown): value is AnalysisModule =>
+  isObject(value) && isString(value.name) && isStringList(value.responsibilities) && isStringList(value.featureTitles);
+
+const isEntity = (value: unknown): value is AnalysisEntity =>
+  isObject(value) && isString(value.name) && isString(value.description) && isStringList(value.relations);
+
+const isIntegration = (value: unknown): value is AnalysisIntegration =>
+  isObject(value) && isString(value.name) && isString(value.purpose);
+
+const isConcern = (value: unknown): value is AnalysisConcern =>
+  isObject(value) && isString(value.category) && isString(value.description);
+
+const isRisk = (value: unknown): value is AnalysisRisk =>
+  isObject(value) && isString(value.description) && RISK_SEVERITIES.includes(value.severity as RiskSeverity) && isString(value.mitigation);
+
+/**
+ * Brings a saved or partially streamed analysis into the current shape. Older projects stored the
+ * free-text summary, which is kept as the summary of an otherwise empty analysis.
+ */
+export const normalizeAnalysis = (value: unknown): RequirementsAnalysis | null => {
+  if (typeof value === 'string') return value.trim() ? { ...EMPTY_ANALYSIS, summary: value } : null;
+  if (!isObject(value)) return null;
+  const list = <T>(key: keyof RequirementsAnalysis, isItem: (item: unknown) => item is T): T[] => {
+    const items = value[key];
+    return Array.isArray(items) ? items.filter(isItem) : [];
+  };
+  return {
+    architectureStyle: isString(value.architectureStyle) ? value.architectureStyle : '',
+    summary: isString(value.summary) ? value.summary : '',
+    modules: list('modules', isModule),
+    entities: list('entities', isEntity),
+    integrations: list('integrations', isIntegration),
+    nonFunctional: list('nonFunctional', isConcern),
+    risks: list('risks', isRisk),
+    openQuestions: list('openQuestions', isString),
+  };
+};
+
+export const sortRisks = (analysis: RequirementsAnalysis) =>
+  [...analysis.risks].sort((a, b) => RISK_SEVERITIES.indexOf(a.severity) - RISK_SEVERITIES.indexOf(b.severity));
+
+/**
+ * The analysis as prompt text, so generation and chat build on the decisions already made.
+ * Empty sections are left out.
+ */
+export const describeAnalysis = (analysis: RequirementsAnalysis): string => {
+  const section = (title: string, lines: string[]) => (lines.length > 0 ? [`${title}:`, ...lines.map(line => `- ${line}`)] : []);
+  return [
+    ...(analysis.architectureStyle ? [`Architecture style: ${analysis.architectureStyle}`] : []),
+    ...(analysis.summary ? [`Summary: ${analysis.summary}`] : []),
+    ...section('Modules', analysis.modules.map(module => `${module.name}: ${module.responsibilities.join('; ')}`)),
+    ...section('Data entities', analysis.entities.map(entity =>
+      `${entity.name}: ${entity.description}${entity.relations.length > 0 ? ` (${entity.relations.join(', ')})` : ''}`)),
+    ...section('External integrations', analysis.integrations.map(integration => `${integration.name}: ${integration.purpose}`)),
+    ...section('Non-functional concerns', analysis.nonFunctional.map(concern => `${concern.category}: ${concern.description}`)),
+    ...section('Risks', sortRisks(analysis).map(risk => `[${risk.severity}] ${risk.description} Mitigation: ${risk.mitigation}`)),
+    ...section('Open questions', analysis.openQuestions),
+  ].join('\n');
+};
@@ -0,0 +1,157 @@
+import { ApiContract, DataEntity } from "../types";
+
+export const FIELD_TYPES = ['string', 'integer', 'number', 'boolean', 'date', 'datetime', 'uuid', 'enum', 'json'];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+export interface ApiEndpoint {
+  method: string;
+  path: string;
+  summary: string;
+  operationId?: string;
+}
+
+export interface ContractIssue {
+  /** Where the problem is: 'openapi', or the entity it belongs to. */
+  source: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Engines word JSON.parse errors differently: "at position N" (V8) or "at line L column C" (Firefox)
+const errorLocation = (text: string, message: string) => {
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+  if (lineColumn) return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  const position = /position (\d+)/.exec(message);
+  if (!position) return {};
+  const before = text.slice(0, Number(position[1])).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+type OpenApiResult = { spec: Record<string, unknown>; issues: ContractIssue[] } | { spec: null; issues: ContractIssue[] };
+
+/**
+ * Parses the OpenAPI text and checks the parts generation relies on: the 3.x version, info and paths.
+ */
+export const parseOpenApi = (text: string): OpenApiResult => {
+  let spec: unknown;
+  try {
+    spec = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { spec: null, issues: [{ source: 'openapi', message, ...errorLocation(text, message) }] };
+  }
+  if (!isObject(spec)) return { spec: null, issues: [{ source: 'openapi', message: 'The document must be a JSON object.' }] };
+
+  const issues: ContractIssue[] = [];
+  if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+    issues.push({ source: 'openapi', message: '"openapi" must be a 3.x version, e.g. "3.0.3".' });
+  }
+  if (!isObject(spec.info) || typeof spec.info.title !== 'string') {
+    issues.push({ source: 'openapi', message: '"info.title" is missing.' });
+  }
+  if (!isObject(spec.paths)) {
+    issues.push({ source: 'openapi', message: '"paths" must be an object.' });
+  } else {
+    Object.entries(spec.paths).forEach(([path, item]) => {
+      if (!path.startsWith('/')) issues.push({ source: 'openapi', message: `Path "${path}" must start with "/".` });
+      if (!isObject(item) || !HTTP_METHODS.some(method => method in item)) {
+        issues.push({ source: 'openapi', message: `Path "${path}" has no operations.` });
+      }
+    });
+  }
+  return { spec, issues };
+};
+
+export const listEndpoints = (spec: Record<string, unknown>): ApiEndpoint[] => {
+  if (!isObject(spec.paths)) return [];
+  return Object.entries(spec.paths).flatMap(([path, item]) =>
+    isObject(item)
+      ? HTTP_METHODS.filter(method => isObject(item[method])).map(method => {
+          const operation = item[method] as Record<string, unknown>;
+          return {
+            method: method.toUpperCase(),
+            path,
+            summary: typeof operation.summary === 'string' ? operation.summary : '',
+            operationId: typeof operation.operationId === 'string' ? operation.operationId : undefined,
+          };
+        })
+      : []
+  );
+};
+
+/**
+ * Entity names must be unique and references must point at an entity of the model.
+ */
+export const checkEntities = (entities: DataEntity[]): ContractIssue[] => {
+  const names = new Set<string>();
+  return entities.flatMap(entity => {
+    const issues: ContractIssue[] = [];
+    if (!entity.name.trim()) issues.push({ source: '(unnamed entity)', message: 'Every entity needs a name.' });
+    if (names.has(entity.name)) issues.push({ source: entity.name, message: `Entity "${entity.name}" is defined twice.` });
+    names.add(entity.name);
+
+    const fieldNames = new Set<string>();
+    entity.fields.forEach(field => {
+      if (fieldNames.has(field.name)) issues.push({ source: entity.name, message: `Field "${field.name}" is defined twice.` });
+      fieldNames.add(field.name);
+      if (field.references && !entities.some(other => other.name === field.references)) {
+        issues.push({ source: entity.name, message: `"${field.name}" references unknown entity "${field.references}".` });
+      }
+    });
+    return issues;
+  });
+};
+
+export const checkContract = (contract: ApiContract): ContractIssue[] => [
+  ...checkEntities(contract.entities),
+  ...parseOpenApi(contract.openApi).issues,
+];
+
+// Mermaid entity and attribute names only allow word characters
+const mermaidName = (name: string) => name.replace(/[^\w-]/g, '_') || '_';
+
+/**
+ * The entities as a Mermaid erDiagram, one many-to-one relation per reference field.
+ */
+export const entitiesToMermaid = (entities: DataEntity[]): string => {
+  const lines = ['erDiagram'];
+  entities.forEach(entity => {
+    lines.push(`  ${mermaidName(entity.name)} {`);
+    entity.fields.forEach(field => {
+      const keys = [field.name === 'id' ? 'PK' : '', field.references ? 'FK' : '', field.unique ? 'UK' : ''].filter(Boolean).join(', ');
+      lines.push(`    ${mermaidName(field.type)} ${mermaidName(field.name)}${keys ? ` ${keys}` : ''}`);
+    });
+    lines.push('  }');
+  });
+  entities.forEach(entity => entity.fields
+    .filter(field => field.references && entities.some(other => other.name === field.references))
+    .forEach(field => {
+      const cardinality = field.required ? '||' : 'o|';
+      lines.push(`  ${mermaidName(entity.name)} }o--${cardinality} ${mermaidName(field.references!)} : "${field.name}"`);
+    }));
+  return lines.join('\n');
+};
+
+/**
+ * The contract as prompt text. The spec is minified, the model reads it fine and it saves a lot of tokens.
+ */
+export const describeContract = (contract: ApiContract): string => {
+  const entities = contract.entities.map(entity =>
+    `- ${entity.name}: ${entity.fields
+      .map(field => `${field.name} ${field.type}${field.required ? '' : '?'}${field.unique ? ' unique' : ''}${field.references ? ` -> ${field.references}` : ''}`)
+      .join(', ')}`
+  );
+  const { spec } = parseOpenApi(contract.openApi);
+  return [
+    'Data model (entities and fields, "?" marks optional fields):',
+    ...entities,
+    '',
+    'OpenAPI specification:',
+    spec ? JSON.stringify(spec) : contract.openApi,
+  ].join('\n');
+};
@@ -0,0 +1,110 @@
+import { ArchitectureDiagram, CodeScaffold, DiagramKind, ProjectFile } from "../types";
+import { createId } from "./ids";
+
+export const DIAGRAM_KINDS: { kind: DiagramKind; label: string; description: string; keywords: string[] }[] = [
+  {
+    kind: 'component',
+    label: 'Components',
+    description: 'a flowchart of the frontend, backend modules, data stores and external services and how they call each other',
+    keywords: ['flowchart', 'graph'],
+  },
+  {
+    kind: 'deployment',
+    label: 'Deployment',
+    description: 'a flowchart of the runtime: clients, hosting, containers or functions, databases and networks, grouped in subgraphs',
+    keywords: ['flowchart', 'graph'],
+  },
+  {
+    kind: 'sequence',
+    label: 'Sequence',
+    description: 'a sequenceDiagram of the most important user flow across frontend, backend and storage',
+    keywords: ['sequenceDiagram'],
+  },
+];
+
+export const DIAGRAMS_FOLDER = 'docs';
+
+// Mermaid allows a front matter block and comments before the diagram type
+const diagramHeader = (source: string) =>
+  source
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('%%')) || '';
+
+/**
+ * Checks that each diagram starts with the Mermaid type its kind needs. The full syntax is only checked when rendering.
+ */
+export const checkDiagramTypes = (diagrams: ArchitectureDiagram[]): string[] =>
+  DIAGRAM_KINDS.flatMap(({ kind, keywords }) => {
+    const diagram = diagrams.find(d => d.kind === kind);
+    if (!diagram) return [`diagrams: the ${kind} diagram is missing`];
+    const type = diagramHeader(diagram.source).split(/\s/)[0];
+    return keywords.includes(type) ? [] : [`diagrams.${kind}.source: must start with ${keywords.join(' or ')}`];
+  });
+
+type MermaidModule = typeof import('mermaid')['default'];
+
+let mermaidPromise: Promise<MermaidModule> | null = null;
+// Mermaid keeps global state while rendering, so renders run one after another
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+// Loaded on first use, the library is large and most sessions never open a diagram
+const loadMermaid = () => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * Renders Mermaid source to an SVG string. Rejects with Mermaid's parse error for invalid source.
+ */
+export const renderDiagram = (source: string): Promise<string> => {
+  const render = async () => {
+    const mermaid = await loadMermaid();
+    const { svg } = await mermaid.render(`diagram-${createId()}`, source);
+    return svg;
+  };
+  const result = renderQueue.then(render, render);
+  renderQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * The files diagrams add to a scaffold: a Markdown overview with the Mermaid sources
+ * (rendered by most code hosts) and one SVG per diagram for everything else.
+ */
+export const buildDiagramFiles = (diagrams: ArchitectureDiagram[], svgs: Partial<Record<DiagramKind, string>>): ProjectFile[] => {
+  const overview = [
+    '# Architecture',
+    '',
+    ...diagrams.flatMap(diagram => [
+      `## ${diagram.title}`,
+      '',
+      '```mermaid',
+      diagram.source.trim(),
+      '```',
+      '',
+      ...(svgs[diagram.kind] ? [`![${diagram.title}](diagrams/${diagram.kind}.svg)`, ''] : []),
+    ]),
+  ].join('\n');
+
+  return [
+    { path: `${DIAGRAMS_FOLDER}/ARCHITECTURE.md`, content: overview, language: 'markdown' },
+    ...diagrams
+      .filter(diagram => svgs[diagram.kind])
+      .map(diagram => ({ path: `${DIAGRAMS_FOLDER}/diagrams/${diagram.kind}.svg`, content: svgs[diagram.kind]!, language: 'xml' })),
+  ];
+};
+
+/**
+ * Adds or replaces the diagram files, leaving every other file untouched.
+ */
+export const addFilesToScaffold = (scaffold: CodeScaffold, files: ProjectFile[]): CodeScaffold => {
+  const paths = new Set(files.map(file => file.path));
+  return { ...scaffold, files: [...scaffold.files.filter(file => !paths.has(file.path)), ...files] };
+};
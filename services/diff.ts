@@ -0,0 +1,86 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old text, absent for added lines */
+  oldLine?: number;
+  /** 1-based line number in the new text, absent for removed lines */
+  newLine?: number;
+}
+
+// Above this many cells the LCS table gets too large for the browser; the changed middle is then shown as a block replace
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Line based diff of two texts (longest common subsequence).
+ * Common leading and trailing lines are matched first to keep the table small.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const pushRemoved = (i: number) => result.push({ type: 'removed', text: midA[i], oldLine: start + i + 1 });
+  const pushAdded = (j: number) => result.push({ type: 'added', text: midB[j], newLine: start + j + 1 });
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((_, i) => pushRemoved(i));
+    midB.forEach((_, j) => pushAdded(j));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        result.push({ type: 'equal', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushRemoved(i++);
+      } else {
+        pushAdded(j++);
+      }
+    }
+    while (i < midA.length) pushRemoved(i++);
+    while (j < midB.length) pushAdded(j++);
+  }
+
+  const offsetB = endB - endA;
+  for (let i = endA; i < a.length; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + offsetB + 1 });
+  }
+  return result;
+};
+
+export const countChanges = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
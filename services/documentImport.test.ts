@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentContent, extractFeatures, LEGACY_FILE_SEPARATOR, parseLegacyContent } from './documentImport';
+
+const textFile = (data: string): DocumentContent => ({ name: 'requirements.txt', kind: 'text', data, fingerprint: '' });
+
+describe('extractFeatures on legacy files', () => {
+  it('reads a legacy file with text before the first separator', async () => {
+    const result = await extractFeatures(textFile([
+      'Requirements exported from the old tool.',
+      'Generated 2023-04-01.',
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      'type: "Core"',
+      'title: "Login"',
+      'icon: "Lock"',
+      '---',
+      'Users sign in.',
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      'title: "Logout"',
+      '---',
+      'Users sign out.',
+    ].join('\n')));
+    expect(result.diagnostics).toEqual([]);
+    expect(result.features.map(({ type, title, icon, content }) => ({ type, title, icon, content }))).toEqual([
+      { type: 'Core', title: 'Login', icon: 'Lock', content: 'Users sign in.' },
+      { type: 'unknown', title: 'Logout', icon: 'file', content: 'Users sign out.' },
+    ]);
+  });
+
+  it('reads frontmatter before the first separator as a block', async () => {
+    const result = await extractFeatures(textFile(['---', 'title: "First"', '---', 'One', LEGACY_FILE_SEPARATOR, '---', 'title: "Second"', '---', 'Two'].join('\r\n')));
+    expect(result.features.map(feature => feature.title)).toEqual(['First', 'Second']);
+  });
+});
+
+describe('parseLegacyContent', () => {
+  it('reports broken blocks with their file line and keeps the others', () => {
+    const { features, diagnostics } = parseLegacyContent([
+      LEGACY_FILE_SEPARATOR,
+      'No frontmatter here',
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      'title: "Unclosed"',
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      'type: Core',
+      '---',
+      'Body without a title',
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      'title: Login',
+      'icon "Lock"',
+      'priority: high',
+      '---',
+      'Users sign in.',
+    ].join('\r\n'));
+    expect(diagnostics).toEqual([
+      { block: 1, line: 2, severity: 'error', message: 'No frontmatter: the block must start with a "---" line. The block was skipped.', excerpt: 'No frontmatter here' },
+      { block: 2, line: 4, severity: 'error', message: 'The frontmatter is never closed with a "---" line. The block was skipped.', excerpt: '---' },
+      { block: 3, line: 7, severity: 'error', message: 'The frontmatter has no title. The block was skipped.', excerpt: '---' },
+      { block: 4, line: 14, severity: 'warning', message: 'Expected "key: value"; the line was ignored.', excerpt: 'icon "Lock"' },
+    ]);
+    expect(features.map(({ type, title, icon, content }) => ({ type, title, icon, content }))).toEqual([
+      { type: 'unknown', title: 'Login', icon: 'file', content: 'Users sign in.\n\nPriority: high' },
+    ]);
+  });
+
+  it('reads a file without separators as one block', () => {
+    expect(parseLegacyContent('---\ntitle: Only\n---\nBody').features.map(feature => feature.title)).toEqual(['Only']);
+  });
+
+  it('does not claim a file without separators or frontmatter', () => {
+    expect(parseLegacyContent('Just some notes.\n\nMore notes.')).toEqual({ features: [], diagnostics: [] });
+  });
+});
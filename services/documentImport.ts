@@ -0,0 +1,347 @@
+import * as mammoth from 'mammoth';
+import { DocumentKind, ParsedFeature, SourceDocument } from "../types";
+import { parseDocumentWithGemini } from "./geminiService";
+import { StructuredOutputError } from "./structuredOutput";
+import { createId } from "./ids";
+import { FrontmatterValue, parseFrontmatter } from "./frontmatter";
+import {
+  ColumnMapping, Table, detectColumnMapping, htmlToSectionText, parseCsv, parseFeatureJson, parseIssueExport,
+  parseMarkdownSections, tableToFeatures, workbookToCsv,
+} from "./importers";
+
+export const ACCEPTED_FILE_TYPES = '.txt,.md,.markdown,.pdf,.docx,.html,.htm,.csv,.tsv,.xlsx,.xls,.json';
+
+/**
+ * A file read into memory: base64 for PDFs, CSV for spreadsheets, plain text for everything else.
+ * HTML pages keep only their text, split into headings and paragraphs.
+ */
+export interface DocumentContent {
+  name: string;
+  kind: DocumentKind;
+  data: string;
+  fingerprint: string;
+}
+
+export const LEGACY_FILE_SEPARATOR = '--- START OF FILE text/plain ---';
+
+// The separator behind any number of backslashes. Content lines like that get one more when exported.
+const SEPARATOR_LIKE_LINE = /^\s*\\*--- START OF FILE text\/plain ---\s*$/;
+
+/**
+ * Prefixes a backslash to every line that would otherwise be read as a separator, or as an escaped one.
+ */
+export const escapeLegacySeparators = (text: string): string =>
+  text.split('\n').map(line => (SEPARATOR_LIKE_LINE.test(line) ? line.replace(/^(\s*)/, '$1\\') : line)).join('\n');
+
+const unescapeLegacySeparators = (text: string): string =>
+  text.split('\n').map(line => (SEPARATOR_LIKE_LINE.test(line) ? line.replace(/^(\s*)\\/, '$1') : line)).join('\n');
+
+// A file with a separator line anywhere is in the legacy format; exporters escape the line in content
+const isLegacyFile = (text: string) => text.split(/\r\n?|\n/).some(line => line.trim() === LEGACY_FILE_SEPARATOR);
+
+/**
+ * Something wrong with one block of a legacy file. Errors drop the block, warnings only the line.
+ */
+export interface ImportDiagnostic {
+  /** 1-based position of the block in the file. */
+  block: number;
+  /** 1-based line in the file. */
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+  /** The offending line, to find it again in the file. */
+  excerpt?: string;
+}
+
+/** The diagnostics of one imported file. */
+export interface FileDiagnostics {
+  fileName: string;
+  diagnostics: ImportDiagnostic[];
+}
+
+export interface LegacyParseResult {
+  features: ParsedFeature[];
+  diagnostics: ImportDiagnostic[];
+}
+
+const FRONTMATTER_FENCE = /^---\s*$/;
+const FRONTMATTER_END = /^(---|\.\.\.)\s*$/;
+const MAX_EXCERPT_LENGTH = 80;
+
+const excerptOf = (line: string | undefined) => {
+  const text = (line ?? '').trim();
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text || undefined;
+};
+
+const labelOf = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+// Extra keys (priority, tags, acceptance criteria, ...) are appended to the content so the analysis sees them
+const describeExtraFields = (fields: Map<string, FrontmatterValue>): string =>
+  Array.from(fields.entries())
+    .filter(([key, value]) => !['type', 'title', 'icon'].includes(key) && value.length > 0)
+    .map(([key, value]) => (Array.isArray(value)
+      ? `${labelOf(key)}:\n${value.map(item => `- ${item}`).join('\n')}`
+      : `${labelOf(key)}: ${value}`))
+    .join('\n');
+
+const singleValue = (value: FrontmatterValue | undefined) => (Array.isArray(value) ? value.join(', ') : value)?.trim() || undefined;
+
+interface Block {
+  number: number;
+  /** 0-based index of the block's first line in the file. */
+  start: number;
+  lines: string[];
+}
+
+const parseLegacyBlock = (block: Block, diagnostics: ImportDiagnostic[]): ParsedFeature | null => {
+  const report = (offset: number, severity: ImportDiagnostic['severity'], message: string) => {
+    diagnostics.push({ block: block.number, line: block.start + offset + 1, severity, message, excerpt: excerptOf(block.lines[offset]) });
+  };
+
+  const open = block.lines.findIndex(line => line.trim());
+  if (!FRONTMATTER_FENCE.test(block.lines[open])) {
+    report(open, 'error', 'No frontmatter: the block must start with a "---" line. The block was skipped.');
+    return null;
+  }
+  const close = block.lines.findIndex((line, index) => index > open && FRONTMATTER_END.test(line));
+  if (close === -1) {
+    report(open, 'error', 'The frontmatter is never closed with a "---" line. The block was skipped.');
+    return null;
+  }
+
+  const { fields, issues } = parseFrontmatter(block.lines.slice(open + 1, close).join('\n'));
+  issues.forEach(issue => report(open + issue.line, 'warning', issue.message));
+
+  const title = singleValue(fields.get('title'));
+  if (!title) {
+    report(open, 'error', 'The frontmatter has no title. The block was skipped.');
+    return null;
+  }
+  ['type', 'title', 'icon'].forEach(key => {
+    if (Array.isArray(fields.get(key))) report(open, 'warning', `"${key}" should be a single value; the list items were joined.`);
+  });
+
+  const body = unescapeLegacySeparators(block.lines.slice(close + 1).join('\n')).trim();
+  const extras = describeExtraFields(fields);
+  return {
+    type: singleValue(fields.get('type')) ?? 'unknown',
+    title,
+    icon: singleValue(fields.get('icon')) ?? 'file',
+    content: [body, extras].filter(Boolean).join('\n\n'),
+    raw: block.lines.join('\n').trim(),
+    anchors: [{ documentId: '', section: title, quote: body || title }],
+  };
+};
+
+/**
+ * The legacy text format: blocks behind `--- START OF FILE text/plain ---` lines, each with YAML
+ * frontmatter (at least a title) and the requirement text below it. Text before the first separator is
+ * a preamble and skipped, unless it opens with frontmatter itself. A file without separators is read as
+ * a single block, but only counts as this format when that block yields a feature.
+ */
+export const parseLegacyContent = (text: string): LegacyParseResult => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let current: Block = { number: 0, start: 0, lines: [] };
+  lines.forEach((line, index) => {
+    if (line.trim() === LEGACY_FILE_SEPARATOR) {
+      blocks.push(current);
+      current = { number: 0, start: index + 1, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  });
+  blocks.push(current);
+
+  const isSeparated = blocks.length > 1;
+  const preamble = blocks[0].lines.find(line => line.trim());
+  if (isSeparated && preamble !== undefined && !FRONTMATTER_FENCE.test(preamble)) blocks.shift();
+  const features: ParsedFeature[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
+  blocks
+    .filter(block => block.lines.some(line => line.trim()))
+    .forEach((block, index) => {
+      const feature = parseLegacyBlock({ ...block, number: index + 1 }, diagnostics);
+      if (feature) features.push(feature);
+    });
+
+  if (!isSeparated && features.length === 0) return { features: [], diagnostics: [] };
+  return { features, diagnostics };
+};
+
+// cyrb53: fast and well distributed; only used to notice changed files, not for security
+const hashContent = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const kindOf = (file: File): DocumentKind => {
+  const fileName = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || fileName.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || fileName.endsWith('.docx')) return 'docx';
+  if (/\.(md|markdown)$/.test(fileName)) return 'markdown';
+  if (file.type === 'text/html' || /\.html?$/.test(fileName)) return 'html';
+  if (file.type === 'text/csv' || /\.(csv|tsv)$/.test(fileName)) return 'csv';
+  if (/\.xlsx?$/.test(fileName)) return 'xlsx';
+  if (file.type === 'application/json' || fileName.endsWith('.json')) return 'json';
+  return 'text';
+};
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = reader.result as string;
+    // Robust check for data URL format
+    resolve(result.includes(',') ? result.split(',')[1] : result);
+  };
+  reader.onerror = () => reject(new Error("Error reading file."));
+  reader.readAsDataURL(file);
+});
+
+const readDocxText = async (file: File) => {
+  // Handle both default and named export possibilities for mammoth
+  const extractRawText = mammoth.extractRawText || (mammoth as any).default?.extractRawText;
+  if (!extractRawText) throw new Error("Docx parser not loaded correctly.");
+  const result = await extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+export const readDocument = async (file: File): Promise<DocumentContent> => {
+  const kind = kindOf(file);
+  let data: string;
+  if (kind === 'pdf') data = await readAsBase64(file);
+  else if (kind === 'docx') data = await readDocxText(file);
+  else if (kind === 'xlsx') data = await workbookToCsv(await file.arrayBuffer());
+  else if (kind === 'html') data = htmlToSectionText(await file.text());
+  else data = await file.text();
+  return { name: file.name, kind, data, fingerprint: hashContent(data) };
+};
+
+const FAILURE_MESSAGES: Record<DocumentKind, string> = {
+  pdf: "Failed to analyze PDF content. Ensure the file is text-readable.",
+  docx: "Failed to analyze Word document.",
+  text: "Failed to parse text file.",
+  markdown: "Failed to parse Markdown file.",
+  html: "Failed to parse HTML page.",
+  csv: "Failed to read the CSV file.",
+  xlsx: "Failed to read the spreadsheet.",
+  json: "Failed to read the issue export.",
+};
+
+export interface ExtractOptions {
+  /**
+   * Confirms (or corrects) which spreadsheet columns hold the title, description and category.
+   * Resolving null cancels the import of that file. Without it the detected mapping is used.
+   */
+  mapColumns?: (fileName: string, table: Table, detected: ColumnMapping) => Promise<ColumnMapping | null>;
+}
+
+export interface ExtractResult {
+  features: ParsedFeature[];
+  /** Blocks of a legacy file that were skipped or only partly read. */
+  diagnostics: ImportDiagnostic[];
+}
+
+/**
+ * Turns a read document into features. Structured sources are parsed locally without a provider call:
+ * spreadsheets by column, our own JSON export and Jira or Linear exports by issue, Markdown and HTML by heading, and text
+ * files that open with a legacy separator. Everything else, and headingless prose, goes to the active provider.
+ * A legacy file is never sent to the provider: its broken blocks are reported instead.
+ */
+export const extractFeatures = async (content: DocumentContent, options: ExtractOptions = {}): Promise<ExtractResult> => {
+  let parsed: ParsedFeature[];
+  let diagnostics: ImportDiagnostic[] = [];
+  try {
+    if (content.kind === 'pdf') {
+      parsed = await parseDocumentWithGemini(content.data, 'application/pdf');
+    } else if (content.kind === 'csv' || content.kind === 'xlsx') {
+      const table = parseCsv(content.data);
+      const detected = detectColumnMapping(table.headers);
+      const mapping = options.mapColumns ? await options.mapColumns(content.name, table, detected) : detected;
+      if (!mapping) throw new Error("Import cancelled.");
+      parsed = tableToFeatures(table, mapping);
+    } else if (content.kind === 'json') {
+      parsed = parseFeatureJson(content.data) ?? parseIssueExport(content.data);
+    } else if (content.data.trim()) {
+      // Try the local parsers first
+      if ((content.kind === 'text' || content.kind === 'markdown') && isLegacyFile(content.data)) {
+        const legacy = parseLegacyContent(content.data);
+        parsed = legacy.features;
+        diagnostics = legacy.diagnostics;
+      } else {
+        parsed = content.kind === 'markdown' || content.kind === 'html' ? parseMarkdownSections(content.data) : [];
+        if (parsed.length === 0) parsed = await parseDocumentWithGemini(content.data, 'text/plain');
+      }
+    } else {
+      parsed = [];
+    }
+  } catch (error) {
+    if (error instanceof StructuredOutputError) throw error;
+    // The local parsers explain what is wrong with the file; only provider failures get the generic message
+    throw error instanceof Error && (content.kind === 'csv' || content.kind === 'xlsx' || content.kind === 'json')
+      ? error
+      : new Error(FAILURE_MESSAGES[content.kind]);
+  }
+  if (parsed.length === 0 && diagnostics.length === 0) throw new Error("No features detected in the file. Is it empty?");
+  return { features: parsed, diagnostics };
+};
+
+export interface DocumentImportResult {
+  features: ParsedFeature[];
+  documents: SourceDocument[];
+  /** The features this import added, to look for duplicates among. */
+  added: ParsedFeature[];
+}
+
+/**
+ * Adds the features of a document to the project. When the document was imported before (`replaceId`),
+ * only its own features are replaced, in place of the old ones: features merged with another document
+ * stay and just lose this source, hand-added features are never touched.
+ */
+export const applyDocumentImport = (
+  features: ParsedFeature[],
+  documents: SourceDocument[],
+  content: DocumentContent,
+  parsed: ParsedFeature[],
+  replaceId?: string
+): DocumentImportResult => {
+  const previous = documents.find(document => document.id === replaceId);
+  const document: SourceDocument = {
+    id: previous?.id ?? createId(),
+    name: content.name,
+    importedAt: Date.now(),
+    fingerprint: content.fingerprint,
+    kind: content.kind,
+    content: content.data,
+  };
+  const added = parsed.map(feature => ({
+    ...feature,
+    sources: [document.id],
+    anchors: feature.anchors?.map(anchor => ({ ...anchor, documentId: document.id })),
+  }));
+  const ownsOnly = (feature: ParsedFeature) => feature.sources?.length === 1 && feature.sources[0] === document.id;
+
+  const firstReplaced = features.findIndex(ownsOnly);
+  const kept = features
+    .filter(feature => !ownsOnly(feature))
+    .map(feature => (feature.sources?.includes(document.id)
+      ? { ...feature, sources: feature.sources.filter(id => id !== document.id) }
+      : feature));
+  const insertAt = firstReplaced === -1 ? kept.length : features.slice(0, firstReplaced).filter(feature => !ownsOnly(feature)).length;
+
+  return {
+    features: [...kept.slice(0, insertAt), ...added, ...kept.slice(insertAt)],
+    documents: previous
+      ? documents.map(existing => (existing.id === document.id ? document : existing))
+      : [...documents, document],
+    added,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentKind, ParsedFeature } from '../types';
+import { DocumentContent, extractFeatures, LEGACY_FILE_SEPARATOR } from './documentImport';
+import { FEATURE_EXPORT_FORMATS, exportFeatures, FeatureExportFormat } from './featureExport';
+
+const feature = (title: string, content: string, type = 'Core', icon = 'FileText'): ParsedFeature => ({ type, title, icon, content, raw: content });
+
+const IMPORT_KINDS: Record<FeatureExportFormat, DocumentKind> = {
+  markdown: 'markdown',
+  csv: 'csv',
+  json: 'json',
+  legacy: 'text',
+};
+
+// What the exporters promise to keep: the editable fields, titles and content trimmed, content with \n line endings
+const expected = (features: ParsedFeature[]) =>
+  features.map(({ type, title, icon, content }) => ({ type, title: title.trim(), icon, content: content.replace(/\r\n?/g, '\n').trim() }));
+
+const roundTrip = async (features: ParsedFeature[], format: FeatureExportFormat) => {
+  const { extension } = FEATURE_EXPORT_FORMATS.find(entry => entry.format === format)!;
+  const content: DocumentContent = { name: `features.${extension}`, kind: IMPORT_KINDS[format], data: exportFeatures(features, format, 'Shop'), fingerprint: '' };
+  const result = await extractFeatures(content);
+  return {
+    features: result.features.map(({ type, title, icon, content }) => ({ type, title, icon, content })),
+    diagnostics: result.diagnostics,
+  };
+};
+
+const CASES: Record<string, ParsedFeature[]> = {
+  'plain features': [
+    feature('User login', 'Users sign in with email and password.'),
+    feature('Checkout', 'Pay by card.\n\nReceipts are emailed.', 'Payments', 'CreditCard'),
+  ],
+  'a content line that is the legacy separator': [
+    feature('Import', `Old files look like this:\n${LEGACY_FILE_SEPARATOR}\nand continue below.`),
+    feature('Escaped', `  \\${LEGACY_FILE_SEPARATOR}  \nstays as written`),
+    feature('After', 'Still its own feature.'),
+  ],
+  'content starting with the legacy separator': [
+    feature('Leading', `${LEGACY_FILE_SEPARATOR}\nfirst line was the separator`),
+  ],
+  'CRLF content': [
+    feature('Windows', 'First line\r\nSecond line\r\n\r\nThird paragraph\r\n'),
+    feature('Old Mac', 'One\rTwo'),
+  ],
+  'titles and content with surrounding whitespace': [
+    feature('  Padded title  ', '\n\n  Indented first line\nrest  \n\n'),
+    feature('\tTabbed\t', 'Body'),
+  ],
+  'Markdown structure, quotes and commas in the content': [
+    feature('Quotes "and", commas', '## Not a heading\n---\n```\n# inside code\n```\n<!-- feature: {} -->'),
+  ],
+};
+
+describe('feature export round trip', () => {
+  FEATURE_EXPORT_FORMATS.forEach(({ format }) => {
+    describe(format, () => {
+      Object.entries(CASES).forEach(([name, features]) => {
+        it(`keeps ${name}`, async () => {
+          const result = await roundTrip(features, format);
+          expect(result.diagnostics).toEqual([]);
+          expect(result.features).toEqual(expected(features));
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { ParsedFeature } from "../types";
+import { escapeLegacySeparators, LEGACY_FILE_SEPARATOR } from "./documentImport";
+import { FEATURE_EXPORT_VERSION, FEATURE_META_PREFIX, MARKDOWN_FENCE_LINE, MARKDOWN_STRUCTURAL_LINE } from "./importers";
+
+// Every format writes what the feature editor edits: type, title, icon and content. Raw text, source
+// anchors and findings belong to the imported document and the review, so they are not exported.
+// Re-importing an export gives back the same features in the same order. Titles and content are written
+// trimmed and content with \n line endings, as the importers read them.
+
+const exportedTitle = (feature: ParsedFeature) => feature.title.trim();
+
+const exportedContent = (feature: ParsedFeature) => feature.content.replace(/\r\n?/g, '\n').trim();
+
+export type FeatureExportFormat = 'markdown' | 'csv' | 'json' | 'legacy';
+
+export const FEATURE_EXPORT_FORMATS: { format: FeatureExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'markdown', label: 'Markdown spec', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'csv', label: 'CSV backlog', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'legacy', label: 'Frontmatter text', extension: 'txt', mimeType: 'text/plain' },
+];
+
+/**
+ * The frontmatter format `parseLegacyContent` reads. Values are written as JSON strings so quotes
+ * and backslashes in titles survive; content lines that look like a separator are escaped.
+ */
+export const exportLegacy = (features: ParsedFeature[]): string =>
+  features
+    .map(feature => [
+      LEGACY_FILE_SEPARATOR,
+      '---',
+      `type: ${JSON.stringify(feature.type)}`,
+      `title: ${JSON.stringify(exportedTitle(feature))}`,
+      `icon: ${JSON.stringify(feature.icon)}`,
+      '---',
+      escapeLegacySeparators(exportedContent(feature)),
+      '',
+    ].join('\n'))
+    .join('\n');
+
+// --- Markdown ------------------------------------------------------------------------------------
+
+/**
+ * Prefixes a backslash, which Markdown drops when rendering, to every content line the section parser
+ * would read as structure. Fenced code is left alone, as the parser skips it too.
+ */
+const escapeMarkdownContent = (content: string): string => {
+  const lines = content.split('\n');
+  const fences = lines.map((line, index) => (MARKDOWN_FENCE_LINE.test(line) ? index : -1)).filter(index => index !== -1);
+  // An unclosed fence would swallow the headings of the features after it, so it is escaped like text
+  const unpaired = fences.length % 2 === 1 ? fences[fences.length - 1] : -1;
+  let inFence = false;
+  return lines
+    .map((line, index) => {
+      if (MARKDOWN_FENCE_LINE.test(line) && index !== unpaired) {
+        inFence = !inFence;
+        return line;
+      }
+      return !inFence && MARKDOWN_STRUCTURAL_LINE.test(line) ? `\\${line}` : line;
+    })
+    .join('\n');
+};
+
+/**
+ * A readable spec: one section per feature, in list order. The exact type, title and icon sit in a comment
+ * under each heading, which viewers hide and the section parser reads back.
+ */
+export const exportMarkdown = (features: ParsedFeature[], projectName: string): string => {
+  const sections = features.map(feature => {
+    // `>` is escaped so a value can never close the comment early
+    const title = exportedTitle(feature);
+    const meta = JSON.stringify({ type: feature.type, title, icon: feature.icon }).replace(/>/g, '\\u003e');
+    const content = exportedContent(feature);
+    return [
+      `## ${title.replace(/\s+/g, ' ')}`,
+      `<!-- ${FEATURE_META_PREFIX} ${meta} -->`,
+      ...(content ? [escapeMarkdownContent(content)] : []),
+    ].join('\n');
+  });
+  return [`# ${projectName || 'Requirements'}`, ...sections].join('\n\n') + '\n';
+};
+
+// --- CSV and JSON --------------------------------------------------------------------------------
+
+export const CSV_COLUMNS = ['Title', 'Type', 'Icon', 'Description'];
+
+const csvField = (value: string) => (/[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per feature. The byte order mark makes Excel read the file as UTF-8.
+ */
+export const exportCsv = (features: ParsedFeature[]): string =>
+  '\uFEFF' + [CSV_COLUMNS, ...features.map(feature => [exportedTitle(feature), feature.type, feature.icon, exportedContent(feature)])]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+
+export const exportJson = (features: ParsedFeature[]): string =>
+  JSON.stringify({
+    version: FEATURE_EXPORT_VERSION,
+    features: features.map(feature => ({ type: feature.type, title: exportedTitle(feature), icon: feature.icon, content: exportedContent(feature) })),
+  }, null, 2);
+
+export const exportFeatures = (features: ParsedFeature[], format: FeatureExportFormat, projectName: string): string => {
+  switch (format) {
+    case 'markdown': return exportMarkdown(features, projectName);
+    case 'csv': return exportCsv(features);
+    case 'json': return exportJson(features);
+    case 'legacy': return exportLegacy(features);
+  }
+};
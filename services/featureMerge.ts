@@ -0,0 +1,101 @@
+import { ParsedFeature } from "../types";
+
+// Score from which two features from different documents are offered for merging
+const DUPLICATE_THRESHOLD = 0.5;
+// Titles carry most of the meaning; descriptions of the same feature are often worded very differently
+const TITLE_WEIGHT = 0.6;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'can', 'will', 'must', 'should', 'shall',
+  'have', 'has', 'into', 'their', 'they', 'them', 'when', 'then', 'each', 'all', 'any', 'not', 'its', 'per',
+]);
+
+/**
+ * A pair of features that probably describe the same requirement. Indices point into the list they were found in.
+ */
+export interface DuplicateCandidate {
+  first: number;
+  second: number;
+  /** 0 to 1, how alike the two features are. */
+  score: number;
+}
+
+const tokenize = (text: string) => new Set(
+  (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    // A crude stem so "user" and "users" or "login" and "logins" match
+    .map(word => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word))
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+);
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+export const featureSimilarity = (a: ParsedFeature, b: ParsedFeature): number => {
+  const titleA = a.title.trim().toLowerCase();
+  if (titleA && titleA === b.title.trim().toLowerCase()) return 1;
+  return TITLE_WEIGHT * jaccard(tokenize(a.title), tokenize(b.title))
+    + (1 - TITLE_WEIGHT) * jaccard(tokenize(a.content), tokenize(b.content));
+};
+
+const sharesSource = (a: ParsedFeature, b: ParsedFeature) =>
+  Boolean(a.sources?.some(source => b.sources?.includes(source)));
+
+/**
+ * Finds near-duplicates between the newly imported features and everything else. Features from the same
+ * document are never paired, the parser already kept those apart on purpose. Most similar pairs first.
+ */
+export const findDuplicates = (features: ParsedFeature[], isNew: (feature: ParsedFeature) => boolean): DuplicateCandidate[] => {
+  const candidates: DuplicateCandidate[] = [];
+  features.forEach((a, first) => {
+    features.forEach((b, second) => {
+      if (second <= first || (!isNew(a) && !isNew(b)) || sharesSource(a, b)) return;
+      const score = featureSimilarity(a, b);
+      if (score >= DUPLICATE_THRESHOLD) candidates.push({ first, second, score });
+    });
+  });
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Combines features into the first one: its title, type and icon stay, descriptions that are not already
+ * contained in another are appended, and sources, anchors and findings are combined.
+ */
+export const mergeFeatureGroup = (group: ParsedFeature[]): ParsedFeature => {
+  const contents = group.map(f => f.content.trim()).filter(Boolean);
+  // Of identical descriptions the first is kept, one contained in a longer one is dropped
+  const distinct = contents.filter((content, index) => !contents.some((other, otherIndex) =>
+    otherIndex !== index && other.includes(content) && (other !== content || otherIndex < index)));
+  const sources = [...new Set(group.flatMap(f => f.sources ?? []))];
+  return {
+    ...group[0],
+    content: distinct.join('\n\n'),
+    raw: group.map(f => f.raw).filter(Boolean).join('\n\n'),
+    findings: group.some(f => f.findings) ? group.flatMap(f => f.findings ?? []) : undefined,
+    sources: sources.length > 0 ? sources : undefined,
+    anchors: group.some(f => f.anchors) ? group.flatMap(f => f.anchors ?? []) : undefined,
+  };
+};
+
+/**
+ * Merges the accepted pairs. Pairs sharing a feature end up in one group, merged into its earliest feature.
+ */
+export const mergeDuplicates = (features: ParsedFeature[], pairs: Pick<DuplicateCandidate, 'first' | 'second'>[]): ParsedFeature[] => {
+  const parent = features.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  pairs.forEach(({ first, second }) => {
+    const [a, b] = [root(first), root(second)];
+    if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+  });
+
+  return features.flatMap((feature, index) => {
+    if (root(index) !== index) return [];
+    const group = features.filter((_, other) => root(other) === index);
+    return [group.length > 1 ? mergeFeatureGroup(group) : feature];
+  });
+};
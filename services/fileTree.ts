@@ -0,0 +1,66 @@
+import { ProjectFile } from "../types";
+
+export interface FileTreeFolder {
+  kind: 'folder';
+  name: string;
+  path: string;
+  children: FileTreeNode[];
+}
+
+export interface FileTreeFile {
+  kind: 'file';
+  name: string;
+  path: string;
+  file: ProjectFile;
+}
+
+export type FileTreeNode = FileTreeFolder | FileTreeFile;
+
+const sortNodes = (nodes: FileTreeNode[]): FileTreeNode[] =>
+  nodes
+    .map(node => (node.kind === 'folder' ? { ...node, children: sortNodes(node.children) } : node))
+    .sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'folder' ? -1 : 1));
+
+/**
+ * Nests files by every path segment. Folders come before files, both alphabetical.
+ */
+export const buildFileTree = (files: ProjectFile[]): FileTreeNode[] => {
+  const root: FileTreeNode[] = [];
+
+  files.forEach(file => {
+    const segments = file.path.split('/').filter(Boolean);
+    let level = root;
+    segments.slice(0, -1).forEach((name, index) => {
+      const path = segments.slice(0, index + 1).join('/');
+      let folder = level.find((node): node is FileTreeFolder => node.kind === 'folder' && node.path === path);
+      if (!folder) {
+        folder = { kind: 'folder', name, path, children: [] };
+        level.push(folder);
+      }
+      level = folder.children;
+    });
+    level.push({ kind: 'file', name: segments[segments.length - 1] || file.path, path: file.path, file });
+  });
+
+  return sortNodes(root);
+};
+
+/**
+ * Folder paths containing the given path, outermost first: "a/b/c.ts" gives ["a", "a/b"].
+ */
+export const getAncestorPaths = (path: string): string[] => {
+  const segments = path.split('/').filter(Boolean);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/'));
+};
+
+/**
+ * "*.ts" and ".ts" match by extension, anything else is a case-insensitive match on the path.
+ */
+export const matchesFileFilter = (path: string, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const lower = path.toLowerCase();
+  const extension = q.match(/^\*?(\.[\w.-]+)$/)?.[1];
+  if (extension) return lower.endsWith(extension);
+  return lower.includes(q);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeFrontmatterKey, parseFrontmatter } from './frontmatter';
+
+const fieldsOf = (source: string) => Object.fromEntries(parseFrontmatter(source).fields);
+
+describe('parseFrontmatter', () => {
+  it('reads plain, single- and double-quoted values', () => {
+    expect(fieldsOf([
+      'title: Issue #42 fixed',
+      "type: 'It''s core'",
+      'icon: "Lock \\"closed\\""',
+      'path: "C:\\Users\\me"',
+    ].join('\n'))).toEqual({
+      title: 'Issue #42 fixed',
+      type: "It's core",
+      icon: 'Lock "closed"',
+      path: 'C:\\Users\\me',
+    });
+  });
+
+  it('reads lists, block scalars and wrapped values with CRLF line endings', () => {
+    expect(fieldsOf([
+      'tags: [auth, "a, b", \'c\']',
+      'acceptance_criteria:',
+      '  - Valid login works',
+      '  - Wrong password',
+      '    shows an error',
+      'notes: |',
+      '  Line one',
+      '  Line two',
+      'summary: >',
+      '  Folded',
+      '  text',
+      'title: A long title',
+      '  wrapped here',
+    ].join('\r\n'))).toEqual({
+      'tags': ['auth', 'a, b', 'c'],
+      'acceptance criteria': ['Valid login works', 'Wrong password shows an error'],
+      'notes': 'Line one\nLine two',
+      'summary': 'Folded text',
+      'title': 'A long title wrapped here',
+    });
+  });
+
+  it('treats the spellings of a key as the same key', () => {
+    ['Acceptance Criteria', 'acceptance_criteria', 'acceptance-criteria', 'acceptanceCriteria']
+      .forEach(key => expect(normalizeFrontmatterKey(key)).toBe('acceptance criteria'));
+  });
+
+  it('reports malformed fields with their line and keeps the rest', () => {
+    const { fields, issues } = parseFrontmatter([
+      'title: Login',
+      'type:Core',
+      '  stray indented line',
+      'icon: "Lock',
+      "owner: 'Ann' trailing",
+      'tags: [a, b',
+      '- orphan item',
+      'title: Sign in',
+    ].join('\n'));
+    expect(issues).toEqual([
+      { line: 2, message: 'Expected "key: value" with a space after the colon; the line was ignored.' },
+      { line: 3, message: 'Indented line without a key above it; it was ignored.' },
+      { line: 4, message: 'The double quote is never closed.' },
+      { line: 5, message: 'Unexpected text after the closing quote: "trailing".' },
+      { line: 6, message: 'The list is never closed with "]".' },
+      { line: 7, message: 'Expected "key: value"; the line was ignored.' },
+      { line: 8, message: '"title" is set twice; the last value is used.' },
+    ]);
+    expect(fields.get('title')).toBe('Sign in');
+    expect(fields.get('icon')).toBe('Lock');
+  });
+});
@@ -0,0 +1,209 @@
+// A forgiving reader for the YAML subset people write in frontmatter by hand: `key: value` pairs with
+// plain, single- or double-quoted values, block scalars (`|` and `>`), lists (`- item` or `[a, b]`) and
+// indented continuation lines. Lines it cannot read are reported and skipped, never thrown.
+
+export type FrontmatterValue = string | string[];
+
+export interface FrontmatterIssue {
+  /** 1-based line within the frontmatter. */
+  line: number;
+  message: string;
+}
+
+export interface Frontmatter {
+  /** Keyed by `normalizeFrontmatterKey`, in the order they appear. */
+  fields: Map<string, FrontmatterValue>;
+  issues: FrontmatterIssue[];
+}
+
+const KEY_LINE = /^([^\s:#'"-][^:]*?)\s*:(?:\s+(.*))?$/;
+const BLOCK_SCALAR = /^[|>][+-]?$/;
+const LIST_ITEM = /^-(\s+|$)/;
+
+/**
+ * `Acceptance Criteria`, `acceptance_criteria`, `acceptance-criteria` and `acceptanceCriteria` are the same key.
+ */
+export const normalizeFrontmatterKey = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[\s_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const isIndented = (line: string) => /^\s/.test(line);
+
+// Lines deeper than the key belong to it; blank lines only while more of the value follows
+const collectContinuation = (lines: string[], start: number, allowListItems: boolean): number => {
+  let end = start;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    if (!isIndented(line) && !(allowListItems && LIST_ITEM.test(line))) break;
+    end = i + 1;
+  }
+  return end;
+};
+
+const dedent = (lines: string[]): string[] => {
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length);
+  const depth = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(depth));
+};
+
+// `|` keeps line breaks, `>` folds lines into paragraphs. Trailing newlines are always dropped.
+const readBlockScalar = (indicator: string, lines: string[]): string => {
+  const dedented = dedent(lines);
+  if (indicator.startsWith('|')) return dedented.join('\n').trimEnd();
+  return dedented
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).join(' '))
+    .join('\n')
+    .trim();
+};
+
+interface QuotedValue {
+  value: string;
+  /** Text after the closing quote, which should be nothing but a comment. */
+  rest: string;
+  closed: boolean;
+}
+
+const readQuoted = (text: string): QuotedValue => {
+  const quote = text[0];
+  for (let i = 1; i < text.length; i++) {
+    if (quote === "'" && text[i] === "'") {
+      // Single-quoted YAML escapes a quote by doubling it
+      if (text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return { value: text.slice(1, i).replace(/''/g, "'"), rest: text.slice(i + 1), closed: true };
+    }
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (quote === '"' && text[i] === '"') {
+      const literal = text.slice(0, i + 1);
+      let value: string;
+      try {
+        value = JSON.parse(literal);
+      } catch {
+        // Backslashes that are not JSON escapes (a Windows path, say) are kept as written
+        value = literal.slice(1, -1);
+      }
+      return { value, rest: text.slice(i + 1), closed: true };
+    }
+  }
+  return { value: text.slice(1), rest: '', closed: false };
+};
+
+const readScalar = (text: string, line: number, issues: FrontmatterIssue[]): string => {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quoted = readQuoted(text);
+    if (!quoted.closed) issues.push({ line, message: `The ${text[0] === '"' ? 'double' : 'single'} quote is never closed.` });
+    else if (quoted.rest.trim() && !quoted.rest.trim().startsWith('#')) {
+      issues.push({ line, message: `Unexpected text after the closing quote: "${quoted.rest.trim()}".` });
+    }
+    return quoted.value;
+  }
+  // Plain values are taken as written; a ` #` is part of the text ("Issue #42"), not a comment
+  return text.trim();
+};
+
+// Splits `[a, 'b, c', "d"]` on the commas outside quotes
+const readFlowList = (text: string, line: number, issues: FrontmatterIssue[]): string[] => {
+  const inner = text.trim().slice(1, -1);
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const ch of inner) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim() || items.length > 0) items.push(current);
+  return items.map(item => readScalar(item.trim(), line, issues)).filter(Boolean);
+};
+
+// `- item` lines; deeper lines continue the item before them
+const readBlockList = (lines: string[], firstLine: number, issues: FrontmatterIssue[]): string[] => {
+  const items: string[] = [];
+  dedent(lines).forEach((line, offset) => {
+    if (!line.trim()) return;
+    if (LIST_ITEM.test(line)) {
+      items.push(readScalar(line.replace(LIST_ITEM, ''), firstLine + offset, issues));
+    } else if (items.length > 0) {
+      items[items.length - 1] = `${items[items.length - 1]} ${line.trim()}`.trim();
+    } else {
+      issues.push({ line: firstLine + offset, message: 'Expected a list item starting with "- "; the line was ignored.' });
+    }
+  });
+  return items.filter(Boolean);
+};
+
+export const parseFrontmatter = (source: string): Frontmatter => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const fields = new Map<string, FrontmatterValue>();
+  const issues: FrontmatterIssue[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    if (!line.trim() || line.trim().startsWith('#')) {
+      i++;
+      continue;
+    }
+    const match = isIndented(line) ? null : KEY_LINE.exec(line);
+    if (!match) {
+      issues.push({
+        line: lineNumber,
+        message: isIndented(line)
+          ? 'Indented line without a key above it; it was ignored.'
+          : `Expected "key: value"${line.includes(':') ? ' with a space after the colon' : ''}; the line was ignored.`,
+      });
+      i++;
+      continue;
+    }
+
+    const key = normalizeFrontmatterKey(match[1]);
+    const inline = (match[2] ?? '').trim();
+    const end = collectContinuation(lines, i + 1, !inline);
+    const continuation = lines.slice(i + 1, end);
+
+    let value: FrontmatterValue;
+    if (BLOCK_SCALAR.test(inline)) {
+      value = readBlockScalar(inline, continuation);
+    } else if (!inline && continuation.some(next => LIST_ITEM.test(next.trim()))) {
+      value = readBlockList(continuation, lineNumber + 1, issues);
+    } else if (inline.startsWith('[')) {
+      const flow = [inline, ...continuation.map(next => next.trim())].join(' ').trim();
+      if (flow.endsWith(']')) {
+        value = readFlowList(flow, lineNumber, issues);
+      } else {
+        issues.push({ line: lineNumber, message: 'The list is never closed with "]".' });
+        value = flow;
+      }
+    } else {
+      // Quoted and plain values may wrap onto indented lines; YAML folds them with a space
+      value = readScalar([inline, ...continuation.map(next => next.trim())].filter(Boolean).join(' '), lineNumber, issues);
+    }
+
+    if (fields.has(key)) issues.push({ line: lineNumber, message: `"${match[1]}" is set twice; the last value is used.` });
+    fields.set(key, value);
+    i = Math.max(end, i + 1);
+  }
+
+  return { fields, issues };
+};
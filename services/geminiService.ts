@@ -1,21 +1,76 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, Type } from "@google/genai";
-import { TechStack, ParsedFeature, CodeScaffold, ProjectFile } from "../types";
+import { Type } from "@google/genai";
+import { TechStack, ParsedFeature, StackPreferences, StackRecommendation, CodeScaffold, ChatMessage, ProjectFile, FileEdit, FileEditAction, ScaffoldProblem, ScaffoldPlan, PlannedFile, ArchitectureDiagram, RequirementsAnalysis, ApiContract, DataEntity } from "../types";
+import { getActiveProvider, ProjectChat } from "./providers";
+import { createArrayItemScanner, parsePartialJson } from "./jsonStream";
+import { createId } from "./ids";
+import { generateStructured, stripCodeFence, StructuredOutputError } from "./structuredOutput";
+import { checkDiagramTypes, DIAGRAM_KINDS } from "./diagrams";
+import { describeAnalysis, normalizeAnalysis, RISK_SEVERITIES } from "./analysis";
+import { FeatureFinding, FINDING_CATEGORIES } from "./requirementsReview";
+import { checkContract, describeContract, FIELD_TYPES } from "./apiContract";
+import { describeStack, checkStackCompatibility, isStackComplete, rankRecommendations, STACK_CATALOG, STACK_CRITERIA } from "./stackCatalog";
 
-// Initialize Gemini Client
-// IMPORTANT: Accessing process.env.API_KEY directly as per instructions
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export interface ScaffoldStreamOptions {
+  signal?: AbortSignal;
+  /** Receives every file as soon as the model finished emitting it. */
+  onFile?: (file: ProjectFile) => void;
+}
 
-// Models configuration
-const FAST_MODEL = 'gemini-flash-lite-latest'; 
-const SMART_MODEL = 'gemini-3-pro-preview';
+// Shared by file batches and repair, which both return complete files
+const PROJECT_FILE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    path: { type: Type.STRING, description: "Full file path including folder (e.g., backend/src/main.ts)" },
+    content: { type: Type.STRING, description: "The complete code content of the file" },
+    language: { type: Type.STRING, description: "The language for syntax highlighting (e.g., typescript, python, json)" },
+    featureTitles: {
+      type: Type.ARRAY,
+      description: "Exact titles of the requirements this file implements",
+      items: { type: Type.STRING }
+    }
+  },
+  required: ["path", "content", "language", "featureTitles"]
+};
+
+/**
+ * Decisions made before code exists. Generation and chat get them so they follow
+ * the modules and risks of the analysis and the endpoints and DTOs of the signed-off contract.
+ */
+export interface DesignContext {
+  analysis: RequirementsAnalysis | null;
+  contract: ApiContract | null;
+}
+
+const indent = (text: string) => text.split('\n').join('\n    ');
+
+const designContext = ({ analysis, contract }: DesignContext) => [
+  analysis ? `
+    Architecture analysis (follow these decisions):
+    ${indent(describeAnalysis(analysis))}
+` : '',
+  contract ? `
+    API contract (binding: entities, endpoints, request and response shapes must match it exactly):
+    ${indent(describeContract(contract))}
+` : '',
+].join('');
+
+interface ExtractedFeature extends Omit<ParsedFeature, 'raw' | 'anchors'> {
+  quote: string;
+  page?: number;
+  section?: string;
+}
 
 /**
- * Parses unstructured text or binary data (PDF) into structured features using Gemini.
+ * Parses unstructured text or binary data (PDF) into structured features using the active provider.
+ * Each feature carries an anchor to the passage it came from; its document id is set when the document is added to a project.
  */
 export const parseDocumentWithGemini = async (
   fileData: string, 
   mimeType: string
 ): Promise<ParsedFeature[]> => {
+  // Binary documents (PDF) travel as an attachment, text is inlined into the prompt
+  const isBinary = mimeType === 'application/pdf';
+
   const prompt = `
     Analyze the provided document content.
     Extract key functional requirements and architectural features.
@@ -25,212 +80,816 @@ export const parseDocumentWithGemini = async (
     - title: A short concise title (e.g., 'User Authentication')
     - icon: A valid Lucide React icon name (PascalCase, e.g., 'ShieldCheck', 'Database', 'User', 'Globe')
     - content: A detailed description of the requirement.
+    - quote: The passage the feature is based on, copied character for character from the document
+      (one to three sentences, no paraphrasing, no ellipses). Reviewers use it to check the feature against the source.
+    - section: The heading of the section the passage is in, if there is one.${isBinary ? `
+    - page: The 1-based page number the passage is on.` : ''}
     
-    If the content is empty or unreadable, return an empty list.
+    Only extract requirements the document actually states. If the content is empty or unreadable, return an empty list.
   `;
 
-  // Prepare contents based on mimeType
-  let contents;
-  if (mimeType === 'application/pdf') {
-    contents = {
-      role: 'user',
-      parts: [
-        { text: prompt },
-        { inlineData: { mimeType: mimeType, data: fileData } }
-      ]
-    };
-  } else {
-    // Text based (including extracted text from DOCX)
-    contents = {
-        role: 'user',
-        parts: [{ text: `${prompt}\n\nDocument Content:\n${fileData}` }]
-    };
+  try {
+    const features = await generateStructured<ExtractedFeature[]>({
+      task: 'parseDocument',
+      tier: 'fast', // Flash Lite is good for extraction
+      prompt: isBinary ? prompt : `${prompt}\n\nDocument Content:\n${fileData}`,
+      attachment: isBinary ? { mimeType, data: fileData } : undefined,
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING },
+            title: { type: Type.STRING },
+            icon: { type: Type.STRING },
+            content: { type: Type.STRING },
+            quote: { type: Type.STRING, description: "Verbatim passage from the document" },
+            section: { type: Type.STRING },
+            page: { type: Type.INTEGER }
+          },
+          required: ["type", "title", "icon", "content", "quote"]
+        }
+      }
+    });
+    return features.map(({ quote, page, section, ...feature }) => ({
+      ...feature,
+      raw: quote,
+      anchors: [{ documentId: '', quote, ...(page ? { page } : {}), ...(section ? { section } : {}) }],
+    }));
+  } catch (error) {
+    // Typed errors carry a message the UI can show as is
+    if (error instanceof StructuredOutputError) throw error;
+    console.error("AI parsing failed:", error);
+    throw new Error("Failed to parse document with AI.");
   }
+};
+
+/**
+ * Reviews the requirements for what they leave out: acceptance criteria, conflicts, undefined roles,
+ * non-functional gaps and vague wording. Each finding names the feature it belongs to.
+ */
+export const reviewRequirements = async (
+  features: ParsedFeature[],
+  signal?: AbortSignal
+): Promise<FeatureFinding[]> => {
+  const titles = features.map(f => f.title);
+  const featureList = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+
+  const prompt = `
+    You are a senior business analyst reviewing a requirements document before development starts.
+
+    Requirements:
+    ${featureList}
+
+    Report the quality problems of these requirements, using these categories:
+    ${FINDING_CATEGORIES.map(({ category, description }) => `- ${category}: ${description}`).join('\n    ')}
+
+    Rules:
+    1. "featureTitle" is the exact title of the affected feature. Gaps in the document as a whole
+       (e.g. no performance requirements anywhere) go to the feature most affected by them.
+    2. "severity": high if development cannot start without an answer, medium if it will likely cause rework, low otherwise.
+    3. "issue" says in one sentence what is missing or contradictory.
+    4. "question" is a clarifying question the client can answer directly, in plain business language.
+    5. Report only real problems; a clear, testable requirement gets no findings.
+  `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: FAST_MODEL, // Flash Lite is good for extraction
-      contents: contents,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              type: { type: Type.STRING },
-              title: { type: Type.STRING },
-              icon: { type: Type.STRING },
-              content: { type: Type.STRING },
-              raw: { type: Type.STRING, description: "Leave empty or original text snippet" }
-            },
-            required: ["type", "title", "icon", "content"]
+    const parsed = await generateStructured<{ findings: Omit<FeatureFinding, 'id'>[] }>({
+      task: 'reviewRequirements',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          findings: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                featureTitle: { type: Type.STRING, enum: titles },
+                category: { type: Type.STRING, enum: FINDING_CATEGORIES.map(({ category }) => category) },
+                severity: { type: Type.STRING, enum: RISK_SEVERITIES },
+                issue: { type: Type.STRING },
+                question: { type: Type.STRING },
+                relatedTitles: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["featureTitle", "category", "severity", "issue", "question"]
+            }
           }
-        }
+        },
+        required: ["findings"]
       }
+    }, {
+      validate: (result) => result.findings.flatMap((finding, index) => (titles.includes(finding.featureTitle)
+        ? []
+        : [`findings[${index}].featureTitle: "${finding.featureTitle}" is not one of the feature titles`])),
     });
+    return parsed.findings.map(finding => ({ ...finding, id: createId() }));
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Requirements review failed:", error);
+    throw new Error("Failed to review the requirements.");
+  }
+};
 
-    if (response.text) {
-      try {
-        // CLEANUP: Strip any Markdown code block syntax if the model includes it despite responseMimeType
-        let jsonStr = response.text.trim();
-        if (jsonStr.startsWith("```json")) {
-           jsonStr = jsonStr.replace(/^```json/, "").replace(/```$/, "");
-        } else if (jsonStr.startsWith("```")) {
-           jsonStr = jsonStr.replace(/^```/, "").replace(/```$/, "");
-        }
-        return JSON.parse(jsonStr) as ParsedFeature[];
-      } catch (jsonError) {
-        console.error("JSON Parse Error:", jsonError);
-        console.log("Raw Response:", response.text);
-        return [];
+const NAMED_TEXT_SCHEMA = (nameKey: string, textKey: string) => ({
+  type: Type.OBJECT,
+  properties: { [nameKey]: { type: Type.STRING }, [textKey]: { type: Type.STRING } },
+  required: [nameKey, textKey]
+});
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    architectureStyle: { type: Type.STRING, description: "e.g. Modular monolith, Microservices, Serverless" },
+    summary: { type: Type.STRING, description: "2-4 sentences on how the stack fits these requirements" },
+    modules: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          responsibilities: { type: Type.ARRAY, items: { type: Type.STRING } },
+          featureTitles: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["name", "responsibilities", "featureTitles"]
       }
+    },
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          relations: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["name", "description", "relations"]
+      }
+    },
+    integrations: { type: Type.ARRAY, items: NAMED_TEXT_SCHEMA('name', 'purpose') },
+    nonFunctional: { type: Type.ARRAY, items: NAMED_TEXT_SCHEMA('category', 'description') },
+    risks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: RISK_SEVERITIES },
+          mitigation: { type: Type.STRING }
+        },
+        required: ["description", "severity", "mitigation"]
+      }
+    },
+    openQuestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["architectureStyle", "summary", "modules", "entities", "integrations", "nonFunctional", "risks", "openQuestions"]
+};
+
+/**
+ * Analyzes the requirements for the selected stack using the fast model.
+ * The result is structured so the UI can show it as sections and later prompts can reuse it.
+ * `onPartial` receives the sections parsed so far while the response streams in.
+ */
+export const analyzeRequirementsFast = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  signal?: AbortSignal,
+  onPartial?: (analysis: RequirementsAnalysis) => void
+): Promise<RequirementsAnalysis> => {
+  const featureSummaries = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+
+  const prompt = `
+    You are a senior software architect.
+    Analyze the following project requirements for the selected tech stack.
+
+    Selected Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements:
+    ${featureSummaries}
+
+    Return:
+    - "architectureStyle" and a short "summary" of the implementation strategy for this stack.
+    - "modules": the backend and frontend modules, their responsibilities, and the exact requirement titles each covers.
+    - "entities": the data entities with a one-line description and their relations to each other.
+    - "integrations": external services and APIs the system depends on (payments, email, identity, ...). Empty if none.
+    - "nonFunctional": concerns such as performance, security, availability, privacy or compliance the requirements imply.
+    - "risks": what could go wrong technically, with severity and a mitigation.
+    - "openQuestions": what the requirements leave undecided and the client should answer.
+    Be specific to these requirements; do not pad sections with generic advice.
+  `;
+
+  let streamed = '';
+  let streamedAttempt = 1;
+  try {
+    return await generateStructured<RequirementsAnalysis>({
+      task: 'analyzeRequirements',
+      tier: 'fast',
+      prompt,
+      signal,
+      responseSchema: ANALYSIS_SCHEMA
+    }, {
+      onChunk: onPartial && ((chunk, attempt) => {
+        if (attempt !== streamedAttempt) {
+          streamed = '';
+          streamedAttempt = attempt;
+        }
+        streamed += chunk;
+        const partial = normalizeAnalysis(parsePartialJson(streamed));
+        if (partial) onPartial(partial);
+      }),
+    });
+  } catch (error) {
+    // Cancellation is not a failure, let the caller see the abort as is
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Analysis failed:", error);
+    throw new Error("Failed to analyze requirements.");
+  }
+};
+
+const RECOMMENDATION_COUNT = 3;
+
+const CRITERIA_SCHEMA = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(STACK_CRITERIA.map(criterion => [criterion.key, { type: Type.INTEGER }])),
+  required: STACK_CRITERIA.map(criterion => criterion.key)
+};
+
+const CRITERIA_NOTES_SCHEMA = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(STACK_CRITERIA.map(criterion => [criterion.key, { type: Type.STRING }])),
+  required: STACK_CRITERIA.map(criterion => criterion.key)
+};
+
+// Catalog rules the model has to respect; custom values are never rejected, only unknown-but-wrong pairs are
+const checkRecommendations = (recommendations: StackRecommendation[]): string[] => {
+  if (recommendations.length === 0) return ['response: at least one candidate stack is required'];
+  return recommendations.flatMap((recommendation, index) => {
+    const path = `response[${index}]`;
+    const issues = checkStackCompatibility(recommendation.stack).map(issue => `${path}.stack: ${issue.message}`);
+    if (!isStackComplete(recommendation.stack)) {
+      issues.push(`${path}.stack: language, frontendFramework and backendFramework must all be set`);
     }
-    return [];
+    STACK_CRITERIA.forEach(({ key }) => {
+      const score = recommendation.scores[key];
+      if (score < 1 || score > 10) issues.push(`${path}.scores.${key}: must be between 1 and 10, got ${score}`);
+    });
+    return issues;
+  });
+};
+
+/**
+ * Proposes candidate stacks for the requirements, each scored per criterion, best fit first.
+ * Runs before any stack is selected, so it only sees the features and the team's preferences.
+ */
+export const recommendTechStacks = async (
+  features: ParsedFeature[],
+  preferences: StackPreferences = {},
+  signal?: AbortSignal
+): Promise<StackRecommendation[]> => {
+  const featureSummaries = features.map(f => `- [${f.type}] ${f.title}: ${f.content}`).join('\n');
+  const catalog = STACK_CATALOG
+    .map(dimension => `- ${dimension.key}: ${dimension.options.map(option => option.name).join(', ')}`)
+    .join('\n    ');
+
+  const prompt = `
+    You are a senior software architect helping a team choose a tech stack.
+
+    Requirements:
+    ${featureSummaries}
+
+    Team languages: ${preferences.teamLanguages?.trim() || 'not specified'}
+    Preferred hosting: ${preferences.hosting?.trim() || 'not specified'}
+
+    Propose ${RECOMMENDATION_COUNT} clearly different candidate stacks that fit these requirements.
+    Prefer these names for each stack field, leave optional fields empty when they do not matter:
+    ${catalog}
+
+    Score every candidate from 1 (poor fit) to 10 (ideal) on each criterion:
+    ${STACK_CRITERIA.map(criterion => `- ${criterion.key}: ${criterion.description}`).join('\n    ')}
+    When a preference is not specified, score that criterion on general popularity and simplicity.
+    Give one short sentence per criterion in "notes" and a 2-3 sentence "rationale" for the candidate as a whole.
+  `;
+
+  try {
+    const recommendations = await generateStructured<StackRecommendation[]>({
+      task: 'recommendStack',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            stack: {
+              type: Type.OBJECT,
+              properties: Object.fromEntries(STACK_CATALOG.map(dimension => [dimension.key, { type: Type.STRING }])),
+              required: STACK_CATALOG.filter(dimension => dimension.required).map(dimension => dimension.key)
+            },
+            scores: CRITERIA_SCHEMA,
+            notes: CRITERIA_NOTES_SCHEMA,
+            rationale: { type: Type.STRING }
+          },
+          required: ["stack", "scores", "notes", "rationale"]
+        }
+      }
+    }, { validate: checkRecommendations });
+    return rankRecommendations(recommendations);
   } catch (error) {
-    console.error("Gemini parsing failed:", error);
-    throw new Error("Failed to parse document with AI.");
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Stack recommendation failed:", error);
+    throw new Error("Failed to recommend a tech stack.");
   }
 };
 
+export type StackComplexity = 'low' | 'medium' | 'high';
+
+export interface StackAssessment {
+  complexity: StackComplexity;
+  complexityNotes: string;
+  risks: string[];
+}
+
 /**
- * Analyzes the requirements using the Fast Lite model to generate a tech summary.
+ * How the compared stacks differ; `assessments` follows the order of the stacks that were sent.
  */
-export const analyzeRequirementsFast = async (
+export interface StackComparisonSummary {
+  assessments: StackAssessment[];
+  differences: string[];
+}
+
+export interface ComparedStack {
+  stack: TechStack;
+  analysis: RequirementsAnalysis | null;
+  /** Only present when the comparison included a file manifest. */
+  plan?: ScaffoldPlan | null;
+}
+
+/**
+ * Reads the analyses (and manifests) produced for several stacks and calls out complexity, risks and differences.
+ */
+export const compareStackAnalyses = async (
   features: ParsedFeature[],
-  stack: TechStack
-): Promise<string> => {
+  compared: ComparedStack[],
+  signal?: AbortSignal
+): Promise<StackComparisonSummary> => {
+  const featureTitles = features.map(f => `- ${f.title}`).join('\n');
+  const stackContext = compared
+    .map((entry, index) => {
+      const manifest = entry.plan
+        ? `\nFile manifest (${entry.plan.files.length} files):\n${entry.plan.files.map(file => `- ${file.path}`).join('\n')}`
+        : '';
+      return `=== Stack ${index + 1} ===\n${describeStack(entry.stack)}\n\nAnalysis:\n${entry.analysis ? describeAnalysis(entry.analysis) : '(none)'}${manifest}`;
+    })
+    .join('\n\n');
+
+  const prompt = `
+    You are a senior software architect comparing implementation options for a client.
+
+    Requirements:
+    ${featureTitles}
+
+    ${stackContext}
+
+    Instructions:
+    1. "assessments": exactly one entry per stack, in the order above.
+       - "complexity": low, medium or high, for building and running these requirements on that stack.
+       - "complexityNotes": one sentence explaining the rating.
+       - "risks": 1-4 short, concrete risks specific to that stack and these requirements.
+    2. "differences": 3-6 short statements of what actually differs between the stacks (effort, file count, hosting, skills, ecosystem).
+  `;
+
   try {
-    const featureSummaries = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
-    
-    const prompt = `
-      You are a senior software architect.
-      Analyze the following project requirements and the selected tech stack.
-      
-      Selected Tech Stack:
-      - Preferred Language: ${stack.language}
-      - Frontend Framework: ${stack.frontendFramework}
-      - Backend Framework: ${stack.backendFramework}
-      
-      Requirements:
-      ${featureSummaries}
-      
-      Provide a concise, high-level technical implementation strategy (max 200 words). 
-      Focus on how the selected stack fits these specific features.
-    `;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: prompt,
+    return await generateStructured<StackComparisonSummary>({
+      task: 'compareStacks',
+      tier: 'fast',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          assessments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                complexity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+                complexityNotes: { type: Type.STRING },
+                risks: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["complexity", "complexityNotes", "risks"]
+            }
+          },
+          differences: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["assessments", "differences"]
+      }
+    }, {
+      validate: (summary) => (summary.assessments.length === compared.length
+        ? []
+        : [`response.assessments: expected ${compared.length} entries, one per stack, got ${summary.assessments.length}`]),
     });
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Stack comparison failed:", error);
+    throw new Error("Failed to compare the stacks.");
+  }
+};
+
+// Enough paths to show the module structure without filling the prompt with a large scaffold
+const MAX_DIAGRAM_CONTEXT_FILES = 150;
+
+/**
+ * Produces component, deployment and sequence diagrams as Mermaid source.
+ * With a scaffold the diagrams follow its actual modules, otherwise they are derived from features and stack alone.
+ */
+export const generateArchitectureDiagrams = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  scaffold: CodeScaffold | null,
+  signal?: AbortSignal
+): Promise<ArchitectureDiagram[]> => {
+  const featureSummaries = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+  const fileContext = scaffold
+    ? `Generated file structure (base the modules and names on it):
+    ${scaffold.files.slice(0, MAX_DIAGRAM_CONTEXT_FILES).map(file => `- ${file.path}`).join('\n    ')}`
+    : 'No code has been generated yet, derive the modules from the requirements.';
+
+  const prompt = `
+    You are a senior software architect documenting a system.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements:
+    ${featureSummaries}
 
-    return response.text || "No analysis generated.";
+    ${fileContext}
+
+    Return one diagram per kind, as Mermaid source:
+    ${DIAGRAM_KINDS.map(({ kind, description }) => `- ${kind}: ${description}`).join('\n    ')}
+
+    Rules:
+    1. "source" is plain Mermaid without a markdown code fence.
+    2. Node ids are simple identifiers; put labels with spaces or punctuation in double quotes, e.g. api["REST API (NestJS)"].
+    3. Keep each diagram readable: at most about 15 nodes or participants.
+    4. "title" is a short human-readable heading for the diagram.
+  `;
+
+  try {
+    const parsed = await generateStructured<{ diagrams: ArchitectureDiagram[] }>({
+      task: 'generateDiagrams',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          diagrams: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                kind: { type: Type.STRING, enum: DIAGRAM_KINDS.map(({ kind }) => kind) },
+                title: { type: Type.STRING },
+                source: { type: Type.STRING, description: "Mermaid source without a code fence" }
+              },
+              required: ["kind", "title", "source"]
+            }
+          }
+        },
+        required: ["diagrams"]
+      }
+    }, {
+      validate: (result) => checkDiagramTypes(result.diagrams.map(diagram => ({ ...diagram, source: stripCodeFence(diagram.source) }))),
+    });
+    // One per kind, in the fixed order the UI shows them
+    return DIAGRAM_KINDS.map(({ kind }) => {
+      const diagram = parsed.diagrams.find(d => d.kind === kind)!;
+      return { ...diagram, source: stripCodeFence(diagram.source) };
+    });
   } catch (error) {
-    console.error("Analysis failed:", error);
-    throw new Error("Failed to analyze requirements.");
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Diagram generation failed:", error);
+    throw new Error("Failed to generate architecture diagrams.");
   }
 };
 
+const DATA_FIELD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    type: { type: Type.STRING, enum: FIELD_TYPES },
+    required: { type: Type.BOOLEAN },
+    unique: { type: Type.BOOLEAN },
+    references: { type: Type.STRING, description: "Name of the entity this field is a foreign key to" }
+  },
+  required: ["name", "type", "required"]
+};
+
 /**
- * Generates industry-standard boilerplate code for Backend and Frontend.
+ * Derives the data model and an OpenAPI 3 spec from the requirements. The user reviews and edits
+ * both before code is generated, so generation builds against a contract instead of inventing one.
  */
-export const generateCodeScaffold = async (
+export const generateApiContract = async (
   features: ParsedFeature[],
-  stack: TechStack
-): Promise<CodeScaffold> => {
+  stack: TechStack,
+  analysis: RequirementsAnalysis | null,
+  signal?: AbortSignal
+): Promise<ApiContract> => {
+  const featureSummaries = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+
+  const prompt = `
+    You are a senior API designer. Derive the data model and the HTTP API for this application.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements:
+    ${featureSummaries}
+${designContext({ analysis, contract: null })}
+    Rules:
+    1. "entities" lists every persisted entity with its fields. Every entity has an "id" field.
+    2. Relations are foreign key fields whose "references" is the name of another entity in the list.
+    3. "openApi" is a complete OpenAPI 3.0.3 document as a JSON string: info, paths with an operationId
+       and summary per operation, request bodies, responses, and components.schemas matching the entities.
+    4. Cover every feature that needs the backend; do not add endpoints no requirement asks for.
+  `;
+
+  try {
+    const parsed = await generateStructured<{ entities: DataEntity[]; openApi: string }>({
+      task: 'generateContract',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          entities: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                description: { type: Type.STRING },
+                fields: { type: Type.ARRAY, items: DATA_FIELD_SCHEMA }
+              },
+              required: ["name", "description", "fields"]
+            }
+          },
+          openApi: { type: Type.STRING, description: "OpenAPI 3.0.3 document as JSON text" }
+        },
+        required: ["entities", "openApi"]
+      }
+    }, {
+      validate: (result) => checkContract({ entities: result.entities, openApi: stripCodeFence(result.openApi) })
+        .map(issue => `${issue.source === 'openapi' ? 'openApi' : `entities.${issue.source}`}: ${issue.message}`),
+    });
+    // Pretty-printed so the spec is readable and diffable in the editor
+    const openApi = JSON.stringify(JSON.parse(stripCodeFence(parsed.openApi)), null, 2);
+    return { entities: parsed.entities, openApi };
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Contract generation failed:", error);
+    throw new Error("Failed to derive the data model and API contract.");
+  }
+};
+
+// Plan and file batches share this view of the project so every batch builds against the same structure
+const describePlan = (plan: ScaffoldPlan) => `
+    Architecture:
+    ${plan.architecture}
+
+    File manifest (the complete project):
+    ${plan.files.map(file => `- ${file.path} (${file.language}): ${file.purpose}`).join('\n    ')}
+`;
+
+/**
+ * First pass of scaffold generation: the architecture and the list of files, without their content.
+ * Keeping this response small is what lets large requirement sets fit into the model's output limit.
+ */
+export const planScaffold = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  context: DesignContext,
+  signal?: AbortSignal
+): Promise<ScaffoldPlan> => {
   const featureContext = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
   const featureTitles = features.map(f => f.title).join(', ');
-  
+
   const prompt = `
     You are a Principal Software Engineer at a top-tier tech company.
-    Generate a **PRODUCTION-READY** codebase structure and a **LIVE DEMO PROTOTYPE**.
-    
+    Plan a **PRODUCTION-READY** codebase. Do not write the code yet, only the plan.
+
     The code must be SEPARATED into individual files to follow industry standards (Clean Architecture / SOLID).
 
     Tech Stack:
-    - Language: ${stack.language}
-    - Frontend: ${stack.frontendFramework}
-    - Backend: ${stack.backendFramework}
+    ${describeStack(stack)}
 
     Requirements:
     ${featureContext}
-
+    ${designContext(context)}
     Instructions:
-    1. Generate a list of critical files needed for this project.
-    2. **Backend**: Include entry points, configuration, and at least one full feature module (Controller, Service, DTO).
+    1. "architecture": a short description of the layers, modules and how they talk to each other.
+    2. "files": every critical file of the project, with its path, language and purpose.
+       - The purpose names the main symbols the file exports, so other files can import them.
+    3. **Backend**: Include entry points, configuration, and a feature module (Controller, Service, DTO) per requirement area.
        - Example path: \`backend/src/modules/auth/auth.controller.ts\`
-    3. **Frontend**: Include entry points, routing setup, and key components.
+    4. **Frontend**: Include entry points, routing setup, and key components.
        - Example path: \`frontend/src/components/Dashboard.tsx\`
-    4. **Config**: Include package.json (or equivalent) for both.
-    5. **README**: Generate a detailed README explaining how to run the project.
-    6. **DEMO PROTOTYPE**: Generate a SINGLE self-contained \`index.html\` file.
-       - Use Tailwind CSS via CDN: <script src="https://cdn.tailwindcss.com"></script>
-       - **LAYOUT**: Create a professional dashboard layout with a **Sidebar Navigation** that lists the key features: ${featureTitles}.
-       - **INTERACTIVITY**: Clicking a sidebar item MUST switch the main content area to show a MOCK UI for that specific feature (use vanilla JS to hide/show sections, do not reload page).
-       - **SAFETY**: Do NOT allow any page reloads or external links. All buttons and forms must use \`event.preventDefault()\` and show visual feedback (e.g., 'Simulation: Data Saved') instead of submitting.
-       - **CONTENT**: For each feature, generate a realistic-looking UI form, table, or visualization relevant to the requirement.
-       - It must be ready to run in a browser iframe (no build step).
-
-    Return the response as a structured JSON object.
+    5. **Config**: Include package.json (or equivalent) for both.
+    6. **TRACEABILITY**: For every file, list in \`featureTitles\` the exact titles of the requirements it implements (from: ${featureTitles}). Leave it empty for generic config or infrastructure files.
+    7. Do not list README.md, it is written separately.
   `;
 
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: SMART_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
+  try {
+    const parsed = await generateStructured<ScaffoldPlan>({
+      task: 'planScaffold',
+      tier: 'smart',
+      prompt,
+      signal,
       responseSchema: {
         type: Type.OBJECT,
         properties: {
+          architecture: { type: Type.STRING, description: "Short architecture overview" },
           files: {
             type: Type.ARRAY,
-            description: "List of all project files.",
             items: {
               type: Type.OBJECT,
               properties: {
                 path: { type: Type.STRING, description: "Full file path including folder (e.g., backend/src/main.ts)" },
-                content: { type: Type.STRING, description: "The complete code content of the file" },
-                language: { type: Type.STRING, description: "The language for syntax highlighting (e.g., typescript, python, json)" }
+                language: { type: Type.STRING, description: "The language for syntax highlighting (e.g., typescript, python, json)" },
+                purpose: { type: Type.STRING, description: "What the file does and the main symbols it exports" },
+                featureTitles: { type: Type.ARRAY, items: { type: Type.STRING } }
               },
-              required: ["path", "content", "language"]
+              required: ["path", "language", "purpose", "featureTitles"]
             }
-          },
-          readme: {
-            type: Type.STRING,
-            description: "Markdown string containing the README.md with run instructions.",
-          },
-          demoHtml: {
-            type: Type.STRING,
-            description: "A complete, self-contained HTML5 string with embedded CSS/JS that visually demonstrates the app.",
-          },
+          }
+        },
+        required: ["architecture", "files"]
+      }
+    }, {
+      validate: (plan) => (plan.files.length === 0 ? ['response.files: the plan lists no files'] : []),
+    });
+    return parsed;
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Scaffold planning failed:", error);
+    throw new Error("Failed to plan the codebase.");
+  }
+};
+
+/**
+ * Writes the complete content of one batch of planned files.
+ * The JSON response is streamed and `onFile` fires for each file once it is complete.
+ */
+export const generateScaffoldFiles = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  context: DesignContext,
+  plan: ScaffoldPlan,
+  batch: PlannedFile[],
+  options: ScaffoldStreamOptions = {}
+): Promise<ProjectFile[]> => {
+  const batchTitles = new Set(batch.flatMap(file => file.featureTitles));
+  // Only the requirements this batch implements, the manifest covers the rest
+  const relevant = features.filter(f => batchTitles.has(f.title));
+  const featureContext = (relevant.length > 0 ? relevant : features).map(f => `- ${f.title}: ${f.content}`).join('\n');
+
+  const prompt = `
+    You are a Principal Software Engineer writing part of a planned codebase.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements implemented by these files:
+    ${featureContext}
+    ${designContext(context)}${describePlan(plan)}
+    Write these files now:
+    ${batch.map(file => `- ${file.path}: ${file.purpose}`).join('\n    ')}
+
+    Instructions:
+    1. Return exactly the files listed under "Write these files now", each with its COMPLETE content.
+    2. Imports may only point at files from the manifest, using the exports their purpose describes.
+    3. Keep "featureTitles" as planned: ${batch.map(file => `${file.path} = [${file.featureTitles.join(', ')}]`).join('; ')}.
+  `;
+
+  let fileScanner = createArrayItemScanner<ProjectFile>('files');
+  let scannedAttempt = 1;
+  try {
+    const parsed = await generateStructured<{ files: ProjectFile[] }>({
+      task: 'generateScaffoldFiles',
+      tier: 'smart',
+      prompt,
+      signal: options.signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          files: { type: Type.ARRAY, items: PROJECT_FILE_SCHEMA }
         },
-        required: ["files", "readme", "demoHtml"],
+        required: ["files"]
+      }
+    }, {
+      // Missing files are fed back like schema errors, so the retry knows what to add
+      validate: ({ files }) => batch
+        .filter(planned => !files.some(file => file.path === planned.path))
+        .map(planned => `response.files: ${planned.path} is missing`),
+      onChunk: (chunk, attempt) => {
+        if (attempt !== scannedAttempt) {
+          fileScanner = createArrayItemScanner<ProjectFile>('files');
+          scannedAttempt = attempt;
+        }
+        fileScanner.push(chunk).forEach(file => options.onFile?.(file));
       },
-    },
-  });
+    });
+    return parsed.files;
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("File batch generation failed:", error);
+    throw new Error(`Failed to generate ${batch.length} file${batch.length === 1 ? '' : 's'}.`);
+  }
+};
+
+/**
+ * Writes the README for the planned codebase.
+ */
+export const generateScaffoldReadme = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  context: DesignContext,
+  plan: ScaffoldPlan,
+  signal?: AbortSignal
+): Promise<string> => {
+  const prompt = `
+    Write a detailed README.md for this project, explaining what it does and how to run it.
+    Return only the markdown.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements:
+    ${features.map(f => `- ${f.title}`).join('\n')}
+    ${designContext(context)}${describePlan(plan)}
+  `;
 
-  const text = response.text;
-  if (!text) throw new Error("No code generated");
-  
   try {
-    return JSON.parse(text) as CodeScaffold;
-  } catch (e) {
-    console.error("Failed to parse JSON", e);
-    return { 
-      files: [], 
-      readme: "Error parsing generation result.",
-      demoHtml: "<div style='padding:20px;color:red'>Error generating demo.</div>"
-    };
+    const text = await getActiveProvider().generate({ task: 'generateScaffoldReadme', tier: 'fast', prompt, signal });
+    return stripCodeFence(text);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("README generation failed:", error);
+    throw new Error("Failed to write the README.");
+  }
+};
+
+/**
+ * Builds the single-file clickable prototype shown in the Live Demo tab.
+ */
+export const generateDemoPrototype = async (
+  features: ParsedFeature[],
+  signal?: AbortSignal
+): Promise<string> => {
+  const featureContext = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+  const featureTitles = features.map(f => f.title).join(', ');
+
+  const prompt = `
+    Generate a **LIVE DEMO PROTOTYPE** as a SINGLE self-contained \`index.html\` file. Return only the HTML.
+
+    Requirements:
+    ${featureContext}
+
+    Instructions:
+    - Use Tailwind CSS via CDN: <script src="https://cdn.tailwindcss.com"></script>
+    - **LAYOUT**: Create a professional dashboard layout with a **Sidebar Navigation** that lists the key features: ${featureTitles}.
+    - **INTERACTIVITY**: Clicking a sidebar item MUST switch the main content area to show a MOCK UI for that specific feature (use vanilla JS to hide/show sections, do not reload page).
+    - **SAFETY**: Do NOT allow any page reloads or external links. All buttons and forms must use \`event.preventDefault()\` and show visual feedback (e.g., 'Simulation: Data Saved') instead of submitting.
+    - **CONTENT**: For each feature, generate a realistic-looking UI form, table, or visualization relevant to the requirement.
+    - It must be ready to run in a browser iframe (no build step).
+  `;
+
+  try {
+    const text = await getActiveProvider().generate({ task: 'generateDemoPrototype', tier: 'smart', prompt, signal });
+    return stripCodeFence(text);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Demo generation failed:", error);
+    throw new Error("Failed to build the demo prototype.");
   }
 };
 
 /**
  * Creates a chat session context based on requirements.
+ * Pass the saved messages of a restored project as `history` to continue its conversation.
  */
 export const createProjectChat = (
   features: ParsedFeature[], 
-  stack: TechStack
-): Chat => {
+  stack: TechStack,
+  context: DesignContext,
+  history: ChatMessage[] = []
+): ProjectChat => {
   const featureContext = features.map(f => `Feature "${f.title}": ${f.content}`).join('\n\n');
   
   const systemInstruction = `
@@ -238,13 +897,11 @@ export const createProjectChat = (
     
     Context:
     The user is building an app with:
-    - Frontend: ${stack.frontendFramework}
-    - Backend: ${stack.backendFramework}
-    - Language: ${stack.language}
+    ${describeStack(stack)}
     
     Requirements:
     ${featureContext}
-    
+    ${designContext(context)}
     Your goal is to answer technical questions, provide code snippets, and help architecture the solution.
     
     If the user has generated code and asks for changes:
@@ -253,10 +910,198 @@ export const createProjectChat = (
     3. Be specific about which files need to change.
   `;
 
-  return ai.chats.create({
-    model: SMART_MODEL,
-    config: {
-      systemInstruction: systemInstruction,
-    },
-  });
-};
\ No newline at end of file
+  // The greeting shown before the first question is rendered locally, the model never sent it.
+  // Placeholders of replies that never finished are dropped as well.
+  const completed = history.filter(msg => !msg.isThinking);
+  const firstUserTurn = completed.findIndex(msg => msg.role === 'user');
+  const priorTurns = firstUserTurn === -1 ? [] : completed.slice(firstUserTurn);
+
+  return getActiveProvider().createChat({ systemInstruction, history: priorTurns });
+};
+
+// How many earlier chat messages are replayed to the model when proposing edits
+const EDIT_TRANSCRIPT_LENGTH = 10;
+
+export interface ScaffoldEditProposal {
+  reply: string;
+  edits: FileEdit[];
+}
+
+interface RawFileEdit {
+  action: FileEditAction;
+  path: string;
+  content?: string;
+  language?: string;
+  featureTitles?: string[];
+  description?: string;
+}
+
+/**
+ * Asks the architect for concrete file changes to the generated scaffold.
+ * The whole scaffold and the recent conversation are sent along, because the chat session itself never sees the code.
+ */
+export const proposeScaffoldEdits = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  context: DesignContext,
+  scaffold: CodeScaffold,
+  history: ChatMessage[],
+  request: string,
+  signal?: AbortSignal
+): Promise<ScaffoldEditProposal> => {
+  const featureContext = features.map(f => `- ${f.title}: ${f.content}`).join('\n');
+  const fileContext = scaffold.files
+    .map(f => `=== FILE: ${f.path} (${f.language}) ===\n${f.content}`)
+    .join('\n\n');
+  const transcript = history
+    .filter(msg => !msg.isThinking)
+    .slice(-EDIT_TRANSCRIPT_LENGTH)
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Architect'}: ${msg.text}`)
+    .join('\n');
+
+  const prompt = `
+    You are the architect maintaining a generated codebase.
+    Apply the user's change request by returning concrete file edits.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    Requirements:
+    ${featureContext}
+    ${designContext(context)}
+    Current files:
+    ${fileContext}
+
+    === FILE: README.md (markdown) ===
+    ${scaffold.readme}
+
+    Recent conversation:
+    ${transcript || '(none)'}
+
+    Change request:
+    ${request}
+
+    Instructions:
+    1. "reply" briefly explains what you changed and why.
+    2. "edits" lists every file to create, modify or delete. Use the exact existing path for modify and delete.
+    3. For create and modify, "content" must be the COMPLETE new file content, not a snippet or a patch.
+    4. Only touch files that need to change. Return an empty list if no code change is needed.
+    5. For create and modify, list in "featureTitles" the exact titles of the requirements the file implements.
+  `;
+
+  try {
+    const parsed = await generateStructured<{ reply: string; edits: RawFileEdit[] }>({
+      task: 'proposeScaffoldEdits',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          reply: { type: Type.STRING, description: "Short explanation of the changes for the user" },
+          edits: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                action: { type: Type.STRING, enum: ["create", "modify", "delete"] },
+                path: { type: Type.STRING, description: "File path relative to the project root" },
+                content: { type: Type.STRING, description: "Complete new file content for create and modify" },
+                language: { type: Type.STRING },
+                featureTitles: { type: Type.ARRAY, items: { type: Type.STRING } },
+                description: { type: Type.STRING, description: "One line summary of the change to this file" }
+              },
+              required: ["action", "path", "description"]
+            }
+          }
+        },
+        required: ["reply", "edits"]
+      }
+    });
+
+    return {
+      reply: parsed.reply || "Here are the proposed changes.",
+      edits: parsed.edits
+        .filter(edit => edit.path)
+        .map(edit => ({
+          id: createId(),
+          action: edit.action,
+          path: edit.path,
+          content: edit.action === 'delete' ? undefined : edit.content ?? '',
+          language: edit.language,
+          featureTitles: edit.featureTitles,
+          description: edit.description || '',
+          status: 'pending',
+        })),
+    };
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Edit proposal failed:", error);
+    throw new Error("Failed to propose code changes.");
+  }
+};
+
+/**
+ * Sends only the files that failed validation back to the model, together with their problems.
+ * Returns the corrected files; new files may be included when a missing import target has to be created.
+ */
+export const repairScaffoldFiles = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  scaffold: CodeScaffold,
+  brokenFiles: ProjectFile[],
+  problems: ScaffoldProblem[],
+  signal?: AbortSignal
+): Promise<ProjectFile[]> => {
+  const featureTitles = features.map(f => f.title).join(', ');
+  const fileContext = brokenFiles
+    .map(file => {
+      const diagnostics = problems
+        .filter(problem => problem.path === file.path)
+        .map(problem => `- [${problem.kind}]${problem.line ? ` line ${problem.line}${problem.column ? `:${problem.column}` : ''}` : ''} ${problem.message}`)
+        .join('\n');
+      return `=== FILE: ${file.path} (${file.language}) ===\nProblems:\n${diagnostics}\n\n${file.content}`;
+    })
+    .join('\n\n');
+
+  const prompt = `
+    You are fixing a generated codebase that failed static validation.
+
+    Tech Stack:
+    ${describeStack(stack)}
+
+    All files in the project:
+    ${scaffold.files.map(file => `- ${file.path}`).join('\n')}
+
+    Files with problems:
+    ${fileContext}
+
+    Instructions:
+    1. Return every file listed under "Files with problems" with its problems fixed. "content" must be the COMPLETE file.
+    2. Keep each file's purpose and behaviour, only change what the problems require.
+    3. For an import that cannot be resolved, either point it at an existing file from the list above or also return the missing file.
+    4. If a path appears more than once, return a single merged version of it.
+    5. List in "featureTitles" the exact titles of the requirements each file implements (from: ${featureTitles}).
+  `;
+
+  try {
+    const parsed = await generateStructured<{ files: ProjectFile[] }>({
+      task: 'repairScaffoldFiles',
+      tier: 'smart',
+      prompt,
+      signal,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          files: { type: Type.ARRAY, items: PROJECT_FILE_SCHEMA }
+        },
+        required: ["files"]
+      }
+    });
+    return parsed.files.filter(file => file.path);
+  } catch (error) {
+    if (signal?.aborted || error instanceof StructuredOutputError) throw error;
+    console.error("Scaffold repair failed:", error);
+    throw new Error("Failed to repair the generated files.");
+  }
+};
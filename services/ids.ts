@@ -0,0 +1,7 @@
+/**
+ * Random identifier for locally created records (projects, proposed edits, ...).
+ */
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,416 @@
+import { ParsedFeature, SourceAnchor } from "../types";
+
+// Deterministic importers for structured sources. They map straight into features, no provider call involved.
+
+// Long enough to find the passage again, short enough to read at a glance
+const MAX_QUOTE_LENGTH = 300;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const FEATURE_TYPE_KEYWORDS: { type: string; icon: string; keywords: RegExp }[] = [
+  { type: 'Security', icon: 'ShieldCheck', keywords: /\b(security|auth\w*|login|password|permission|role|privacy|gdpr|encrypt\w*|sso)\b/i },
+  { type: 'Performance', icon: 'Gauge', keywords: /\b(performance|latency|scal\w*|load|throughput|cach\w*|availability|uptime)\b/i },
+  { type: 'Integration', icon: 'Plug', keywords: /\b(integration|third[- ]party|webhook|sync|import|export|stripe|slack|email)\b/i },
+  { type: 'API', icon: 'Server', keywords: /\b(api|endpoint|rest|graphql|sdk)\b/i },
+  { type: 'Database', icon: 'Database', keywords: /\b(database|data model|schema|storage|persist\w*|migration|backup)\b/i },
+  { type: 'UI', icon: 'Layout', keywords: /\b(ui|ux|screen|page|dashboard|view|form|layout|design|mobile|responsive)\b/i },
+];
+
+/**
+ * Picks the feature category (and a matching icon) from the words of a heading, label or issue.
+ * Anything that matches no keyword is a core feature.
+ */
+export const inferFeatureType = (...texts: string[]): { type: string; icon: string } => {
+  const text = texts.join(' ');
+  const match = FEATURE_TYPE_KEYWORDS.find(({ keywords }) => keywords.test(text));
+  return match ? { type: match.type, icon: match.icon } : { type: 'Core', icon: 'Box' };
+};
+
+const quoteOf = (text: string) => {
+  const firstParagraph = text.trim().split(/\n\s*\n/)[0];
+  return firstParagraph.length > MAX_QUOTE_LENGTH ? firstParagraph.slice(0, MAX_QUOTE_LENGTH) : firstParagraph;
+};
+
+const anchor = (section: string, quote: string): SourceAnchor[] => [{ documentId: '', section, quote: quoteOf(quote) }];
+
+// --- Markdown and HTML ---------------------------------------------------------------------------
+
+interface Section {
+  level: number;
+  heading: string;
+  body: string[];
+}
+
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+export const MARKDOWN_FENCE_LINE = /^\s*(```|~~~)/;
+
+// Sections written by the Markdown exporter open with their exact fields in a comment
+export const FEATURE_META_PREFIX = 'feature:';
+const FEATURE_META = /^<!--\s*feature:\s*(\{.*\})\s*-->\s*$/;
+
+/**
+ * Lines the section parser reads as structure (headings, setext underlines, fences, feature comments),
+ * also when preceded by backslashes, and the legacy file separator, which would make the whole file read
+ * as the legacy format. The exporter escapes them with one more backslash.
+ */
+export const MARKDOWN_STRUCTURAL_LINE = /^\\*(#{1,6}(\s|$)|=+\s*$|-+\s*$|\s*(```|~~~)|<!--\s*feature:|\s*--- START OF FILE text\/plain ---\s*$)/;
+
+// Drops the escaping backslash again, outside fenced code just like the exporter
+const unescapeSectionBody = (body: string): string => {
+  let inFence = false;
+  return body
+    .split('\n')
+    .map(line => {
+      if (MARKDOWN_FENCE_LINE.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      return !inFence && line.startsWith('\\') && MARKDOWN_STRUCTURAL_LINE.test(line.slice(1)) ? line.slice(1) : line;
+    })
+    .join('\n');
+};
+
+const readFeatureMeta = (line: string): { type?: string; title?: string; icon?: string } | null => {
+  const match = FEATURE_META.exec(line.trim());
+  if (!match) return null;
+  try {
+    const meta: unknown = JSON.parse(match[1]);
+    return isObject(meta) ? { type: str(meta.type) || undefined, title: str(meta.title) || undefined, icon: str(meta.icon) || undefined } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Heading-structured Markdown: every heading with text below it becomes a feature, titled by the heading.
+ * The nearest parent heading decides the category. Text before the first heading is an introduction and
+ * is skipped. Returns nothing for a document without headings, which is better read by the model.
+ * Sections from the Markdown exporter carry their exact fields and may have no text.
+ */
+export const parseMarkdownSections = (text: string): ParsedFeature[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const sections: Section[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (MARKDOWN_FENCE_LINE.test(line)) inFence = !inFence;
+    const atx = inFence ? null : ATX_HEADING.exec(line);
+    // A setext underline turns the previous line into a heading, unless that line is blank or already a heading
+    const setext = !inFence && SETEXT_UNDERLINE.test(line) && index > 0 && lines[index - 1].trim()
+      && sections.length > 0 && sections[sections.length - 1].body[sections[sections.length - 1].body.length - 1] === lines[index - 1];
+    if (atx) {
+      sections.push({ level: atx[1].length, heading: atx[2], body: [] });
+    } else if (setext) {
+      const current = sections[sections.length - 1];
+      current.body.pop();
+      sections.push({ level: line.trim().startsWith('=') ? 1 : 2, heading: lines[index - 1].trim(), body: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body.push(line);
+    } else if (line.trim()) {
+      // Text before the first heading still needs a section so a setext heading there is recognised
+      sections.push({ level: 0, heading: '', body: [line] });
+    }
+  });
+
+  const features: ParsedFeature[] = [];
+  sections.forEach((section, index) => {
+    if (section.level === 0 || !section.heading) return;
+    const lines = section.body.join('\n').trim().split('\n');
+    const meta = readFeatureMeta(lines[0]);
+    const body = unescapeSectionBody((meta ? lines.slice(1) : lines).join('\n')).trim();
+    if (!body && !meta) return;
+    const parent = sections.slice(0, index).reverse().find(other => other.level > 0 && other.level < section.level);
+    const inferred = inferFeatureType(parent?.heading ?? '', section.heading);
+    features.push({
+      type: meta?.type ?? inferred.type,
+      title: meta?.title ?? section.heading,
+      icon: meta?.icon ?? inferred.icon,
+      content: body,
+      raw: `${'#'.repeat(section.level)} ${section.heading}\n${body}`,
+      anchors: anchor(section.heading, body || section.heading),
+    });
+  });
+  return features;
+};
+
+const BLOCK_TAGS = 'h1,h2,h3,h4,h5,h6,p,li,pre,blockquote,td,th,dt,dd';
+
+/**
+ * Turns an HTML page into Markdown-like text (headings, paragraphs and list items) that
+ * `parseMarkdownSections` can split. Scripts, styles and page chrome are dropped.
+ */
+export const htmlToSectionText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script,style,noscript,nav,header,footer,aside,template').forEach(node => node.remove());
+
+  const blocks: string[] = [];
+  doc.body.querySelectorAll(BLOCK_TAGS).forEach(element => {
+    // Nested blocks (a paragraph inside a list item) are read through their innermost element
+    if (element.querySelector(BLOCK_TAGS)) return;
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    const tag = element.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    else if (tag === 'li') blocks.push(`- ${text}`);
+    else blocks.push(text);
+  });
+  return blocks.join('\n\n');
+};
+
+// --- CSV and XLSX --------------------------------------------------------------------------------
+
+export interface Table {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Which columns hold what. Description columns are joined; the id column, if any, is shown as the section of the anchor.
+ */
+export interface ColumnMapping {
+  title: number;
+  description: number[];
+  type: number | null;
+  icon: number | null;
+  id: number | null;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks.
+ * The delimiter is whichever of comma, semicolon or tab is most common in the first line.
+ */
+export const parseCsv = (text: string): Table => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split('\n')[0];
+  const delimiter = DELIMITERS.reduce((best, candidate) =>
+    (firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best));
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(row => row.some(cell => cell.trim()));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(header => header.trim()), rows };
+};
+
+type XlsxModule = typeof import('xlsx');
+
+/**
+ * The first non-empty sheet of a workbook as CSV text. The library is loaded on first use.
+ */
+export const workbookToCsv = async (data: ArrayBuffer): Promise<string> => {
+  const XLSX: XlsxModule = await import('xlsx');
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.SheetNames.map(name => workbook.Sheets[name]).find(candidate => candidate['!ref']);
+  if (!sheet) throw new Error("The workbook has no data.");
+  return XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
+};
+
+const COLUMN_PATTERNS = {
+  title: /^(summary|title|name|feature|requirement|user story|story)$/i,
+  description: /(description|details|body|acceptance|notes|story text)/i,
+  type: /^(type|category|issue type|component|components|epic|labels?|area)$/i,
+  icon: /^icon$/i,
+  id: /^(id|key|issue key|issue id|identifier|ref|reference)$/i,
+};
+
+/**
+ * Guesses the mapping from the header names. Without a recognisable title column the first column is used.
+ */
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => headers.findIndex(header => pattern.test(header.trim()));
+  const title = find(COLUMN_PATTERNS.title);
+  const type = find(COLUMN_PATTERNS.type);
+  const icon = find(COLUMN_PATTERNS.icon);
+  const id = find(COLUMN_PATTERNS.id);
+  return {
+    title: title === -1 ? 0 : title,
+    description: headers
+      .map((header, index) => (COLUMN_PATTERNS.description.test(header) ? index : -1))
+      .filter(index => index !== -1 && index !== title),
+    type: type === -1 ? null : type,
+    icon: icon === -1 ? null : icon,
+    id: id === -1 ? null : id,
+  };
+};
+
+const cell = (row: string[], column: number | null) => (column === null ? '' : (row[column] ?? '').trim());
+
+/**
+ * One feature per row with a title. Several description columns are joined under their header names.
+ * The category becomes the feature type as written; without one, the type is inferred from the title.
+ */
+export const tableToFeatures = (table: Table, mapping: ColumnMapping): ParsedFeature[] =>
+  table.rows.flatMap((row, index) => {
+    const title = (row[mapping.title] ?? '').trim();
+    if (!title) return [];
+    const descriptions = mapping.description
+      .map(column => ({ header: table.headers[column], text: (row[column] ?? '').trim() }))
+      .filter(({ text }) => text);
+    const content = descriptions.length > 1
+      ? descriptions.map(({ header, text }) => `${header}: ${text}`).join('\n\n')
+      : descriptions[0]?.text ?? '';
+    const category = cell(row, mapping.type);
+    const id = cell(row, mapping.id);
+    const inferred = inferFeatureType(category, title);
+    return [{
+      type: category || inferred.type,
+      title,
+      icon: cell(row, mapping.icon) || inferred.icon,
+      content,
+      raw: row.join(' | '),
+      // Row numbers count the header as row 1, as spreadsheets do
+      anchors: [{ documentId: '', section: id || `Row ${index + 2}`, quote: title }],
+    }];
+  });
+
+// --- JSON ---------------------------------------------------------------------------------------
+
+// Bumped when the layout of the JSON export changes, so older files can still be told apart
+export const FEATURE_EXPORT_VERSION = 1;
+
+/**
+ * Reads a file written by the JSON exporter. Null when the JSON is something else, such as a tracker export.
+ */
+export const parseFeatureJson = (text: string): ParsedFeature[] | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(data) || typeof data.version !== 'number' || !Array.isArray(data.features)) return null;
+  return data.features.filter(isObject).flatMap(item => {
+    const title = str(item.title);
+    if (!title) return [];
+    const inferred = inferFeatureType(title);
+    const content = str(item.content).trim();
+    return [{
+      type: str(item.type) || inferred.type,
+      title,
+      icon: str(item.icon) || inferred.icon,
+      content,
+      raw: content,
+      // The content is escaped inside the JSON, the title usually is not
+      anchors: [{ documentId: '', section: title, quote: title }],
+    }];
+  });
+};
+
+// --- Jira and Linear exports ---------------------------------------------------------------------
+
+// Jira Cloud's v3 API returns descriptions as Atlassian Document Format, a tree of nodes with text leaves
+const adfToText = (node: unknown): string => {
+  if (typeof node === 'string') return node;
+  if (!isObject(node)) return '';
+  if (node.type === 'text') return str(node.text);
+  const children = Array.isArray(node.content) ? node.content.map(adfToText) : [];
+  const separator = ['doc', 'bulletList', 'orderedList'].includes(str(node.type)) ? '\n' : '';
+  const text = children.join(separator);
+  return node.type === 'listItem' ? `- ${text}` : text;
+};
+
+const jiraIssueToFeature = (issue: Record<string, unknown>): ParsedFeature | null => {
+  const fields = isObject(issue.fields) ? issue.fields : {};
+  const title = str(fields.summary).trim();
+  if (!title) return null;
+  const key = str(issue.key);
+  const labels = Array.isArray(fields.labels) ? fields.labels.map(str) : [];
+  const components = Array.isArray(fields.components) ? fields.components.map(component => (isObject(component) ? str(component.name) : '')) : [];
+  const { type, icon } = inferFeatureType(...labels, ...components, title);
+  return {
+    type,
+    title,
+    icon,
+    content: adfToText(fields.description).trim(),
+    raw: key ? `${key}: ${title}` : title,
+    anchors: [{ documentId: '', section: key || undefined, quote: title }],
+  };
+};
+
+const linearIssueToFeature = (issue: Record<string, unknown>): ParsedFeature | null => {
+  const title = str(issue.title).trim();
+  if (!title) return null;
+  const identifier = str(issue.identifier);
+  // Labels come as a GraphQL connection from the API and as plain names from other exports
+  const rawLabels = isObject(issue.labels) && Array.isArray(issue.labels.nodes) ? issue.labels.nodes : issue.labels;
+  const labels = Array.isArray(rawLabels) ? rawLabels.map(label => (isObject(label) ? str(label.name) : str(label))) : [];
+  const project = isObject(issue.project) ? str(issue.project.name) : str(issue.project);
+  const { type, icon } = inferFeatureType(...labels, project, title);
+  return {
+    type,
+    title,
+    icon,
+    content: str(issue.description).trim(),
+    raw: identifier ? `${identifier}: ${title}` : title,
+    anchors: [{ documentId: '', section: identifier || undefined, quote: title }],
+  };
+};
+
+// Linear's API nests issues as { data: { issues: { nodes } } }; exports and scripts often flatten that
+const findIssueList = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (!isObject(data)) return null;
+  if (Array.isArray(data.issues)) return data.issues;
+  if (Array.isArray(data.nodes)) return data.nodes;
+  if (isObject(data.issues)) return findIssueList(data.issues);
+  if (isObject(data.data)) return findIssueList(data.data);
+  return null;
+};
+
+/**
+ * Jira (REST search result or an array of issues) and Linear (API result or an array of issues) JSON exports.
+ * The tracker is recognised from the issue shape: Jira issues keep their data under `fields`.
+ */
+export const parseIssueExport = (text: string): ParsedFeature[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const issues = (findIssueList(data) ?? []).filter(isObject);
+  if (issues.length === 0) throw new Error("No issues found. Expected a Jira or Linear JSON export.");
+  const isJira = issues.some(issue => isObject(issue.fields));
+  return issues
+    .map(issue => (isJira ? jiraIssueToFeature(issue) : linearIssueToFeature(issue)))
+    .filter((feature): feature is ParsedFeature => feature !== null);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createArrayItemScanner, parsePartialJson } from './jsonStream';
+
+describe('parsePartialJson', () => {
+  it('closes a truncated object', () => {
+    expect(parsePartialJson('{"summary": "A shop", "modules": [')).toEqual({ summary: 'A shop', modules: [] });
+    expect(parsePartialJson('{"summary": "A sh')).toEqual({ summary: 'A sh' });
+  });
+
+  it('drops a key whose value has not started', () => {
+    expect(parsePartialJson('{"summary": "A shop", "modules"')).toEqual({ summary: 'A shop' });
+    expect(parsePartialJson('{"summary": "A shop", "modules": ')).toEqual({ summary: 'A shop' });
+    expect(parsePartialJson('{"summary": "A shop", "mod')).toEqual({ summary: 'A shop' });
+  });
+
+  it('drops unfinished array items whole', () => {
+    const text = '{"modules": [{"name": "Cart", "responsibilities": ["add"]}, {"name": "Pay", "responsibilities": ["ch';
+    expect(parsePartialJson(text)).toEqual({ modules: [{ name: 'Cart', responsibilities: ['add'] }] });
+    expect(parsePartialJson('{"openQuestions": ["Who pays?", "When is')).toEqual({ openQuestions: ['Who pays?'] });
+  });
+
+  it('reads brackets and escaped quotes inside strings as text', () => {
+    expect(parsePartialJson('{"summary": "Use {braces} and [brackets] \\"quoted\\"", "risks": [{"description": "a ]}')).toEqual({
+      summary: 'Use {braces} and [brackets] "quoted"',
+      risks: [],
+    });
+    // A dangling backslash would otherwise escape the closing quote
+    expect(parsePartialJson('{"summary": "ends with \\')).toEqual({ summary: 'ends with ' });
+  });
+
+  it('skips a code fence and ignores text after the value', () => {
+    expect(parsePartialJson('```json\n{"summary": "Done"}\n```')).toEqual({ summary: 'Done' });
+    expect(parsePartialJson('```json\n{"summary": "Do')).toEqual({ summary: 'Do' });
+  });
+
+  it('is null until a value starts', () => {
+    expect(parsePartialJson('')).toBeNull();
+    expect(parsePartialJson('```json\n')).toBeNull();
+  });
+
+  it('parses every prefix of a document', () => {
+    const full = JSON.stringify({ summary: 'x "y" {z}', modules: [{ name: 'A', responsibilities: ['b', 'c]'] }], openQuestions: ['q'] });
+    for (let length = 1; length <= full.length; length++) {
+      expect(parsePartialJson(full.slice(0, length))).not.toBeNull();
+    }
+    expect(parsePartialJson(full)).toEqual(JSON.parse(full));
+  });
+});
+
+describe('createArrayItemScanner', () => {
+  it('returns each item once it is complete, across fragments', () => {
+    const scanner = createArrayItemScanner<{ path: string }>('files');
+    expect(scanner.push('{"files": [{"path": "a.ts"}, {"pa')).toEqual([{ path: 'a.ts' }]);
+    expect(scanner.push('th": "b.ts"')).toEqual([]);
+    expect(scanner.push('}]}')).toEqual([{ path: 'b.ts' }]);
+  });
+
+  it('reads brackets and escaped quotes inside strings as text', () => {
+    const scanner = createArrayItemScanner<{ content: string }>('files');
+    expect(scanner.push('{"files": [{"content": "if (a) { b[0] = \\"}\\" }"}, {"content": "]"}]}')).toEqual([
+      { content: 'if (a) { b[0] = "}" }' },
+      { content: ']' },
+    ]);
+  });
+
+  it('stops at the end of the array', () => {
+    const scanner = createArrayItemScanner<{ path: string }>('files');
+    expect(scanner.push('{"files": [], "other": [{"path": "x"}]}')).toEqual([]);
+    expect(scanner.push('{"files": [{"path": "y"}]}')).toEqual([]);
+  });
+
+  it('waits for the key before reading', () => {
+    const scanner = createArrayItemScanner<{ path: string }>('files');
+    expect(scanner.push('{"plan": [{"path": "ignored"}], "fi')).toEqual([]);
+    expect(scanner.push('les": [{"path": "a"}]}')).toEqual([{ path: 'a' }]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Incrementally picks complete objects out of a JSON array while the document is still streaming.
+ * Feed it every text fragment as it arrives; it returns the items that were completed by that fragment.
+ * Only the first array under `"<key>":` is read, which is enough for model responses whose
+ * top-level property order is fixed by the response schema.
+ */
+export const createArrayItemScanner = <T>(key: string) => {
+  let buffer = '';
+  let pos = -1;          // Scan position inside buffer once the array was found
+  let done = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  const keyPattern = new RegExp(`"${key}"\\s*:\\s*\\[`);
+
+  const push = (fragment: string): T[] => {
+    buffer += fragment;
+    if (done) return [];
+
+    if (pos === -1) {
+      const match = keyPattern.exec(buffer);
+      if (!match) return [];
+      pos = match.index + match[0].length;
+    }
+
+    const items: T[] = [];
+    for (; pos < buffer.length; pos++) {
+      const char = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) itemStart = pos;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) {
+          // Closing bracket of the array itself
+          done = true;
+          break;
+        }
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, pos + 1)) as T);
+          } catch {
+            // A malformed item is skipped here; the final parse decides what to do with it
+          }
+          itemStart = -1;
+        }
+      }
+    }
+    return items;
+  };
+
+  return { push };
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+interface OpenContainer {
+  char: '{' | '[';
+  start: number;
+}
+
+/**
+ * Parses the prefix of a JSON object that is still streaming, for showing it while it arrives.
+ * Array items are only kept once complete, so consumers never see a half-written item; an unfinished
+ * string directly on an object (a summary, say) is kept as far as it got. Null until something parses.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const begin = text.search(/[{[]/);
+  if (begin === -1) return null;
+  const source = text.slice(begin);
+
+  const stack: OpenContainer[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === '{' || char === '[') {
+      stack.push({ char, start: i });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      // Anything after the top-level value is not ours to read
+      if (stack.length === 0) return tryParse(source.slice(0, i + 1));
+    }
+  }
+
+  let cut = source.length;
+  let open = stack;
+  // The outermost container sitting in an array is an unfinished item: it is dropped whole
+  const unfinishedItem = stack.findIndex((_, index) => index > 0 && stack[index - 1].char === '[');
+  if (unfinishedItem !== -1) {
+    cut = stack[unfinishedItem].start;
+    open = stack.slice(0, unfinishedItem);
+  } else if (inString) {
+    const before = source.slice(0, stringStart).trimEnd();
+    // Unfinished array strings and object keys are dropped; an unfinished value is closed where it stopped
+    if (open[open.length - 1]?.char === '[' || /[{,]$/.test(before)) cut = stringStart;
+  }
+
+  let prefix = source.slice(0, cut);
+  // Close an unfinished value where it stopped; a dangling backslash would escape the closing quote
+  if (inString && cut === source.length) prefix = `${escaped ? prefix.slice(0, -1) : prefix}"`;
+  // A key whose value has not started yet
+  if (open[open.length - 1]?.char === '{') prefix = prefix.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1');
+  prefix = prefix.replace(/,\s*$/, '');
+  return tryParse(prefix + open.map(container => (container.char === '{' ? '}' : ']')).reverse().join(''));
+};
+
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectFile } from '../types';
+import { collectScaffoldEntries, createZip, normalizeArchivePath } from './projectExport';
+
+const file = (path: string, content = ''): ProjectFile => ({ path, content, language: 'typescript' });
+
+interface ZipEntry {
+  path: string;
+  content: string;
+  crc: number;
+  flags: number;
+}
+
+// Reads a stored (uncompressed) archive back through its central directory, as unzip tools do
+const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({
+      path: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      content: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(position + 16, true),
+      flags: view.getUint16(position + 8, true),
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('normalizeArchivePath', () => {
+  it('turns backslashes into slashes and drops drive letters and leading slashes', () => {
+    expect(normalizeArchivePath('src\\components\\App.tsx')).toBe('src/components/App.tsx');
+    expect(normalizeArchivePath('C:\\project\\index.ts')).toBe('project/index.ts');
+    expect(normalizeArchivePath('/etc/passwd')).toBe('etc/passwd');
+    expect(normalizeArchivePath('//server/share/file.txt')).toBe('server/share/file.txt');
+  });
+
+  it('resolves . and .. without climbing above the root', () => {
+    expect(normalizeArchivePath('./src/./lib/../index.ts')).toBe('src/index.ts');
+    expect(normalizeArchivePath('../../../etc/passwd')).toBe('etc/passwd');
+    expect(normalizeArchivePath('src/../../secrets.env')).toBe('secrets.env');
+    expect(normalizeArchivePath('..\\..\\boot.ini')).toBe('boot.ini');
+  });
+
+  it('strips characters archive tools reject and empty segments', () => {
+    expect(normalizeArchivePath('src//what?.ts')).toBe('src/what.ts');
+    expect(normalizeArchivePath('a\u0000b/<c>|d*.txt')).toBe('ab/cd.txt');
+    expect(normalizeArchivePath(' docs / notes.md ')).toBe('docs/notes.md');
+    expect(normalizeArchivePath('../..')).toBe('');
+  });
+});
+
+describe('collectScaffoldEntries', () => {
+  it('adds the README and the demo after the files', () => {
+    const entries = collectScaffoldEntries({ files: [file('/src/index.ts', 'export {};')], readme: '# App', demoHtml: '<html></html>' });
+    expect(entries).toEqual([
+      { path: 'src/index.ts', content: 'export {};' },
+      { path: 'README.md', content: '# App' },
+      { path: 'demo/index.html', content: '<html></html>' },
+    ]);
+  });
+
+  it('keeps a generated README and writes the separate one next to it', () => {
+    const entries = collectScaffoldEntries({ files: [file('readme.md', 'generated')], readme: 'written', demoHtml: '' });
+    expect(entries.map(entry => `${entry.path}: ${entry.content}`)).toEqual([
+      'readme.md: generated',
+      'README.generated.md: written',
+      'demo/index.html: ',
+    ]);
+  });
+
+  it('numbers paths that collapse onto the same name', () => {
+    const entries = collectScaffoldEntries({
+      files: [file('src/a.ts'), file('src\\A.ts'), file('./src/a.ts'), file('Makefile'), file('makefile'), file('..')],
+      readme: '',
+      demoHtml: '',
+    });
+    expect(entries.map(entry => entry.path)).toEqual([
+      'src/a.ts', 'src/A (2).ts', 'src/a (3).ts', 'Makefile', 'makefile (2)', 'untitled.txt', 'README.md', 'demo/index.html',
+    ]);
+  });
+});
+
+describe('createZip', () => {
+  it('writes every entry with its UTF-8 name, content and checksum', async () => {
+    const blob = createZip([
+      { path: 'hello.txt', content: 'hello' },
+      { path: 'docs/Übersicht.md', content: 'Größe ✓' },
+      { path: 'empty.txt', content: '' },
+    ], new Date(2024, 0, 2, 3, 4, 6));
+    expect(blob.type).toBe('application/zip');
+
+    const entries = await readZip(blob);
+    expect(entries.map(({ path, content }) => ({ path, content }))).toEqual([
+      { path: 'hello.txt', content: 'hello' },
+      { path: 'docs/Übersicht.md', content: 'Größe ✓' },
+      { path: 'empty.txt', content: '' },
+    ]);
+    expect(entries[0].crc).toBe(0x3610a686);
+    expect(entries[2].crc).toBe(0);
+    entries.forEach(entry => expect(entry.flags & 0x0800).toBe(0x0800));
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const blob = createZip([]);
+    expect(blob.size).toBe(22);
+    expect(await readZip(blob)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { CodeScaffold } from "../types";
+
+interface ArchiveEntry {
+  path: string;
+  content: string;
+}
+
+/**
+ * Turns a model-supplied path into a safe relative archive path.
+ * Backslashes become slashes, drive letters and leading slashes are dropped,
+ * and `.`/`..` segments are resolved without ever climbing above the archive root.
+ */
+export const normalizeArchivePath = (rawPath: string): string => {
+  const segments: string[] = [];
+  rawPath
+    .replace(/\\/g, '/')
+    .replace(/^[a-zA-Z]:/, '')
+    .split('/')
+    .forEach(segment => {
+      const clean = segment.replace(/[\u0000-\u001f<>:"|?*]/g, '').trim();
+      if (!clean || clean === '.') return;
+      if (clean === '..') {
+        segments.pop();
+        return;
+      }
+      segments.push(clean);
+    });
+  return segments.join('/');
+};
+
+/**
+ * Collects every scaffold file plus the README and the demo into archive entries.
+ * Paths that collapse onto the same name after normalisation get a numeric suffix.
+ */
+export const collectScaffoldEntries = (scaffold: CodeScaffold): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  const used = new Set<string>();
+
+  const add = (rawPath: string, content: string) => {
+    const normalized = normalizeArchivePath(rawPath) || 'untitled.txt';
+    let path = normalized;
+    let counter = 2;
+    while (used.has(path.toLowerCase())) {
+      const dot = normalized.lastIndexOf('.');
+      const slash = normalized.lastIndexOf('/');
+      path = dot > slash + 1
+        ? `${normalized.slice(0, dot)} (${counter})${normalized.slice(dot)}`
+        : `${normalized} (${counter})`;
+      counter++;
+    }
+    used.add(path.toLowerCase());
+    entries.push({ path, content });
+  };
+
+  scaffold.files.forEach(file => add(file.path, file.content));
+  // A README among the generated files wins the name; the separately written one is kept next to it
+  add(used.has('readme.md') ? 'README.generated.md' : 'README.md', scaffold.readme);
+  add('demo/index.html', scaffold.demoHtml);
+
+  return entries;
+};
+
+// --- Minimal ZIP writer (stored, no compression) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive in memory. Entries are stored uncompressed with UTF-8 names,
+ * which every unzip tool supports and keeps the writer dependency-free.
+ */
+export const createZip = (entries: ArchiveEntry[], modified: Date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+    const data = encoder.encode(entry.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);           // version needed
+    local.setUint16(6, 0x0800, true);       // UTF-8 file names
+    local.setUint16(8, 0, true);            // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);         // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);    // local header offset
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/**
+ * Hands a blob to the browser as a file download.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Packs the whole scaffold into a ZIP and hands it to the browser as a download.
+ */
+export const downloadScaffoldZip = (scaffold: CodeScaffold, fileName = 'devstack-project.zip') => {
+  downloadBlob(createZip(collectScaffoldEntries(scaffold)), fileName);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseProjectFile } from './projectStorage';
+
+const projectFile = (project: Record<string, unknown>) => JSON.stringify({
+  format: 'devstack-project',
+  version: 1,
+  project: {
+    features: [{ type: 'Core', title: 'Login', icon: 'FileText', content: 'Sign in', raw: 'Sign in' }],
+    techStack: { language: 'TypeScript', frontendFramework: 'React', backendFramework: 'Express' },
+    ...project,
+  },
+});
+
+describe('parseProjectFile', () => {
+  it('reads a well-formed project with a contract and diagrams', () => {
+    const project = parseProjectFile(projectFile({
+      contract: { entities: [{ name: 'User', description: 'A customer', fields: [{ name: 'id', type: 'uuid', required: true }] }], openApi: '{}' },
+      diagrams: [{ kind: 'component', title: 'Components', source: 'flowchart TD' }],
+    }));
+    expect(project.techStack.language).toBe('TypeScript');
+    expect(project.contract?.entities[0].fields[0].name).toBe('id');
+    expect(project.diagrams).toHaveLength(1);
+  });
+
+  it('rejects a tech stack with non-string fields', () => {
+    expect(() => parseProjectFile(projectFile({ techStack: { language: 'TypeScript', frontendFramework: 42, backendFramework: 'Express' } })))
+      .toThrow('malformed tech stack');
+    expect(() => parseProjectFile(projectFile({ techStack: { language: 'TypeScript', frontendFramework: 'React', backendFramework: 'Express', orm: ['Prisma'] } })))
+      .toThrow('malformed tech stack');
+  });
+
+  it('rejects contract entities with malformed fields', () => {
+    expect(() => parseProjectFile(projectFile({
+      contract: { entities: [{ name: 'User', description: 'A customer', fields: [{ name: 'id' }] }], openApi: '{}' },
+    }))).toThrow('malformed API contract');
+    expect(() => parseProjectFile(projectFile({ contract: { entities: 'User', openApi: '{}' } }))).toThrow('malformed API contract');
+  });
+
+  it('rejects diagrams with an unknown kind or missing source', () => {
+    expect(() => parseProjectFile(projectFile({ diagrams: [{ kind: 'gantt', title: 'Plan', source: 'gantt' }] }))).toThrow('malformed diagrams');
+    expect(() => parseProjectFile(projectFile({ diagrams: [{ kind: 'sequence', title: 'Login' }] }))).toThrow('malformed diagrams');
+  });
+
+  it('keeps files from before contracts and diagrams existed', () => {
+    const project = parseProjectFile(projectFile({}));
+    expect(project.contract).toBeNull();
+    expect(project.diagrams).toBeUndefined();
+  });
+});
@@ -0,0 +1,220 @@
+import { ApiContract, ArchitectureDiagram, ChatMessage, CodeScaffold, ParsedFeature, ProjectSnapshot, ProjectSummary, SavedProject, ScaffoldVersion, SourceDocument, TechStack } from "../types";
+import { createId } from "./ids";
+import { normalizeAnalysis } from "./analysis";
+import { DIAGRAM_KINDS } from "./diagrams";
+
+const DB_NAME = 'devstack-architect';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const LAST_PROJECT_KEY = 'devstack.lastProject';
+
+// Marker and version written into exported project files
+const EXPORT_FORMAT = 'devstack-project';
+const EXPORT_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request against the projects store and resolves with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Lists stored projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<SavedProject[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<SavedProject | null> => {
+  const project = await withStore<SavedProject | undefined>('readonly', store => store.get(id));
+  // Older projects stored the analysis as free text
+  return project ? { ...project, analysis: normalizeAnalysis(project.analysis) } : null;
+};
+
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    setLastProjectId(null);
+  }
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(LAST_PROJECT_KEY, id);
+    } else {
+      localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+  } catch {
+    // Ignore, the project simply won't reopen automatically
+  }
+};
+
+/**
+ * Serialises a project into the single-file JSON export format.
+ */
+export const serializeProject = (project: SavedProject): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, project }, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFeature = (value: unknown) => isObject(value) && typeof value.title === 'string' && typeof value.content === 'string';
+
+const isMessage = (value: unknown) =>
+  isObject(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+
+const isDocument = (value: unknown) => isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const isScaffold = (value: unknown) =>
+  isObject(value)
+  && Array.isArray(value.files)
+  && value.files.every(file => isObject(file) && typeof file.path === 'string' && typeof file.content === 'string')
+  && typeof value.readme === 'string'
+  && typeof value.demoHtml === 'string';
+
+const OPTIONAL_STACK_FIELDS = ['database', 'orm', 'authProvider', 'deploymentTarget', 'testFramework'];
+
+const isTechStack = (value: unknown) =>
+  isObject(value)
+  && ['language', 'frontendFramework', 'backendFramework'].every(key => typeof value[key] === 'string')
+  && OPTIONAL_STACK_FIELDS.every(key => value[key] === undefined || typeof value[key] === 'string');
+
+const isDataField = (value: unknown) =>
+  isObject(value) && typeof value.name === 'string' && typeof value.type === 'string' && typeof value.required === 'boolean';
+
+const isContract = (value: unknown) =>
+  isObject(value)
+  && typeof value.openApi === 'string'
+  && Array.isArray(value.entities)
+  && value.entities.every(entity =>
+    isObject(entity) && typeof entity.name === 'string' && typeof entity.description === 'string'
+    && Array.isArray(entity.fields) && entity.fields.every(isDataField));
+
+const isDiagram = (value: unknown) =>
+  isObject(value)
+  && DIAGRAM_KINDS.some(({ kind }) => kind === value.kind)
+  && typeof value.title === 'string'
+  && typeof value.source === 'string';
+
+const isScaffoldVersion = (value: unknown) => isObject(value) && typeof value.id === 'string' && isScaffold(value.scaffold);
+
+/**
+ * A list the UI renders item by item; one malformed item would crash it, so the whole file is rejected.
+ * A missing list is fine, it stands for data from before the feature existed.
+ */
+const checkList = <T>(value: unknown, isValid: (item: unknown) => boolean, label: string): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || !value.every(isValid)) {
+    throw new Error(`Project file has malformed ${label}.`);
+  }
+  return value as T[];
+};
+
+/**
+ * Reads an exported project file. The imported project always gets a fresh id
+ * so importing the same file twice never overwrites an existing workspace.
+ */
+export const parseProjectFile = (text: string): SavedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT || !isObject(data.project)) {
+    throw new Error("This file is not a DevStack Architect project export.");
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error("Project file was exported by a newer version of the app.");
+  }
+
+  const project = data.project;
+  if (!Array.isArray(project.features) || !isObject(project.techStack)) {
+    throw new Error("Project file is missing its features or tech stack.");
+  }
+
+  if (!isTechStack(project.techStack)) {
+    throw new Error("Project file has a malformed tech stack.");
+  }
+  if (project.codeScaffold != null && !isScaffold(project.codeScaffold)) {
+    throw new Error("Project file has a malformed code scaffold.");
+  }
+  if (project.contract != null && !isContract(project.contract)) {
+    throw new Error("Project file has a malformed API contract.");
+  }
+  const features = checkList<ParsedFeature>(project.features, isFeature, 'features (each needs a title and content)') ?? [];
+
+  const snapshot: ProjectSnapshot = {
+    // Type and icon only pick the badge and icon, so older or hand-written entries get the editor's defaults
+    features: features.map(feature => ({
+      ...feature,
+      type: typeof feature.type === 'string' ? feature.type : 'Core',
+      icon: typeof feature.icon === 'string' ? feature.icon : 'FileText',
+    })),
+    techStack: project.techStack as unknown as TechStack,
+    documents: checkList<SourceDocument>(project.documents, isDocument, 'source documents'),
+    analysis: normalizeAnalysis(project.analysis),
+    codeScaffold: project.codeScaffold != null ? project.codeScaffold as unknown as CodeScaffold : null,
+    messages: checkList<ChatMessage>(project.messages, isMessage, "chat messages (each needs a 'user' or 'model' role and text)") ?? [],
+    scaffoldVersions: checkList<ScaffoldVersion>(project.scaffoldVersions, isScaffoldVersion, 'scaffold versions'),
+    contract: project.contract != null ? project.contract as unknown as ApiContract : null,
+    diagrams: checkList<ArchitectureDiagram>(project.diagrams, isDiagram, 'diagrams'),
+    analysisStale: project.analysisStale === true,
+    scaffoldStale: project.scaffoldStale === true,
+  };
+
+  const now = Date.now();
+  return {
+    ...snapshot,
+    id: createId(),
+    name: typeof project.name === 'string' && project.name.trim() ? project.name : 'Imported project',
+    createdAt: typeof project.createdAt === 'number' ? project.createdAt : now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,11 @@
+export const createAbortError = (): Error => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Stops a stream loop once its signal fired. Some SDKs keep yielding buffered chunks after an abort.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
@@ -0,0 +1,92 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ChatOptions, GenerateRequest, LLMProvider, ModelTier, ProjectChat } from "./types";
+import { throwIfAborted } from "./abort";
+
+// Models configuration
+const MODELS: Record<ModelTier, string> = {
+  fast: process.env.GEMINI_FAST_MODEL || 'gemini-flash-lite-latest',
+  smart: process.env.GEMINI_SMART_MODEL || 'gemini-3-pro-preview',
+};
+
+export const createGeminiProvider = (): LLMProvider => {
+  // Created lazily so that offline providers never need an API key
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+  };
+
+  const toParams = (request: GenerateRequest) => {
+    const parts = request.attachment
+      ? [
+          { text: request.prompt },
+          { inlineData: { mimeType: request.attachment.mimeType, data: request.attachment.data } }
+        ]
+      : [{ text: request.prompt }];
+
+    return {
+      model: MODELS[request.tier],
+      contents: { role: 'user', parts },
+      config: {
+        abortSignal: request.signal,
+        ...(request.responseSchema
+          ? { responseMimeType: "application/json", responseSchema: request.responseSchema }
+          : {}),
+      },
+    };
+  };
+
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const response: GenerateContentResponse = await getClient().models.generateContent(toParams(request));
+    return response.text || '';
+  };
+
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    const stream = await getClient().models.generateContentStream(toParams(request));
+    for await (const chunk of stream) {
+      throwIfAborted(request.signal);
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  const createChat = (options: ChatOptions): ProjectChat => {
+    const chat = getClient().chats.create({
+      model: MODELS.smart,
+      config: {
+        systemInstruction: options.systemInstruction,
+      },
+      history: (options.history || []).map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+    });
+
+    // Per-message config replaces the chat config, so the system instruction has to be repeated
+    const messageConfig = (signal?: AbortSignal) => ({
+      systemInstruction: options.systemInstruction,
+      abortSignal: signal,
+    });
+
+    return {
+      model: MODELS.smart,
+      sendMessage: async (message: string, signal?: AbortSignal) => {
+        const result = await chat.sendMessage({ message, config: messageConfig(signal) });
+        return result.text || '';
+      },
+      sendMessageStream: async function* (message: string, signal?: AbortSignal) {
+        const stream = await chat.sendMessageStream({ message, config: messageConfig(signal) });
+        for await (const chunk of stream) {
+          throwIfAborted(signal);
+          if (chunk.text) yield chunk.text;
+        }
+      },
+    };
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    generate,
+    generateStream,
+    createChat,
+  };
+};
@@ -0,0 +1,53 @@
+import { LLMProvider, ProviderId } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export * from "./types";
+export * from "./abort";
+
+const STORAGE_KEY = 'devstack.provider';
+
+const FACTORIES: Record<ProviderId, () => LLMProvider> = {
+  'gemini': createGeminiProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'mock': createMockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(FACTORIES) as ProviderId[];
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in FACTORIES;
+
+const instances: Partial<Record<ProviderId, LLMProvider>> = {};
+
+export const getProvider = (id: ProviderId): LLMProvider => {
+  if (!instances[id]) {
+    instances[id] = FACTORIES[id]();
+  }
+  return instances[id]!;
+};
+
+// A choice saved in the browser wins over the build-time default (LLM_PROVIDER)
+const readInitialProviderId = (): ProviderId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch {
+    // localStorage can be unavailable in sandboxed iframes
+  }
+  return isProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+};
+
+let activeProviderId: ProviderId = readInitialProviderId();
+
+export const getActiveProvider = (): LLMProvider => getProvider(activeProviderId);
+
+export const setActiveProvider = (id: ProviderId) => {
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Ignore, the choice just won't survive a reload
+  }
+};
@@ -0,0 +1,299 @@
+import { ApiContract, ArchitectureDiagram, CodeScaffold, ParsedFeature, ProjectFile, RequirementsAnalysis, ScaffoldPlan, StackRecommendation } from "../../types";
+
+// Deterministic responses used by the mock provider for offline UI development.
+
+export const MOCK_FEATURES: ParsedFeature[] = [
+  {
+    type: 'Security',
+    title: 'User Authentication',
+    icon: 'ShieldCheck',
+    content: 'Users sign up and log in with email and password. Sessions expire after 30 minutes of inactivity.',
+    raw: ''
+  },
+  {
+    type: 'Core',
+    title: 'Project Dashboard',
+    icon: 'LayoutDashboard',
+    content: 'A dashboard lists the projects a user belongs to with their status and last activity.',
+    raw: ''
+  },
+  {
+    type: 'API',
+    title: 'Task Management',
+    icon: 'ListChecks',
+    content: 'Users create, assign and close tasks inside a project. Tasks have a title, assignee, due date and priority.',
+    raw: ''
+  }
+];
+
+export const MOCK_ANALYSIS: RequirementsAnalysis = {
+  architectureStyle: 'Modular monolith',
+  summary: 'Mock analysis (offline provider). The requirements describe a small multi-user project tracker: one backend with a module per requirement area and a single-page frontend.',
+  modules: [
+    { name: 'Auth', responsibilities: ['Sign up and log in', 'Issue and refresh short-lived tokens'], featureTitles: ['User Authentication'] },
+    { name: 'Projects', responsibilities: ['List the projects a user belongs to', 'Track project status and activity'], featureTitles: ['Project Dashboard'] },
+    { name: 'Tasks', responsibilities: ['Create, assign and close tasks'], featureTitles: ['Task Management'] },
+  ],
+  entities: [
+    { name: 'User', description: 'Someone who signs in.', relations: ['belongs to many Projects'] },
+    { name: 'Project', description: 'A group of tasks with a status.', relations: ['has many Tasks', 'has many Users'] },
+    { name: 'Task', description: 'A unit of work with assignee, due date and priority.', relations: ['belongs to a Project', 'assigned to a User'] },
+  ],
+  integrations: [{ name: 'Email service', purpose: 'Sign-up confirmation and password reset mails.' }],
+  nonFunctional: [
+    { category: 'Security', description: 'Sessions expire after 30 minutes of inactivity.' },
+    { category: 'Performance', description: 'Route-level code splitting keeps the dashboard fast.' },
+  ],
+  risks: [
+    { description: 'Session expiry and token refresh interact in subtle ways.', severity: 'medium', mitigation: 'Cover the refresh flow with integration tests.' },
+    { description: 'The dashboard query grows with the number of projects.', severity: 'low', mitigation: 'Paginate and index by last activity.' },
+  ],
+  openQuestions: ['Can a task belong to more than one project?', 'Who is allowed to close a task?'],
+};
+
+// Deliberately not in ranked order, the service sorts them
+export const MOCK_RECOMMENDATIONS: StackRecommendation[] = [
+  {
+    stack: { language: 'Python', frontendFramework: 'Vue', backendFramework: 'Django', database: 'PostgreSQL', orm: 'Django ORM', testFramework: 'Pytest' },
+    scores: { realtime: 5, dataModel: 9, teamLanguage: 6, hosting: 7 },
+    notes: {
+      realtime: 'Live task updates need Django Channels on top.',
+      dataModel: 'Projects, members and tasks map cleanly onto Django models.',
+      teamLanguage: 'Mock provider: no team preference given.',
+      hosting: 'Runs anywhere a container runs.',
+    },
+    rationale: 'Mock recommendation. The admin and ORM cover most of the CRUD, at the cost of a second language next to the frontend.',
+  },
+  {
+    stack: { language: 'TypeScript', frontendFramework: 'React', backendFramework: 'NestJS', database: 'PostgreSQL', orm: 'Prisma', deploymentTarget: 'Docker Compose', testFramework: 'Vitest' },
+    scores: { realtime: 8, dataModel: 8, teamLanguage: 9, hosting: 8 },
+    notes: {
+      realtime: 'NestJS gateways push task changes over websockets.',
+      dataModel: 'Relational data with a typed Prisma schema.',
+      teamLanguage: 'One language across frontend and backend.',
+      hosting: 'Two containers and a database.',
+    },
+    rationale: 'Mock recommendation. Shared types between frontend and backend and a module per requirement area.',
+  },
+  {
+    stack: { language: 'Go', frontendFramework: 'Svelte', backendFramework: 'Gin (Go)', database: 'PostgreSQL', orm: 'GORM', deploymentTarget: 'Google Cloud Run' },
+    scores: { realtime: 7, dataModel: 6, teamLanguage: 4, hosting: 9 },
+    notes: {
+      realtime: 'Goroutines make server-sent events cheap.',
+      dataModel: 'GORM is thinner than the alternatives, more hand-written queries.',
+      teamLanguage: 'Go is less common in small teams.',
+      hosting: 'A single static binary, fast cold starts.',
+    },
+    rationale: 'Mock recommendation. Lean and cheap to host, with more code to write by hand.',
+  },
+];
+
+const MOCK_COMPLEXITIES = ['medium', 'low', 'high'];
+
+// One assessment per "=== Stack N ===" block in the comparison prompt
+export const mockStackComparison = (prompt: string) => {
+  const count = (prompt.match(/=== Stack \d+ ===/g) || []).length;
+  return {
+    assessments: Array.from({ length: count }, (_, index) => ({
+      complexity: MOCK_COMPLEXITIES[index % MOCK_COMPLEXITIES.length],
+      complexityNotes: `Mock assessment of stack ${index + 1}.`,
+      risks: [`Mock risk for stack ${index + 1}.`],
+    })),
+    differences: ['Mock difference: the stacks differ in language and hosting.'],
+  };
+};
+
+// Findings for the first features of the review prompt, so the mock also fits hand-written features
+export const mockRequirementsReview = (prompt: string) => {
+  const section = prompt.split('Requirements:')[1]?.split('Report the quality')[0] || '';
+  const titles = [...section.matchAll(/^\s*- ([^:\n]+):/gm)].map(match => match[1]);
+  const findings = [
+    {
+      category: 'acceptanceCriteria',
+      severity: 'high',
+      issue: 'Mock finding: there is no measurable definition of done.',
+      question: 'Which observable outcome tells us this feature works as intended?',
+    },
+    {
+      category: 'nonFunctional',
+      severity: 'medium',
+      issue: 'Mock finding: expected load and response times are not stated.',
+      question: 'How many users will use this at the same time, and how fast must it respond?',
+    },
+    {
+      category: 'undefinedRole',
+      severity: 'low',
+      issue: 'Mock finding: it is unclear who may perform this action.',
+      question: 'Which user roles are allowed to use this feature?',
+    },
+  ];
+  return { findings: titles.slice(0, findings.length).map((featureTitle, index) => ({ ...findings[index], featureTitle })) };
+};
+
+export const MOCK_SCAFFOLD: CodeScaffold = {
+  files: [
+    {
+      path: 'backend/package.json',
+      content: JSON.stringify({ name: 'mock-backend', version: '0.0.0', scripts: { start: 'node dist/main.js' } }, null, 2),
+      language: 'json',
+      featureTitles: []
+    },
+    {
+      path: 'backend/src/main.ts',
+      content: "import { createServer } from 'http';\n\ncreateServer((_req, res) => {\n  res.end('ok');\n}).listen(3001);\n",
+      language: 'typescript',
+      featureTitles: []
+    },
+    {
+      path: 'backend/src/modules/tasks/tasks.service.ts',
+      content: "export interface Task {\n  id: string;\n  title: string;\n}\n\nexport class TasksService {\n  private tasks: Task[] = [];\n\n  findAll(): Task[] {\n    return this.tasks;\n  }\n}\n",
+      language: 'typescript',
+      featureTitles: ['Task Management']
+    },
+    {
+      path: 'frontend/package.json',
+      content: JSON.stringify({ name: 'mock-frontend', version: '0.0.0', scripts: { dev: 'vite' } }, null, 2),
+      language: 'json',
+      featureTitles: []
+    },
+    {
+      path: 'frontend/src/App.tsx',
+      // Imports a component that was never generated, so the validation and repair flow has work to do
+      content: "import { Dashboard } from './components/Dashboard';\n\nexport default function App() {\n  return <Dashboard title=\"Project Dashboard\" />;\n}\n",
+      language: 'typescript',
+      featureTitles: ['Project Dashboard']
+    }
+  ],
+  readme: '# Mock Project\n\nGenerated by the offline mock provider.\n\n## Run\n\n```\ncd backend && npm start\ncd frontend && npm run dev\n```\n',
+  demoHtml: `<!DOCTYPE html>
+<html>
+<head><script src="https://cdn.tailwindcss.com"></script></head>
+<body class="bg-slate-100 p-8 font-sans">
+  <h1 class="text-2xl font-bold">Mock Prototype</h1>
+  <p class="text-slate-600 mt-2">Generated by the offline mock provider.</p>
+</body>
+</html>`
+};
+
+export const MOCK_PLAN: ScaffoldPlan = {
+  architecture: 'A Node backend with one module per requirement area and a React frontend talking to it over REST.',
+  files: MOCK_SCAFFOLD.files.map(file => ({
+    path: file.path,
+    language: file.language,
+    purpose: `Mock purpose of ${file.path}`,
+    featureTitles: file.featureTitles || [],
+  })),
+};
+
+// Picks the files listed under "Write these files now" in a batch prompt
+export const mockFileBatch = (prompt: string): ProjectFile[] => {
+  const section = prompt.split('Write these files now:')[1]?.split('Instructions:')[0] || '';
+  return MOCK_SCAFFOLD.files.filter(file => section.includes(`- ${file.path}:`));
+};
+
+export const MOCK_DIAGRAMS: ArchitectureDiagram[] = [
+  {
+    kind: 'component',
+    title: 'Components',
+    source: 'flowchart LR\n  web["Frontend (React)"] --> api["REST API"]\n  api --> auth["Auth module"]\n  api --> tasks["Tasks module"]\n  auth --> db[("Database")]\n  tasks --> db',
+  },
+  {
+    kind: 'deployment',
+    title: 'Deployment',
+    source: 'flowchart TB\n  browser["Browser"] --> cdn["Static hosting"]\n  subgraph cluster["Container host"]\n    api["API container"]\n  end\n  browser --> api\n  api --> db[("Managed database")]',
+  },
+  {
+    kind: 'sequence',
+    title: 'Create a task',
+    source: 'sequenceDiagram\n  actor User\n  User->>Frontend: Submit task form\n  Frontend->>API: POST /tasks\n  API->>Database: INSERT task\n  Database-->>API: task id\n  API-->>Frontend: 201 Created\n  Frontend-->>User: Show task in list',
+  },
+];
+
+const idField = { name: 'id', type: 'uuid', required: true, unique: true };
+
+const crud = (name: string, path: string) => ({
+  [path]: {
+    get: { operationId: `list${name}s`, summary: `List ${name.toLowerCase()}s`, responses: { '200': { description: 'OK' } } },
+    post: { operationId: `create${name}`, summary: `Create a ${name.toLowerCase()}`, responses: { '201': { description: 'Created' } } },
+  },
+  [`${path}/{id}`]: {
+    get: { operationId: `get${name}`, summary: `Get a ${name.toLowerCase()}`, responses: { '200': { description: 'OK' } } },
+    patch: { operationId: `update${name}`, summary: `Update a ${name.toLowerCase()}`, responses: { '200': { description: 'OK' } } },
+    delete: { operationId: `delete${name}`, summary: `Delete a ${name.toLowerCase()}`, responses: { '204': { description: 'Deleted' } } },
+  },
+});
+
+export const MOCK_CONTRACT: ApiContract = {
+  entities: [
+    {
+      name: 'User',
+      description: 'Someone who signs in.',
+      fields: [idField, { name: 'email', type: 'string', required: true, unique: true }, { name: 'passwordHash', type: 'string', required: true }],
+    },
+    {
+      name: 'Project',
+      description: 'A group of tasks with a status.',
+      fields: [idField, { name: 'name', type: 'string', required: true }, { name: 'status', type: 'enum', required: true }],
+    },
+    {
+      name: 'Task',
+      description: 'A unit of work with assignee, due date and priority.',
+      fields: [
+        idField,
+        { name: 'title', type: 'string', required: true },
+        { name: 'projectId', type: 'uuid', required: true, references: 'Project' },
+        { name: 'assigneeId', type: 'uuid', required: false, references: 'User' },
+        { name: 'dueDate', type: 'date', required: false },
+      ],
+    },
+  ],
+  openApi: JSON.stringify({
+    openapi: '3.0.3',
+    info: { title: 'Mock Project API', version: '1.0.0' },
+    paths: {
+      '/auth/login': { post: { operationId: 'login', summary: 'Log in with email and password', responses: { '200': { description: 'Session created' } } } },
+      ...crud('Project', '/projects'),
+      ...crud('Task', '/tasks'),
+    },
+  }),
+};
+
+export const MOCK_EDIT_PROPOSAL = {
+  reply: 'Mock edit proposal: moved the backend port into an environment variable and added a health check.',
+  edits: [
+    {
+      action: 'modify',
+      path: 'backend/src/main.ts',
+      content: "import { createServer } from 'http';\nimport { health } from './health';\n\nconst port = Number(process.env.PORT) || 3001;\n\ncreateServer((req, res) => {\n  if (req.url === '/health') return health(res);\n  res.end('ok');\n}).listen(port);\n",
+      language: 'typescript',
+      description: 'Read the port from PORT and route /health'
+    },
+    {
+      action: 'create',
+      path: 'backend/src/health.ts',
+      content: "import { ServerResponse } from 'http';\n\nexport const health = (res: ServerResponse) => {\n  res.setHeader('Content-Type', 'application/json');\n  res.end(JSON.stringify({ status: 'ok' }));\n};\n",
+      language: 'typescript',
+      description: 'Health check handler'
+    }
+  ]
+};
+
+export const MOCK_REPAIR = {
+  files: [
+    {
+      path: 'frontend/src/App.tsx',
+      content: "import { Dashboard } from './components/Dashboard';\n\nexport default function App() {\n  return <Dashboard title=\"Project Dashboard\" />;\n}\n",
+      language: 'typescript',
+      featureTitles: ['Project Dashboard']
+    },
+    {
+      path: 'frontend/src/components/Dashboard.tsx',
+      content: "export const Dashboard = ({ title }: { title: string }) => <h1>{title}</h1>;\n",
+      language: 'typescript',
+      featureTitles: ['Project Dashboard']
+    }
+  ]
+};
+
+export const mockChatReply = (turn: number, message: string): string =>
+  `Mock architect reply #${turn}. You asked: "${message}". Connect a real provider for actual answers.`;
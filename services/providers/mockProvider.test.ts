@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isAbortError } from './abort';
+import { createMockProvider } from './mockProvider';
+
+const request = (signal?: AbortSignal) => ({ task: 'analyzeRequirements' as const, tier: 'fast' as const, prompt: 'Analyze', signal });
+
+describe('mock provider cancellation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers after its latency', async () => {
+    const answer = createMockProvider().generate(request());
+    await vi.runAllTimersAsync();
+    expect(JSON.parse(await answer)).toHaveProperty('summary');
+  });
+
+  it('rejects as soon as the signal aborts and clears its timer', async () => {
+    const controller = new AbortController();
+    const answer = createMockProvider().generate(request(controller.signal));
+    expect(vi.getTimerCount()).toBe(1);
+
+    controller.abort();
+    const error = await answer.catch((caught: unknown) => caught);
+    expect(isAbortError(error)).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects at once for a signal that already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createMockProvider().generate(request(controller.signal))).rejects.toMatchObject({ name: 'AbortError' });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('stops a stream between chunks', async () => {
+    const controller = new AbortController();
+    const stream = createMockProvider().generateStream(request(controller.signal));
+    const first = stream.next();
+    await vi.runOnlyPendingTimersAsync();
+    expect((await first).done).toBe(false);
+
+    const second = stream.next();
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { ChatOptions, GenerateRequest, LLMProvider, LLMTask, ProjectChat } from "./types";
+import { MOCK_ANALYSIS, MOCK_CONTRACT, MOCK_DIAGRAMS, MOCK_EDIT_PROPOSAL, MOCK_FEATURES, MOCK_PLAN, MOCK_RECOMMENDATIONS, MOCK_REPAIR, MOCK_SCAFFOLD, mockChatReply, mockFileBatch, mockRequirementsReview, mockStackComparison } from "./mockFixtures";
+import { createAbortError } from "./abort";
+
+// Small delay so loading states are visible while developing the UI
+const MOCK_LATENCY_MS = 300;
+// Streamed fixtures are cut into fixed-size pieces so the output is the same on every run
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+// Rejects as soon as the signal fires, like a real request being cancelled
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const FIXTURES: Record<LLMTask, (request: GenerateRequest) => string> = {
+  parseDocument: () => JSON.stringify(MOCK_FEATURES.map(feature => ({ ...feature, quote: feature.content, section: feature.type }))),
+  reviewRequirements: (request) => JSON.stringify(mockRequirementsReview(request.prompt)),
+  analyzeRequirements: () => JSON.stringify(MOCK_ANALYSIS),
+  recommendStack: () => JSON.stringify(MOCK_RECOMMENDATIONS),
+  compareStacks: (request) => JSON.stringify(mockStackComparison(request.prompt)),
+  generateDiagrams: () => JSON.stringify({ diagrams: MOCK_DIAGRAMS }),
+  generateContract: () => JSON.stringify(MOCK_CONTRACT),
+  planScaffold: () => JSON.stringify(MOCK_PLAN),
+  // Batches only return the files their prompt asks for, like a real model would
+  generateScaffoldFiles: (request) => JSON.stringify({ files: mockFileBatch(request.prompt) }),
+  generateScaffoldReadme: () => MOCK_SCAFFOLD.readme,
+  generateDemoPrototype: () => MOCK_SCAFFOLD.demoHtml,
+  proposeScaffoldEdits: () => JSON.stringify(MOCK_EDIT_PROPOSAL),
+  repairScaffoldFiles: () => JSON.stringify(MOCK_REPAIR),
+};
+
+async function* streamFixture(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  await delay(MOCK_LATENCY_MS, signal);
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+    yield text.slice(i, i + STREAM_CHUNK_SIZE);
+    await delay(STREAM_CHUNK_DELAY_MS, signal);
+  }
+}
+
+export const createMockProvider = (): LLMProvider => {
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    return FIXTURES[request.task](request);
+  };
+
+  const generateStream = (request: GenerateRequest): AsyncGenerator<string> =>
+    streamFixture(FIXTURES[request.task](request), request.signal);
+
+  const createChat = (options: ChatOptions): ProjectChat => {
+    // Continue numbering after restored turns so replies stay deterministic
+    let turn = (options.history || []).filter(msg => msg.role === 'user').length;
+    return {
+      model: 'mock',
+      sendMessage: async (message: string, signal?: AbortSignal) => {
+        await delay(MOCK_LATENCY_MS, signal);
+        turn += 1;
+        return mockChatReply(turn, message);
+      },
+      sendMessageStream: async function* (message: string, signal?: AbortSignal) {
+        yield* streamFixture(mockChatReply(turn + 1, message), signal);
+        turn += 1;
+      },
+    };
+  };
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    generate,
+    generateStream,
+    createChat,
+  };
+};
@@ -0,0 +1,179 @@
+import { Schema } from "@google/genai";
+import { ChatOptions, GenerateRequest, LLMProvider, ModelTier, ProjectChat } from "./types";
+import { throwIfAborted } from "./abort";
+
+// Defaults target a local Ollama server; llama.cpp's server exposes the same API on port 8080.
+const BASE_URL = (process.env.LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+const API_KEY = process.env.LLM_API_KEY || '';
+
+const MODELS: Record<ModelTier, string> = {
+  fast: process.env.LLM_FAST_MODEL || 'llama3.1',
+  smart: process.env.LLM_SMART_MODEL || process.env.LLM_FAST_MODEL || 'llama3.1',
+};
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+/**
+ * Converts the Gemini schema dialect (upper-case `Type` values) into plain JSON Schema.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const postChatCompletion = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`LLM server responded with ${response.status} ${response.statusText}`);
+  }
+  return response;
+};
+
+const completeText = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+  const response = await postChatCompletion({ ...body, stream: false }, signal);
+  const data = (await response.json()) as ChatCompletionResponse;
+  return data.choices?.[0]?.message?.content || '';
+};
+
+/**
+ * Reads a server-sent event stream of chat completion chunks and yields the content deltas.
+ */
+async function* streamText(body: Record<string, unknown>, signal?: AbortSignal): AsyncGenerator<string> {
+  const response = await postChatCompletion({ ...body, stream: true }, signal);
+  if (!response.body) throw new Error("LLM server returned an empty stream.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      throwIfAborted(signal);
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by newlines; keep the trailing partial line for the next read
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAICompatibleProvider = (): LLMProvider => {
+  const toBody = (request: GenerateRequest): Record<string, unknown> => {
+    if (request.attachment) {
+      // Local servers accept text only, so binary documents (PDF) cannot be forwarded.
+      throw new Error(`The OpenAI-compatible provider cannot read ${request.attachment.mimeType} attachments.`);
+    }
+
+    const body: Record<string, unknown> = {
+      model: MODELS[request.tier],
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: request.task, schema: toJsonSchema(request.responseSchema) },
+      };
+    }
+    return body;
+  };
+
+  const generate = (request: GenerateRequest): Promise<string> =>
+    completeText(toBody(request), request.signal);
+
+  const generateStream = (request: GenerateRequest): AsyncGenerator<string> =>
+    streamText(toBody(request), request.signal);
+
+  const createChat = (options: ChatOptions): ProjectChat => {
+    const history: ChatCompletionMessage[] = [
+      { role: 'system', content: options.systemInstruction },
+      ...(options.history || []).map((msg): ChatCompletionMessage => ({
+        role: msg.role === 'model' ? 'assistant' : 'user',
+        content: msg.text,
+      })),
+    ];
+
+    // Only commit the turn once the server answered, so a failed request can be retried.
+    const commit = (message: string, reply: string) => {
+      history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+    };
+
+    return {
+      model: MODELS.smart,
+      sendMessage: async (message: string, signal?: AbortSignal) => {
+        const reply = await completeText({
+          model: MODELS.smart,
+          messages: [...history, { role: 'user', content: message }],
+        }, signal);
+        commit(message, reply);
+        return reply;
+      },
+      sendMessageStream: async function* (message: string, signal?: AbortSignal) {
+        let reply = '';
+        for await (const delta of streamText({
+          model: MODELS.smart,
+          messages: [...history, { role: 'user', content: message }],
+        }, signal)) {
+          reply += delta;
+          yield delta;
+        }
+        commit(message, reply);
+      },
+    };
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'Local (OpenAI-compatible)',
+    generate,
+    generateStream,
+    createChat,
+  };
+};
@@ -0,0 +1,72 @@
+import { Schema } from "@google/genai";
+import { ChatMessage } from "../../types";
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * Which class of model a request needs. Providers map each tier to a concrete model name.
+ * - fast: cheap extraction and summaries
+ * - smart: code generation and chat
+ */
+export type ModelTier = 'fast' | 'smart';
+
+/**
+ * The operations geminiService performs. The mock provider uses this to pick a fixture.
+ */
+export type LLMTask =
+  | 'parseDocument'
+  | 'reviewRequirements'
+  | 'analyzeRequirements'
+  | 'recommendStack'
+  | 'compareStacks'
+  | 'generateDiagrams'
+  | 'generateContract'
+  | 'planScaffold'
+  | 'generateScaffoldFiles'
+  | 'generateScaffoldReadme'
+  | 'generateDemoPrototype'
+  | 'proposeScaffoldEdits'
+  | 'repairScaffoldFiles';
+
+export interface InlineAttachment {
+  mimeType: string;
+  /** Base64 encoded file content */
+  data: string;
+}
+
+export interface GenerateRequest {
+  task: LLMTask;
+  tier: ModelTier;
+  prompt: string;
+  attachment?: InlineAttachment;
+  /** When set, the provider must answer with JSON matching this schema. */
+  responseSchema?: Schema;
+  /** Aborts the underlying HTTP request. */
+  signal?: AbortSignal;
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  /** Earlier turns to seed the conversation with when a saved project is restored. */
+  history?: ChatMessage[];
+}
+
+/**
+ * A multi-turn conversation with the architect model. Each provider keeps its own history.
+ */
+export interface ProjectChat {
+  readonly model: string;
+  sendMessage(message: string, signal?: AbortSignal): Promise<string>;
+  /** Yields text fragments as they arrive. The turn is only kept in history once the reply completes. */
+  sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  /** Returns the raw text (or JSON string) produced for the request. */
+  generate(request: GenerateRequest): Promise<string>;
+  /** Same as generate, but yields text fragments as the model produces them. */
+  generateStream(request: GenerateRequest): AsyncGenerator<string>;
+  createChat(options: ChatOptions): ProjectChat;
+}
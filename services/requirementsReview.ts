@@ -0,0 +1,92 @@
+import { FindingCategory, ParsedFeature, RequirementFinding } from "../types";
+import { RISK_SEVERITIES } from "./analysis";
+
+/** A finding as the review reports it, before it is attached to its feature. */
+export type FeatureFinding = RequirementFinding & { featureTitle: string };
+
+export const FINDING_CATEGORIES: { category: FindingCategory; label: string; description: string }[] = [
+  {
+    category: 'acceptanceCriteria',
+    label: 'Acceptance criteria',
+    description: 'no testable acceptance criteria: it is unclear when the feature is done',
+  },
+  {
+    category: 'conflict',
+    label: 'Conflict',
+    description: 'contradicts another requirement; name the other feature in relatedTitles',
+  },
+  {
+    category: 'undefinedRole',
+    label: 'Undefined role',
+    description: 'refers to users, roles or permissions that the document never defines',
+  },
+  {
+    category: 'nonFunctional',
+    label: 'Non-functional gap',
+    description: 'missing performance, security, availability, privacy or scale expectations it clearly needs',
+  },
+  {
+    category: 'ambiguity',
+    label: 'Ambiguity',
+    description: 'vague wording ("fast", "simple", "etc.") that allows more than one reading',
+  },
+];
+
+export const findingLabel = (category: FindingCategory) =>
+  FINDING_CATEGORIES.find(entry => entry.category === category)?.label ?? category;
+
+const bySeverity = (a: RequirementFinding, b: RequirementFinding) =>
+  RISK_SEVERITIES.indexOf(a.severity) - RISK_SEVERITIES.indexOf(b.severity);
+
+export const sortFindings = (findings: RequirementFinding[]) => [...findings].sort(bySeverity);
+
+export const countFindings = (features: ParsedFeature[]) =>
+  features.reduce((count, feature) => count + (feature.findings?.length ?? 0), 0);
+
+/**
+ * Replaces the findings of every feature with those of a new review, matched by title; features without findings end up with an empty list,
+ * which tells them apart from features that were never reviewed.
+ */
+export const attachFindings = (
+  features: ParsedFeature[],
+  findings: FeatureFinding[]
+): ParsedFeature[] =>
+  features.map(feature => ({
+    ...feature,
+    findings: sortFindings(findings
+      .filter(finding => finding.featureTitle === feature.title)
+      .map(({ featureTitle: _featureTitle, ...finding }) => finding)),
+  }));
+
+/** Drops a finding once it is answered or no longer applies. */
+export const dismissFinding = (features: ParsedFeature[], id: string): ParsedFeature[] =>
+  features.map(feature => (feature.findings?.some(finding => finding.id === id)
+    ? { ...feature, findings: feature.findings.filter(finding => finding.id !== id) }
+    : feature));
+
+/**
+ * The open questions as a Markdown document to send to the client, grouped by feature with the most severe first.
+ */
+export const buildClarifyingQuestions = (features: ParsedFeature[], projectName: string): string => {
+  const sections = features
+    .filter(feature => feature.findings && feature.findings.length > 0)
+    .map((feature, index) => [
+      `## ${index + 1}. ${feature.title}`,
+      '',
+      ...sortFindings(feature.findings!).flatMap(finding => [
+        `- [ ] **${finding.question}**`,
+        `  _${findingLabel(finding.category)}, ${finding.severity} priority:_ ${finding.issue}${
+          finding.relatedTitles?.length ? ` (see also: ${finding.relatedTitles.join(', ')})` : ''
+        }`,
+      ]),
+      '',
+    ].join('\n'));
+
+  return [
+    `# Clarifying questions: ${projectName}`,
+    '',
+    'Answers to these questions let us finalise the scope before development starts.',
+    '',
+    ...sections,
+  ].join('\n');
+};
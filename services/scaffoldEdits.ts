@@ -0,0 +1,64 @@
+import { ChatMessage, CodeScaffold, FileEdit, FileEditStatus } from "../types";
+
+// The README lives in its own field unless the model also emitted it as a regular file
+const isReadmePath = (scaffold: CodeScaffold, path: string) =>
+  path.toLowerCase() === 'readme.md' && !scaffold.files.some(f => f.path.toLowerCase() === 'readme.md');
+
+/**
+ * Content of a scaffold file as it is now, or null when the file does not exist.
+ */
+export const getScaffoldFileContent = (scaffold: CodeScaffold, path: string): string | null => {
+  if (isReadmePath(scaffold, path)) return scaffold.readme;
+  return scaffold.files.find(f => f.path === path)?.content ?? null;
+};
+
+const guessLanguage = (path: string): string => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  const byExtension: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript',
+    json: 'json', md: 'markdown', py: 'python', go: 'go', rs: 'rust', java: 'java',
+    html: 'html', css: 'css', yml: 'yaml', yaml: 'yaml',
+  };
+  return byExtension[ext] || 'plaintext';
+};
+
+/**
+ * Returns a new scaffold with the edit applied. Creating an existing file overwrites it,
+ * deleting a missing file is a no-op.
+ */
+export const applyFileEdit = (scaffold: CodeScaffold, edit: FileEdit): CodeScaffold => {
+  if (isReadmePath(scaffold, edit.path)) {
+    return { ...scaffold, readme: edit.action === 'delete' ? '' : edit.content ?? scaffold.readme };
+  }
+
+  if (edit.action === 'delete') {
+    return { ...scaffold, files: scaffold.files.filter(f => f.path !== edit.path) };
+  }
+
+  const existing = scaffold.files.find(f => f.path === edit.path);
+  const updated = {
+    path: edit.path,
+    content: edit.content ?? '',
+    language: edit.language || existing?.language || guessLanguage(edit.path),
+    featureTitles: edit.featureTitles ?? existing?.featureTitles,
+  };
+  return {
+    ...scaffold,
+    files: existing
+      ? scaffold.files.map(f => (f.path === edit.path ? updated : f))
+      : [...scaffold.files, updated],
+  };
+};
+
+/**
+ * Every proposed edit still waiting for a decision, oldest first.
+ */
+export const getPendingEdits = (messages: ChatMessage[]): FileEdit[] =>
+  messages.flatMap(msg => (msg.edits || []).filter(edit => edit.status === 'pending'));
+
+export const setEditStatus = (messages: ChatMessage[], editId: string, status: FileEditStatus): ChatMessage[] =>
+  messages.map(msg =>
+    msg.edits?.some(edit => edit.id === editId)
+      ? { ...msg, edits: msg.edits.map(edit => (edit.id === editId ? { ...edit, status } : edit)) }
+      : msg
+  );
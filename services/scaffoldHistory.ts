@@ -0,0 +1,61 @@
+import { CodeScaffold, ScaffoldVersion, ScaffoldVersionSource } from "../types";
+import { createId } from "./ids";
+
+// Older versions are dropped beyond this, so saved projects stay a reasonable size
+export const MAX_SCAFFOLD_VERSIONS = 50;
+
+export type FileChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface ScaffoldFileChange {
+  path: string;
+  type: FileChangeType;
+  oldContent: string;
+  newContent: string;
+}
+
+export const createScaffoldVersion = (
+  scaffold: CodeScaffold,
+  source: ScaffoldVersionSource,
+  label: string
+): ScaffoldVersion => ({
+  id: createId(),
+  createdAt: Date.now(),
+  source,
+  label,
+  scaffold,
+});
+
+export const appendVersion = (versions: ScaffoldVersion[], version: ScaffoldVersion): ScaffoldVersion[] =>
+  [...versions, version].slice(-MAX_SCAFFOLD_VERSIONS);
+
+// README and demo are compared like regular files so regenerations show up completely
+const toFileMap = (scaffold: CodeScaffold): Map<string, string> => {
+  const map = new Map(scaffold.files.map(f => [f.path, f.content] as [string, string]));
+  if (![...map.keys()].some(path => path.toLowerCase() === 'readme.md')) {
+    map.set('README.md', scaffold.readme);
+  }
+  map.set('demo/index.html', scaffold.demoHtml);
+  return map;
+};
+
+/**
+ * Lists every file of two scaffold versions with how it changed from `from` to `to`.
+ */
+export const compareScaffolds = (from: CodeScaffold, to: CodeScaffold): ScaffoldFileChange[] => {
+  const before = toFileMap(from);
+  const after = toFileMap(to);
+  const paths = new Set([...before.keys(), ...after.keys()]);
+
+  return [...paths]
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => {
+      const oldContent = before.get(path);
+      const newContent = after.get(path);
+      const type: FileChangeType = oldContent === undefined
+        ? 'added'
+        : newContent === undefined
+          ? 'removed'
+          : oldContent === newContent ? 'unchanged' : 'modified';
+      return { path, type, oldContent: oldContent ?? '', newContent: newContent ?? '' };
+    });
+};
@@ -0,0 +1,175 @@
+import { CodeScaffold, ParsedFeature, PlannedFile, ProjectFile, ScaffoldPlan, TechStack } from "../types";
+import { DesignContext, generateDemoPrototype, generateScaffoldFiles, generateScaffoldReadme, planScaffold } from "./geminiService";
+
+export type PipelineStageKind = 'plan' | 'files' | 'readme' | 'demo';
+export type PipelineStageStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface PipelineStage {
+  id: string;
+  kind: PipelineStageKind;
+  label: string;
+  status: PipelineStageStatus;
+  /** Manifest paths written by a files stage. */
+  paths: string[];
+  /** Attempts over all runs, including the automatic retries. */
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Planner/executor generation: the plan comes first, then one stage per file batch, the README and the demo.
+ * Completed stages keep their output, so a failed or cancelled run resumes where it stopped.
+ */
+export interface ScaffoldPipeline {
+  plan: ScaffoldPlan | null;
+  stages: PipelineStage[];
+  files: ProjectFile[];
+  readme: string | null;
+  demoHtml: string | null;
+}
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  /** Receives the pipeline after every stage transition. */
+  onUpdate: (pipeline: ScaffoldPipeline) => void;
+  /** Receives every file as soon as the model finished emitting it. */
+  onFile?: (file: ProjectFile) => void;
+}
+
+// Small enough that a batch of full files stays well inside the output limit
+export const FILES_PER_BATCH = 6;
+// Automatic attempts per stage and run before it is left for a manual retry
+const MAX_STAGE_ATTEMPTS = 2;
+
+const createStage = (id: string, kind: PipelineStageKind, label: string, paths: string[] = []): PipelineStage => ({
+  id, kind, label, status: 'pending', paths, attempts: 0,
+});
+
+export const createPipeline = (): ScaffoldPipeline => ({
+  plan: null,
+  stages: [createStage('plan', 'plan', 'Plan architecture and file manifest')],
+  files: [],
+  readme: null,
+  demoHtml: null,
+});
+
+const folderOf = (path: string) => path.split('/').slice(0, -1).join('/');
+
+/**
+ * Splits the manifest into batches, keeping files of the same folder (usually one feature module) together.
+ */
+export const batchPlannedFiles = (files: PlannedFile[], size = FILES_PER_BATCH): PlannedFile[][] => {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const batches: PlannedFile[][] = [];
+  let current: PlannedFile[] = [];
+  sorted.forEach(file => {
+    const changesFolder = current.length > 0 && folderOf(current[current.length - 1].path) !== folderOf(file.path);
+    // A new folder starts a new batch once the current one is reasonably full
+    if (current.length >= size || (changesFolder && current.length >= size / 2)) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(file);
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+const stagesForPlan = (plan: ScaffoldPlan): PipelineStage[] => [
+  ...batchPlannedFiles(plan.files).map((batch, index) => {
+    const folders = Array.from(new Set(batch.map(file => folderOf(file.path) || '(root)')));
+    return createStage(`files-${index + 1}`, 'files', `Files ${index + 1}: ${folders.join(', ')}`, batch.map(file => file.path));
+  }),
+  createStage('readme', 'readme', 'README'),
+  createStage('demo', 'demo', 'Live demo prototype'),
+];
+
+export const hasUnfinishedStages = (pipeline: ScaffoldPipeline) => pipeline.stages.some(stage => stage.status !== 'done');
+
+/**
+ * Runs every stage that is not done yet. Failed file, README and demo stages do not stop the others;
+ * the run rejects at the end if any stage is still failed, and the pipeline passed to `onUpdate` can be run again.
+ */
+export const runScaffoldPipeline = async (
+  features: ParsedFeature[],
+  stack: TechStack,
+  context: DesignContext,
+  initial: ScaffoldPipeline,
+  options: PipelineRunOptions
+): Promise<CodeScaffold> => {
+  const { signal } = options;
+  let pipeline = initial;
+  const update = (next: ScaffoldPipeline) => {
+    pipeline = next;
+    options.onUpdate(next);
+  };
+  const patchStage = (id: string, patch: Partial<PipelineStage>) => update({
+    ...pipeline,
+    stages: pipeline.stages.map(stage => (stage.id === id ? { ...stage, ...patch } : stage)),
+  });
+
+  const runStage = async (stage: PipelineStage) => {
+    switch (stage.kind) {
+      case 'plan': {
+        const plan = await planScaffold(features, stack, context, signal);
+        // A new plan invalidates anything written for the previous one
+        update({ ...pipeline, plan, files: [], readme: null, demoHtml: null, stages: [pipeline.stages[0], ...stagesForPlan(plan)] });
+        return;
+      }
+      case 'files': {
+        if (!pipeline.plan) throw new Error("No plan to generate files from.");
+        const batch = pipeline.plan.files.filter(file => stage.paths.includes(file.path));
+        const files = await generateScaffoldFiles(features, stack, context, pipeline.plan, batch, { signal, onFile: options.onFile });
+        const written = new Set(files.map(file => file.path));
+        update({ ...pipeline, files: [...pipeline.files.filter(file => !written.has(file.path)), ...files] });
+        return;
+      }
+      case 'readme': {
+        if (!pipeline.plan) throw new Error("No plan to describe.");
+        update({ ...pipeline, readme: await generateScaffoldReadme(features, stack, context, pipeline.plan, signal) });
+        return;
+      }
+      case 'demo':
+        update({ ...pipeline, demoHtml: await generateDemoPrototype(features, signal) });
+        return;
+    }
+  };
+
+  // Stages are appended once the plan is done, so the length is read on every iteration
+  for (let index = 0; index < pipeline.stages.length; index++) {
+    const { id } = pipeline.stages[index];
+    if (pipeline.stages[index].status === 'done') continue;
+
+    for (let attempt = 1; attempt <= MAX_STAGE_ATTEMPTS; attempt++) {
+      const stage = pipeline.stages.find(s => s.id === id)!;
+      patchStage(id, { status: 'running', attempts: stage.attempts + 1, error: undefined });
+      try {
+        await runStage(stage);
+        patchStage(id, { status: 'done' });
+        break;
+      } catch (error) {
+        if (signal?.aborted) {
+          patchStage(id, { status: 'pending' });
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt === MAX_STAGE_ATTEMPTS) patchStage(id, { status: 'failed', error: message });
+      }
+    }
+
+    // Nothing else can run without a plan
+    if (id === 'plan' && pipeline.stages[0].status === 'failed') break;
+  }
+
+  const failed = pipeline.stages.filter(stage => stage.status === 'failed');
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} generation stage${failed.length === 1 ? '' : 's'} failed.`);
+  }
+
+  // Files in manifest order, anything the batches added on top at the end
+  const order = new Map((pipeline.plan?.files || []).map((file, index) => [file.path, index]));
+  const files = [...pipeline.files].sort(
+    (a, b) => (order.get(a.path) ?? Number.MAX_SAFE_INTEGER) - (order.get(b.path) ?? Number.MAX_SAFE_INTEGER)
+  );
+  return { files, readme: pipeline.readme ?? '', demoHtml: pipeline.demoHtml ?? '' };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectFile } from '../types';
+import { getBrokenFiles, mergeRepairedFiles, validateScaffold } from './scaffoldValidation';
+
+const file = (path: string, content: string, language = 'typescript'): ProjectFile => ({ path, content, language });
+
+const scaffold = (...files: ProjectFile[]) => ({ files, readme: '# App', demoHtml: '' });
+
+describe('validateScaffold', () => {
+  it('accepts valid scripts, JSON and resolvable imports', () => {
+    expect(validateScaffold(scaffold(
+      file('src/index.ts', "import { greet } from './greet.js';\nimport type { User } from './types';\nexport const run = (user: User) => greet(user.name);"),
+      file('src/greet.ts', 'export const greet = (name: string) => `Hello ${name}`;'),
+      file('src/types/index.ts', 'export interface User { name: string }'),
+      file('src/App.tsx', "import React from 'react';\nconst data = require('../package.json');\nexport const App = () => <div>{data.name}</div>;"),
+      file('package.json', '{ "name": "app" }', 'json'),
+      file('tsconfig.json', '{\n  // editor comments are fine here\n  "compilerOptions": { "strict": true, },\n}', 'json'),
+    ))).toEqual([]);
+  });
+
+  it('reports syntax errors with line and column', () => {
+    expect(validateScaffold(scaffold(file('src/broken.ts', 'const ok = 1;\nconst broken = ;\n')))).toEqual([
+      { path: 'src/broken.ts', kind: 'syntax', message: 'Unexpected token', line: 2, column: 16 },
+    ]);
+  });
+
+  it('reports invalid JSON with its position', () => {
+    const [problem] = validateScaffold(scaffold(file('package.json', '{\n  "name": "app",\n}', 'json')));
+    expect(problem).toMatchObject({ path: 'package.json', kind: 'json', line: 3, column: 1 });
+    expect(problem.message).toMatch(/^Invalid JSON: /);
+  });
+
+  it('reports unresolved relative imports where they are written', () => {
+    expect(validateScaffold(scaffold(
+      file('src/index.ts', "import { a } from './a';\n\nexport { b } from '../lib/b';\nconst c = await import('./c');"),
+      file('src/a.ts', 'export const a = 1;'),
+    ))).toEqual([
+      { path: 'src/index.ts', kind: 'import', message: 'Cannot resolve "../lib/b": no file at lib/b in the scaffold.', line: 3, column: 19 },
+      { path: 'src/index.ts', kind: 'import', message: 'Cannot resolve "./c": no file at src/c in the scaffold.', line: 4, column: 24 },
+    ]);
+  });
+
+  it('reports a path that appears twice once', () => {
+    const problems = validateScaffold(scaffold(file('src/a.ts', 'export {};'), file('./src/A.ts', 'export {};')));
+    expect(problems).toEqual([{ path: 'src/a.ts', kind: 'duplicate', message: 'This path appears 2 times in the scaffold.' }]);
+  });
+});
+
+describe('repairing broken files', () => {
+  it('lists each broken file once and replaces every copy with the repair', () => {
+    const broken = file('src/a.ts', 'const = 1;');
+    const current = scaffold(broken, file('src/b.ts', 'export {};'), broken);
+    expect(getBrokenFiles(current, validateScaffold(current))).toEqual([broken]);
+
+    const repaired = mergeRepairedFiles(current, [file('src/a.ts', 'export const a = 1;'), file('src/new.ts', 'export {};')]);
+    expect(repaired.files.map(({ path, content }) => `${path}: ${content}`)).toEqual([
+      'src/a.ts: export const a = 1;',
+      'src/b.ts: export {};',
+      'src/new.ts: export {};',
+    ]);
+    expect(validateScaffold(repaired)).toEqual([]);
+  });
+});
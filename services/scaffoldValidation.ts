@@ -0,0 +1,298 @@
+import { parse, ParserPlugin } from "@babel/parser";
+import { CodeScaffold, ProjectFile, ScaffoldProblem } from "../types";
+import { normalizeArchivePath } from "./projectExport";
+
+// Enough to point at the problem without flooding the list when a file is badly broken
+const MAX_SYNTAX_ERRORS_PER_FILE = 5;
+
+const SCRIPT_EXTENSIONS = ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'];
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+// ESM style TypeScript imports name the compiled file: "./user.js" points at user.ts
+const COMPILED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+interface ImportReference {
+  specifier: string;
+  line?: number;
+  column?: number;
+}
+
+interface FileCheck {
+  problems: ScaffoldProblem[];
+  imports: ImportReference[];
+}
+
+// Files keep their identity until edited, so unchanged files are not re-parsed on every keystroke
+const fileChecks = new WeakMap<ProjectFile, FileCheck>();
+
+const extensionOf = (path: string) => {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const isJsonFile = (file: ProjectFile) => extensionOf(file.path) === 'json' || file.language.toLowerCase() === 'json';
+
+// tsconfig and editor settings are JSON with comments and trailing commas
+const allowsJsonComments = (path: string) => {
+  const name = (path.split('/').pop() || '').toLowerCase();
+  return /^(tsconfig|jsconfig)(\..+)?\.json$/.test(name)
+    || name === '.eslintrc.json'
+    || name === 'devcontainer.json'
+    || path.includes('.vscode/');
+};
+
+const stripJsonComments = (text: string): string => {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      out += char;
+      if (char === '\\') out += text[++i] ?? '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      // Keep line breaks so reported positions still match the file
+      out += comment.replace(/[^\n]/g, ' ');
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      out += ' ';
+    } else {
+      out += char;
+    }
+  }
+  return out;
+};
+
+const positionToLocation = (text: string, position: number) => {
+  const before = text.slice(0, position).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const checkJson = (file: ProjectFile): ScaffoldProblem[] => {
+  const text = allowsJsonComments(file.path) ? stripJsonComments(file.content) : file.content;
+  try {
+    JSON.parse(text);
+    return [];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Engines report either "at position N" or "(line L column C)"
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    const position = message.match(/position (\d+)/);
+    const location = lineColumn
+      ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+      : position ? positionToLocation(text, Number(position[1])) : {};
+    return [{ path: file.path, kind: 'json', message: `Invalid JSON: ${message}`, ...location }];
+  }
+};
+
+const parserPlugins = (extension: string): ParserPlugin[] => {
+  const decorators: ParserPlugin = 'decorators-legacy'; // NestJS / Angular style classes
+  if (extension === 'tsx') return ['typescript', 'jsx', decorators];
+  // JSX and TypeScript angle-bracket casts conflict, so plain .ts files are parsed without JSX
+  if (['ts', 'mts', 'cts'].includes(extension)) return ['typescript', decorators];
+  return ['jsx', decorators];
+};
+
+interface BabelError {
+  message: string;
+  loc?: { line: number; column: number };
+}
+
+const toSyntaxProblem = (path: string, error: BabelError): ScaffoldProblem => ({
+  path,
+  kind: 'syntax',
+  // Babel appends "(line:column)" to its messages, the location is reported separately
+  message: error.message.replace(/\s*\(\d+:\d+\)$/, ''),
+  line: error.loc?.line,
+  column: error.loc ? error.loc.column + 1 : undefined,
+});
+
+// Babel nodes are walked generically, so they are read as plain records and narrowed field by field
+type AstNode = Record<string, unknown>;
+
+const isAstNode = (value: unknown): value is AstNode => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Walks the AST for module references: import/export declarations, import() and require()
+const collectImports = (node: unknown, out: ImportReference[]) => {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    node.forEach(child => collectImports(child, out));
+    return;
+  }
+  const current = node as AstNode;
+  const addLiteral = (literal: unknown) => {
+    if (!isAstNode(literal) || literal.type !== 'StringLiteral' || typeof literal.value !== 'string') return;
+    const start = isAstNode(literal.loc) && isAstNode(literal.loc.start) ? literal.loc.start : undefined;
+    out.push({
+      specifier: literal.value,
+      line: typeof start?.line === 'number' ? start.line : undefined,
+      column: typeof start?.column === 'number' ? start.column + 1 : undefined,
+    });
+  };
+
+  switch (current.type) {
+    case 'ImportDeclaration':
+    case 'ExportNamedDeclaration':
+    case 'ExportAllDeclaration':
+      addLiteral(current.source);
+      break;
+    case 'TSExternalModuleReference':
+      addLiteral(current.expression);
+      break;
+    case 'CallExpression': {
+      const callee = isAstNode(current.callee) ? current.callee : undefined;
+      if (callee?.type === 'Import' || (callee?.type === 'Identifier' && callee.name === 'require')) {
+        addLiteral(Array.isArray(current.arguments) ? current.arguments[0] : undefined);
+      }
+      break;
+    }
+  }
+
+  for (const key of Object.keys(current)) {
+    if (key === 'loc' || key === 'start' || key === 'end' || key === 'comments' || key === 'leadingComments' || key === 'trailingComments') continue;
+    const child = current[key];
+    if (child && typeof child === 'object') collectImports(child, out);
+  }
+};
+
+const checkScript = (file: ProjectFile): FileCheck => {
+  try {
+    const ast = parse(file.content, {
+      sourceType: 'unambiguous',
+      errorRecovery: true,
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: true,
+      plugins: parserPlugins(extensionOf(file.path)),
+    });
+    const imports: ImportReference[] = [];
+    collectImports(ast.program, imports);
+    const problems = (ast.errors || [])
+      .slice(0, MAX_SYNTAX_ERRORS_PER_FILE)
+      .map(error => toSyntaxProblem(file.path, error as BabelError));
+    return { problems, imports };
+  } catch (error) {
+    return { problems: [toSyntaxProblem(file.path, error as BabelError)], imports: [] };
+  }
+};
+
+const checkFile = (file: ProjectFile): FileCheck => {
+  const cached = fileChecks.get(file);
+  if (cached) return cached;
+
+  const extension = extensionOf(file.path);
+  const check: FileCheck = isJsonFile(file)
+    ? { problems: checkJson(file), imports: [] }
+    : SCRIPT_EXTENSIONS.includes(extension)
+      ? checkScript(file)
+      : { problems: [], imports: [] };
+  fileChecks.set(file, check);
+  return check;
+};
+
+const resolveRelative = (fromPath: string, specifier: string) => {
+  const directory = fromPath.split('/').slice(0, -1).join('/');
+  return normalizeArchivePath(`${directory}/${specifier}`);
+};
+
+const importResolves = (target: string, knownPaths: Set<string>): boolean => {
+  const candidates = [target];
+  const compiledExtension = Object.keys(COMPILED_TO_SOURCE).find(ext => target.endsWith(ext));
+  if (compiledExtension) {
+    const stem = target.slice(0, -compiledExtension.length);
+    candidates.push(...COMPILED_TO_SOURCE[compiledExtension].map(ext => stem + ext));
+  }
+  RESOLVE_EXTENSIONS.forEach(ext => candidates.push(target + ext, `${target}/index${ext}`));
+  return candidates.some(candidate => knownPaths.has(candidate.toLowerCase()));
+};
+
+/**
+ * Runs every static check over the scaffold: JSON files parse, scripts are syntactically valid,
+ * relative imports point at files that exist and no path appears twice.
+ */
+export const validateScaffold = (scaffold: CodeScaffold): ScaffoldProblem[] => {
+  const problems: ScaffoldProblem[] = [];
+  const occurrences = new Map<string, number>();
+  scaffold.files.forEach(file => {
+    const key = normalizeArchivePath(file.path).toLowerCase();
+    occurrences.set(key, (occurrences.get(key) || 0) + 1);
+  });
+  const knownPaths = new Set([...occurrences.keys(), 'readme.md']);
+
+  const reportedDuplicates = new Set<string>();
+  scaffold.files.forEach(file => {
+    const key = normalizeArchivePath(file.path).toLowerCase();
+    const count = occurrences.get(key) || 0;
+    if (count > 1 && !reportedDuplicates.has(key)) {
+      reportedDuplicates.add(key);
+      problems.push({ path: file.path, kind: 'duplicate', message: `This path appears ${count} times in the scaffold.` });
+    }
+
+    const check = checkFile(file);
+    problems.push(...check.problems);
+    check.imports
+      .filter(ref => ref.specifier.startsWith('.'))
+      .forEach(ref => {
+        const target = resolveRelative(file.path, ref.specifier.replace(/[?#].*$/, ''));
+        if (!importResolves(target, knownPaths)) {
+          problems.push({
+            path: file.path,
+            kind: 'import',
+            message: `Cannot resolve "${ref.specifier}": no file at ${target} in the scaffold.`,
+            line: ref.line,
+            column: ref.column,
+          });
+        }
+      });
+  });
+
+  return problems;
+};
+
+/**
+ * The files that have at least one problem, each path once, in scaffold order.
+ */
+export const getBrokenFiles = (scaffold: CodeScaffold, problems: ScaffoldProblem[]): ProjectFile[] => {
+  const broken = new Set(problems.map(problem => problem.path));
+  const seen = new Set<string>();
+  return scaffold.files.filter(file => {
+    if (!broken.has(file.path) || seen.has(file.path)) return false;
+    seen.add(file.path);
+    return true;
+  });
+};
+
+/**
+ * Replaces every copy of each repaired path with the single repaired file, which also settles duplicates.
+ * Files the model added (for example a missing import target) are appended.
+ */
+export const mergeRepairedFiles = (scaffold: CodeScaffold, repaired: ProjectFile[]): CodeScaffold => {
+  const byPath = new Map(repaired.map(file => [file.path, file]));
+  const placed = new Set<string>();
+  const files: ProjectFile[] = [];
+  scaffold.files.forEach(file => {
+    const replacement = byPath.get(file.path);
+    if (!replacement) {
+      files.push(file);
+      return;
+    }
+    if (placed.has(file.path)) return;
+    placed.add(file.path);
+    // The model may drop the traceability links, keep the ones the original had
+    files.push({ ...replacement, featureTitles: replacement.featureTitles?.length ? replacement.featureTitles : file.featureTitles });
+  });
+  repaired.filter(file => !placed.has(file.path)).forEach(file => files.push(file));
+  return { ...scaffold, files };
+};
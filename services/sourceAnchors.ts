@@ -0,0 +1,70 @@
+import { SourceAnchor } from "../types";
+
+export interface QuoteMatch {
+  start: number;
+  end: number;
+  /** False when only the beginning of the quote was found, e.g. because the model shortened it. */
+  complete: boolean;
+}
+
+// Long enough to be unlikely to match by accident
+const MIN_PREFIX_LENGTH = 40;
+
+// Typographic quotes and dashes are often straightened (or curled) on the way through the model
+const normalizeChar = (ch: string) => {
+  if ('‘’‚′'.includes(ch)) return "'";
+  if ('“”„″'.includes(ch)) return '"';
+  if ('–—−'.includes(ch)) return '-';
+  return ch.toLowerCase();
+};
+
+/**
+ * Collapses whitespace and normalizes punctuation, keeping for every character of the result
+ * its offset in the original text.
+ */
+const normalize = (text: string) => {
+  let value = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (value.length === 0 || value.endsWith(' ')) continue;
+      value += ' ';
+    } else {
+      value += normalizeChar(text[i]);
+    }
+    offsets.push(i);
+  }
+  return { value, offsets };
+};
+
+const findNormalized = (text: string, quote: string): { start: number; end: number } | null => {
+  const haystack = normalize(text);
+  const needle = normalize(quote).value.trim();
+  if (!needle) return null;
+  const index = haystack.value.indexOf(needle);
+  if (index === -1) return null;
+  return { start: haystack.offsets[index], end: haystack.offsets[index + needle.length - 1] + 1 };
+};
+
+/**
+ * Finds a quoted passage in the document text: verbatim first, then ignoring whitespace, case and
+ * typographic punctuation, then by its opening words. Null means the passage is not in the document.
+ */
+export const locateQuote = (text: string, quote: string): QuoteMatch | null => {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length, complete: true };
+
+  const normalized = findNormalized(text, trimmed);
+  if (normalized) return { ...normalized, complete: true };
+
+  // An ellipsis or a shortened ending still lets the opening words point at the passage
+  const prefix = trimmed.split(/\.\.\.|…/)[0].slice(0, MIN_PREFIX_LENGTH * 2);
+  if (prefix.length < MIN_PREFIX_LENGTH) return null;
+  const partial = findNormalized(text, prefix);
+  return partial ? { ...partial, complete: false } : null;
+};
+
+export const describeAnchorLocation = (anchor: SourceAnchor): string =>
+  [anchor.page ? `p. ${anchor.page}` : '', anchor.section ?? ''].filter(Boolean).join(' · ');
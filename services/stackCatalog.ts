@@ -0,0 +1,218 @@
+import { StackCriterion, StackRecommendation, TechStack } from "../types";
+
+export type StackDimension = keyof TechStack;
+
+export interface StackOption {
+  name: string;
+  /** Values other dimensions must have for this option to make sense. Unset dimensions are not checked. */
+  requires?: Partial<Record<StackDimension, string[]>>;
+}
+
+export interface StackDimensionInfo {
+  key: StackDimension;
+  label: string;
+  /** Required dimensions must be set before analysis starts. */
+  required: boolean;
+  options: StackOption[];
+}
+
+export interface StackIssue {
+  /** The dimensions involved, the one whose option declared the rule first. */
+  dimensions: [StackDimension, StackDimension];
+  message: string;
+}
+
+const CUSTOM_OPTIONS_KEY = 'devstack.customStackOptions';
+
+const JS = ['TypeScript', 'JavaScript'];
+const SQL = ['PostgreSQL', 'MySQL', 'SQLite'];
+
+export const STACK_CATALOG: StackDimensionInfo[] = [
+  {
+    key: 'language',
+    label: 'Language',
+    required: true,
+    options: ['TypeScript', 'JavaScript', 'Python', 'Go', 'Rust', 'Java'].map(name => ({ name })),
+  },
+  {
+    key: 'frontendFramework',
+    label: 'Frontend',
+    required: true,
+    // The frontend always runs on JavaScript, whatever the backend language is
+    options: ['React', 'Next.js', 'Vue', 'Nuxt', 'Svelte', 'Angular'].map(name => ({ name })),
+  },
+  {
+    key: 'backendFramework',
+    label: 'Backend',
+    required: true,
+    options: [
+      { name: 'NestJS', requires: { language: JS } },
+      { name: 'Express', requires: { language: JS } },
+      { name: 'Django', requires: { language: ['Python'] } },
+      { name: 'FastAPI', requires: { language: ['Python'] } },
+      { name: 'Spring Boot', requires: { language: ['Java'] } },
+      { name: 'Gin (Go)', requires: { language: ['Go'] } },
+      { name: 'Actix (Rust)', requires: { language: ['Rust'] } },
+    ],
+  },
+  {
+    key: 'database',
+    label: 'Database',
+    required: false,
+    options: [...SQL, 'MongoDB', 'DynamoDB'].map(name => ({ name })),
+  },
+  {
+    key: 'orm',
+    label: 'ORM',
+    required: false,
+    options: [
+      { name: 'Prisma', requires: { language: JS, database: [...SQL, 'MongoDB'] } },
+      { name: 'TypeORM', requires: { language: JS, database: [...SQL, 'MongoDB'] } },
+      { name: 'Drizzle', requires: { language: JS, database: SQL } },
+      { name: 'Mongoose', requires: { language: JS, database: ['MongoDB'] } },
+      { name: 'SQLAlchemy', requires: { language: ['Python'], database: SQL } },
+      { name: 'Django ORM', requires: { language: ['Python'], backendFramework: ['Django'], database: SQL } },
+      { name: 'GORM', requires: { language: ['Go'], database: SQL } },
+      { name: 'Diesel', requires: { language: ['Rust'], database: SQL } },
+      { name: 'Hibernate (JPA)', requires: { language: ['Java'], database: SQL } },
+    ],
+  },
+  {
+    key: 'authProvider',
+    label: 'Auth provider',
+    required: false,
+    options: [
+      { name: 'Custom JWT' },
+      { name: 'Auth0' },
+      { name: 'Clerk' },
+      { name: 'Firebase Auth' },
+      { name: 'Supabase Auth' },
+      { name: 'Keycloak' },
+      { name: 'NextAuth.js', requires: { frontendFramework: ['Next.js'] } },
+    ],
+  },
+  {
+    key: 'deploymentTarget',
+    label: 'Deployment',
+    required: false,
+    options: [
+      { name: 'Docker Compose' },
+      { name: 'Kubernetes' },
+      { name: 'AWS ECS' },
+      { name: 'Google Cloud Run' },
+      { name: 'Fly.io' },
+      // Serverless functions only, long-running JVM and Rust servers do not fit
+      { name: 'Vercel', requires: { backendFramework: ['NestJS', 'Express', 'Django', 'FastAPI', 'Gin (Go)'] } },
+    ],
+  },
+  {
+    key: 'testFramework',
+    label: 'Test framework',
+    required: false,
+    options: [
+      { name: 'Vitest', requires: { language: JS } },
+      { name: 'Jest', requires: { language: JS } },
+      { name: 'Pytest', requires: { language: ['Python'] } },
+      { name: 'Go testing', requires: { language: ['Go'] } },
+      { name: 'cargo test', requires: { language: ['Rust'] } },
+      { name: 'JUnit', requires: { language: ['Java'] } },
+      { name: 'Playwright' },
+    ],
+  },
+];
+
+export const STACK_CRITERIA: { key: StackCriterion; label: string; description: string }[] = [
+  { key: 'realtime', label: 'Realtime', description: 'live updates, push notifications, websockets, collaboration' },
+  { key: 'dataModel', label: 'Data model', description: 'how well the database and ORM fit the entities, relations and queries' },
+  { key: 'teamLanguage', label: 'Team language', description: 'how close the stack is to the languages the team already knows' },
+  { key: 'hosting', label: 'Hosting', description: 'how easily it runs on the preferred hosting, and at what operational cost' },
+];
+
+const getDimension = (key: StackDimension) => STACK_CATALOG.find(dimension => dimension.key === key)!;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findOption = (key: StackDimension, value: string) => getDimension(key).options.find(option => sameName(option.name, value));
+
+export const isStackComplete = (stack: TechStack) =>
+  STACK_CATALOG.every(dimension => !dimension.required || Boolean(stack[dimension.key]?.trim()));
+
+export const isSameStack = (a: TechStack, b: TechStack) =>
+  STACK_CATALOG.every(dimension => (a[dimension.key] || '').trim() === (b[dimension.key] || '').trim());
+
+// Short form for headings, e.g. "TypeScript · React · NestJS"
+export const stackTitle = (stack: TechStack) => [stack.language, stack.frontendFramework, stack.backendFramework].join(' · ');
+
+/**
+ * Combinations the catalog knows to be wrong, such as Python with NestJS.
+ * Custom entries are not in the catalog and are never flagged.
+ */
+export const checkStackCompatibility = (stack: TechStack): StackIssue[] => {
+  const issues: StackIssue[] = [];
+  STACK_CATALOG.forEach(dimension => {
+    const value = stack[dimension.key];
+    const option = value ? findOption(dimension.key, value) : undefined;
+    if (!option?.requires) return;
+
+    (Object.entries(option.requires) as [StackDimension, string[]][]).forEach(([otherKey, allowed]) => {
+      const otherValue = stack[otherKey];
+      if (!otherValue || !findOption(otherKey, otherValue)) return;
+      if (allowed.some(name => sameName(name, otherValue))) return;
+      issues.push({
+        dimensions: [dimension.key, otherKey],
+        message: `${option.name} needs ${getDimension(otherKey).label.toLowerCase()} ${allowed.join(' or ')}, not ${otherValue}.`,
+      });
+    });
+  });
+  return issues;
+};
+
+/**
+ * Whether picking `value` for `key` would conflict with the rest of the current stack.
+ */
+export const isOptionCompatible = (stack: TechStack, key: StackDimension, value: string) =>
+  !checkStackCompatibility({ ...stack, [key]: value }).some(issue => issue.dimensions.includes(key));
+
+/**
+ * The stack as prompt lines, one per dimension that is set.
+ */
+export const describeStack = (stack: TechStack): string =>
+  STACK_CATALOG
+    .filter(dimension => stack[dimension.key]?.trim())
+    .map(dimension => `- ${dimension.label}: ${stack[dimension.key]!.trim()}`)
+    .join('\n');
+
+export const loadCustomOptions = (): Partial<Record<StackDimension, string[]>> => {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_OPTIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Remembers a free-text entry so it is offered again next time. Returns the updated custom options.
+ */
+export const addCustomOption = (key: StackDimension, value: string): Partial<Record<StackDimension, string[]>> => {
+  const custom = loadCustomOptions();
+  const name = value.trim();
+  const known = [...getDimension(key).options.map(option => option.name), ...(custom[key] || [])];
+  if (!name || known.some(existing => sameName(existing, name))) return custom;
+
+  const next = { ...custom, [key]: [...(custom[key] || []), name] };
+  try {
+    localStorage.setItem(CUSTOM_OPTIONS_KEY, JSON.stringify(next));
+  } catch {
+    // Ignore, the entry still applies to the current project
+  }
+  return next;
+};
+
+export const overallScore = (recommendation: StackRecommendation) =>
+  STACK_CRITERIA.reduce((sum, criterion) => sum + recommendation.scores[criterion.key], 0) / STACK_CRITERIA.length;
+
+/**
+ * Best fit first. Ties keep the order the model gave them in.
+ */
+export const rankRecommendations = (recommendations: StackRecommendation[]) =>
+  [...recommendations].sort((a, b) => overallScore(b) - overallScore(a));
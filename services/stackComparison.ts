@@ -0,0 +1,97 @@
+import { ParsedFeature, RequirementsAnalysis, ScaffoldPlan, TechStack } from "../types";
+import { analyzeRequirementsFast, compareStackAnalyses, planScaffold, StackAssessment } from "./geminiService";
+
+export type ComparisonColumnStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ComparisonColumn {
+  stack: TechStack;
+  status: ComparisonColumnStatus;
+  analysis: RequirementsAnalysis | null;
+  plan: ScaffoldPlan | null;
+  /** Filled in by the summary once every column finished. */
+  assessment?: StackAssessment;
+  error?: string;
+}
+
+/**
+ * The same requirements analysed for several stacks, then summarised side by side.
+ */
+export interface StackComparison {
+  columns: ComparisonColumn[];
+  includeManifest: boolean;
+  /** What differs between the columns; null until the summary ran. */
+  differences: string[] | null;
+  summaryError?: string;
+}
+
+export interface ComparisonRunOptions {
+  signal?: AbortSignal;
+  /** Receives the comparison after every column and summary change. */
+  onUpdate: (comparison: StackComparison) => void;
+}
+
+// More columns stop fitting side by side and multiply the request volume
+export const MAX_COMPARED_STACKS = 3;
+
+export const createComparison = (stacks: TechStack[], includeManifest: boolean): StackComparison => ({
+  columns: stacks.slice(0, MAX_COMPARED_STACKS).map(stack => ({ stack, status: 'pending', analysis: null, plan: null })),
+  includeManifest,
+  differences: null,
+});
+
+/**
+ * Runs the analysis for every column in parallel; a requested manifest is planned from the column's analysis.
+ * A failed column does not stop the others; the summary is only requested when at least two columns succeeded.
+ */
+export const runStackComparison = async (
+  features: ParsedFeature[],
+  initial: StackComparison,
+  options: ComparisonRunOptions
+): Promise<StackComparison> => {
+  const { signal } = options;
+  let comparison = initial;
+  const update = (next: StackComparison) => {
+    comparison = next;
+    options.onUpdate(next);
+  };
+  const patchColumn = (index: number, patch: Partial<ComparisonColumn>) => update({
+    ...comparison,
+    columns: comparison.columns.map((column, i) => (i === index ? { ...column, ...patch } : column)),
+  });
+
+  const runColumn = async (column: ComparisonColumn, index: number) => {
+    patchColumn(index, { status: 'running', analysis: null, plan: null, assessment: undefined, error: undefined });
+    try {
+      const analysis = await analyzeRequirementsFast(features, column.stack, signal);
+      patchColumn(index, { analysis });
+      const plan = comparison.includeManifest ? await planScaffold(features, column.stack, { analysis, contract: null }, signal) : null;
+      patchColumn(index, { status: 'done', plan });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      patchColumn(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  update({ ...comparison, differences: null, summaryError: undefined });
+  await Promise.all(comparison.columns.map(runColumn));
+
+  const succeeded = comparison.columns.filter(column => column.status === 'done');
+  if (succeeded.length < 2) return comparison;
+
+  try {
+    const summary = await compareStackAnalyses(features, succeeded, signal);
+    // Assessments follow the order of the succeeded columns only
+    update({
+      ...comparison,
+      differences: summary.differences,
+      columns: comparison.columns.map(column => {
+        const position = succeeded.indexOf(column);
+        return position === -1 ? column : { ...column, assessment: summary.assessments[position] };
+      }),
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    update({ ...comparison, summaryError: error instanceof Error ? error.message : String(error) });
+  }
+  return comparison;
+};
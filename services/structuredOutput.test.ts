@@ -0,0 +1,124 @@
+import { Schema, Type } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerateRequest } from './providers';
+import { generateStructured, repairJson, StructuredOutputError, validateAgainstSchema } from './structuredOutput';
+
+// Each call answers with the next queued response
+const provider = vi.hoisted(() => ({ responses: [] as string[], prompts: [] as string[] }));
+
+vi.mock('./providers', () => ({
+  getActiveProvider: () => ({
+    generate: async (request: GenerateRequest) => {
+      provider.prompts.push(request.prompt);
+      return provider.responses.shift() ?? '';
+    },
+    generateStream: async function* (request: GenerateRequest) {
+      provider.prompts.push(request.prompt);
+      const text = provider.responses.shift() ?? '';
+      for (let i = 0; i < text.length; i += 5) yield text.slice(i, i + 5);
+    },
+  }),
+}));
+
+const FILES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    files: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { path: { type: Type.STRING }, size: { type: Type.INTEGER }, kind: { type: Type.STRING, enum: ['code', 'doc'] } },
+        required: ['path'],
+      },
+    },
+  },
+  required: ['files'],
+};
+
+describe('repairJson', () => {
+  it('drops code fences and text around the value', () => {
+    expect(repairJson('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(repairJson('Here you go: {"a": [1, 2]} Hope that helps!')).toBe('{"a": [1, 2]}');
+  });
+
+  it('removes trailing commas outside strings', () => {
+    expect(JSON.parse(repairJson('{"a": [1, 2,], "b": "x,]",}')!)).toEqual({ a: [1, 2], b: 'x,]' });
+  });
+
+  it('drops the incomplete array element of truncated output and closes the brackets', () => {
+    expect(JSON.parse(repairJson('{"files": [{"path": "a.ts"}, {"path": "b')!)).toEqual({ files: [{ path: 'a.ts' }] });
+    expect(JSON.parse(repairJson('[1, 2, 3')!)).toEqual([1, 2]);
+  });
+
+  it('gives up when no value starts or nothing can be kept', () => {
+    expect(repairJson('No JSON here')).toBeNull();
+    expect(repairJson('{"summary": "cut off')).toBeNull();
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateAgainstSchema({ files: [{ path: 'a.ts', size: 3, kind: 'code' }] }, FILES_SCHEMA)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validateAgainstSchema({ files: [{ size: '3' }, { path: 1, kind: 'image' }] }, FILES_SCHEMA)).toEqual([
+      'response.files[0].path: required field is missing',
+      'response.files[0].size: expected a number, got string',
+      'response.files[1].path: expected a string, got number',
+      'response.files[1].kind: "image" is not one of code, doc',
+    ]);
+    expect(validateAgainstSchema([], FILES_SCHEMA)).toEqual(['response: expected an object, got array']);
+    expect(validateAgainstSchema({ files: null }, FILES_SCHEMA)).toEqual(['response.files: required field is missing']);
+  });
+});
+
+describe('generateStructured', () => {
+  const request = { task: 'generateScaffoldFiles' as const, tier: 'smart' as const, prompt: 'Write the files.', responseSchema: FILES_SCHEMA };
+
+  beforeEach(() => {
+    provider.responses = [];
+    provider.prompts = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('resolves with a valid answer on the first attempt', async () => {
+    provider.responses = ['```json\n{"files": [{"path": "a.ts"},]}\n```'];
+    await expect(generateStructured(request)).resolves.toEqual({ files: [{ path: 'a.ts' }] });
+    expect(provider.prompts).toEqual(['Write the files.']);
+  });
+
+  it('retries with the problems fed back', async () => {
+    provider.responses = ['{"files": [{"path": 42}]}', '{"files": [{"path": "a.ts"}]}'];
+    await expect(generateStructured(request)).resolves.toEqual({ files: [{ path: 'a.ts' }] });
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toContain('Write the files.');
+    expect(provider.prompts[1]).toContain('- response.files[0].path: expected a string, got number');
+  });
+
+  it('feeds back the problems found by validate', async () => {
+    provider.responses = ['{"files": []}', '{"files": [{"path": "a.ts"}]}'];
+    const validate = ({ files }: { files: unknown[] }) => (files.length === 0 ? ['response.files: a.ts is missing'] : []);
+    await expect(generateStructured(request, { validate })).resolves.toEqual({ files: [{ path: 'a.ts' }] });
+    expect(provider.prompts[1]).toContain('- response.files: a.ts is missing');
+  });
+
+  it('throws a StructuredOutputError when the attempts run out', async () => {
+    provider.responses = ['not json', '{"files": "none"}', '{"files": [{"path": "late.ts"}]}'];
+    const result = generateStructured(request);
+    await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(result).rejects.toMatchObject({
+      task: 'generateScaffoldFiles',
+      attempts: 2,
+      issues: ['response.files: expected an array, got string'],
+      message: 'File generation returned an invalid response after 2 attempts: response.files: expected an array, got string',
+    });
+  });
+
+  it('streams every chunk with its attempt number', async () => {
+    provider.responses = ['{"files": 1}', '{"files": []}'];
+    const chunks: Record<number, string> = {};
+    await generateStructured(request, { onChunk: (chunk, attempt) => { chunks[attempt] = (chunks[attempt] ?? '') + chunk; } });
+    expect(chunks).toEqual({ 1: '{"files": 1}', 2: '{"files": []}' });
+  });
+});
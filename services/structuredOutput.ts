@@ -0,0 +1,218 @@
+import { Schema, Type } from "@google/genai";
+import { getActiveProvider, GenerateRequest, LLMTask } from "./providers";
+
+// One retry with the problems fed back fixes most shape errors, more rarely helps
+const DEFAULT_MAX_ATTEMPTS = 2;
+// The model only needs the first few problems to correct its answer
+const MAX_REPORTED_ISSUES = 10;
+
+const TASK_LABELS: Record<LLMTask, string> = {
+  parseDocument: 'Requirement extraction',
+  reviewRequirements: 'Requirements review',
+  analyzeRequirements: 'Requirement analysis',
+  recommendStack: 'Stack recommendation',
+  compareStacks: 'Stack comparison',
+  generateDiagrams: 'Diagram generation',
+  generateContract: 'Contract generation',
+  planScaffold: 'Codebase planning',
+  generateScaffoldFiles: 'File generation',
+  generateScaffoldReadme: 'README generation',
+  generateDemoPrototype: 'Demo generation',
+  proposeScaffoldEdits: 'Edit proposal',
+  repairScaffoldFiles: 'File repair',
+};
+
+/**
+ * The model kept answering with JSON that could not be parsed or did not match the response schema.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly task: LLMTask,
+    /** Problems found in the last response, e.g. "files[2].content: expected a string". */
+    readonly issues: string[],
+    readonly attempts: number
+  ) {
+    super(`${TASK_LABELS[task]} returned an invalid response after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Drops the Markdown code fence models like to wrap their answers in, with or without a language tag.
+ */
+export const stripCodeFence = (text: string) => text.trim().replace(/^```[\w-]*\s*\n?/, '').replace(/\n?```\s*$/, '');
+
+// JSON.parse rejects trailing commas, which models emit now and then
+const removeTrailingCommas = (text: string): string => {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      out += char;
+      if (char === '\\') out += text[++i] ?? '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char !== ',' || !/^\s*[}\]]/.test(text.slice(i + 1))) {
+      out += char;
+    }
+  }
+  return out;
+};
+
+/**
+ * Turns near-JSON into JSON where that is possible without guessing content: drops code fences and any text
+ * around the outermost value, removes trailing commas and, for truncated output, drops the incomplete array
+ * element and closes the open brackets. Returns null when no JSON value starts in the text.
+ */
+export const repairJson = (text: string): string | null => {
+  const source = stripCodeFence(text);
+  const start = source.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Last position where cutting the text and closing the open brackets still yields valid JSON.
+  // Only array boundaries count: cutting inside an object would silently drop some of its fields.
+  let safe = { index: start, stack: [] as string[] };
+  const insideArray = () => stack[stack.length - 1] === ']';
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      if (char === '[') safe = { index: i + 1, stack: [...stack] };
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return removeTrailingCommas(source.slice(start, i + 1));
+      if (insideArray()) safe = { index: i + 1, stack: [...stack] };
+    } else if (char === ',' && insideArray()) {
+      safe = { index: i, stack: [...stack] };
+    }
+  }
+
+  if (safe.stack.length === 0) return null;
+  return removeTrailingCommas(source.slice(start, safe.index) + [...safe.stack].reverse().join(''));
+};
+
+const describeType = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+/**
+ * Checks a parsed value against the Gemini style response schema that was sent with the request.
+ * Returns one message per problem, each prefixed with the path of the offending value.
+ */
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = 'response'): string[] => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected an object, got ${describeType(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required || [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key}: required field is missing`);
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      });
+      return issues;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path}: expected an array, got ${describeType(value)}`];
+      return schema.items ? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`)) : [];
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: expected a string, got ${describeType(value)}`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`] : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return typeof value === 'number' ? [] : [`${path}: expected a number, got ${describeType(value)}`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: expected a boolean, got ${describeType(value)}`];
+    default:
+      return [];
+  }
+};
+
+type ParseResult<T> = { value: T; issues: [] } | { value: null; issues: string[] };
+
+/**
+ * Parses a model response, repairing near-JSON if needed, and validates it against the schema.
+ */
+export const parseStructured = <T>(text: string, schema: Schema, validate?: (value: T) => string[]): ParseResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const repaired = repairJson(text);
+    try {
+      if (repaired === null) throw error;
+      parsed = JSON.parse(repaired);
+    } catch (repairError) {
+      const message = repairError instanceof Error ? repairError.message : String(repairError);
+      return { value: null, issues: [`response is not valid JSON (${message})`] };
+    }
+  }
+
+  const issues = validateAgainstSchema(parsed, schema);
+  if (issues.length === 0 && validate) issues.push(...validate(parsed as T));
+  return issues.length > 0 ? { value: null, issues } : { value: parsed as T, issues: [] };
+};
+
+export interface StructuredRequestOptions<T> {
+  /** Checks beyond the schema, e.g. that every requested file came back. */
+  validate?: (value: T) => string[];
+  maxAttempts?: number;
+  /** Streams the response and passes every fragment on, for progress while the JSON arrives. A retry starts over at attempt 2. */
+  onChunk?: (chunk: string, attempt: number) => void;
+}
+
+const withFeedback = (prompt: string, issues: string[]) => `${prompt}
+
+    Your previous response was rejected because it did not match the required JSON format:
+    ${issues.slice(0, MAX_REPORTED_ISSUES).map(issue => `- ${issue}`).join('\n    ')}
+    Answer again with the complete JSON, fixing these problems.`;
+
+/**
+ * Requests JSON from the active provider and only resolves with a value that matches `request.responseSchema`.
+ * Invalid answers are retried with the problems fed back; when attempts run out a StructuredOutputError is thrown.
+ * Provider and abort errors are passed through unchanged.
+ */
+export const generateStructured = async <T>(
+  request: GenerateRequest & { responseSchema: Schema },
+  options: StructuredRequestOptions<T> = {}
+): Promise<T> => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const prompt = attempt === 1 ? request.prompt : withFeedback(request.prompt, issues);
+    let text = '';
+    if (options.onChunk) {
+      for await (const chunk of getActiveProvider().generateStream({ ...request, prompt })) {
+        text += chunk;
+        options.onChunk(chunk, attempt);
+      }
+    } else {
+      text = await getActiveProvider().generate({ ...request, prompt });
+    }
+
+    const result = parseStructured<T>(text, request.responseSchema, options.validate);
+    if (result.value !== null) return result.value;
+    issues = result.issues;
+    console.warn(`${TASK_LABELS[request.task]}: invalid response on attempt ${attempt}`, issues);
+  }
+
+  throw new StructuredOutputError(request.task, issues, maxAttempts);
+};
@@ -0,0 +1,44 @@
+import { CodeScaffold, ParsedFeature, ProjectFile } from "../types";
+
+export interface FeatureTrace {
+  feature: ParsedFeature;
+  files: ProjectFile[];
+}
+
+export interface TraceabilityReport {
+  traces: FeatureTrace[];
+  uncoveredFeatures: ParsedFeature[];
+  /** Files that declare no known feature (config, infrastructure, or stale links). */
+  orphanFiles: ProjectFile[];
+  /** Share of features implemented by at least one file, 0-100. */
+  coverage: number;
+}
+
+// Models echo titles with small variations in case and spacing
+export const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Files whose declared featureTitles include the given feature title.
+ */
+export const getLinkedFiles = (scaffold: CodeScaffold, title: string): ProjectFile[] => {
+  const key = normalizeTitle(title);
+  return scaffold.files.filter(file => (file.featureTitles || []).some(t => normalizeTitle(t) === key));
+};
+
+export const buildTraceabilityReport = (features: ParsedFeature[], scaffold: CodeScaffold): TraceabilityReport => {
+  const known = new Set(features.map(f => normalizeTitle(f.title)));
+  const traces = features.map(feature => ({ feature, files: getLinkedFiles(scaffold, feature.title) }));
+  const uncoveredFeatures = traces.filter(trace => trace.files.length === 0).map(trace => trace.feature);
+  const orphanFiles = scaffold.files.filter(
+    file => !(file.featureTitles || []).some(t => known.has(normalizeTitle(t)))
+  );
+
+  return {
+    traces,
+    uncoveredFeatures,
+    orphanFiles,
+    coverage: features.length === 0
+      ? 0
+      : Math.round(((features.length - uncoveredFeatures.length) / features.length) * 100),
+  };
+};
@@ -4,24 +4,200 @@ export interface ParsedFeature {
   icon: string;
   content: string;
   raw: string;
+  /** Open points from the last requirements review; missing until a review ran. */
+  findings?: RequirementFinding[];
+  /** Ids of the documents the feature was imported from; several after a merge, missing for features added by hand. */
+  sources?: string[];
+  /** Where in the source documents the feature was found, so it can be checked against them. */
+  anchors?: SourceAnchor[];
+}
+
+/**
+ * A passage of a source document a feature was extracted from.
+ */
+export interface SourceAnchor {
+  /** Empty until the document is added to a project. */
+  documentId: string;
+  /** 1-based page, for PDFs. */
+  page?: number;
+  /** The nearest heading above the passage. */
+  section?: string;
+  /** The passage as it appears in the document. */
+  quote: string;
+}
+
+export type DocumentKind = 'pdf' | 'docx' | 'text' | 'markdown' | 'html' | 'csv' | 'xlsx' | 'json';
+
+/**
+ * A document the project's requirements were imported from.
+ */
+export interface SourceDocument {
+  id: string;
+  /** The file name, which also identifies the document when it is imported again. */
+  name: string;
+  importedAt: number;
+  /** Hash of the file content; an unchanged file is not parsed again. */
+  fingerprint: string;
+  /** Missing in projects saved before the document viewer existed. */
+  kind?: DocumentKind;
+  /** The extracted text (CSV for spreadsheets), or base64 for PDFs, for showing the source passages. */
+  content?: string;
+}
+
+export type FindingCategory = 'acceptanceCriteria' | 'conflict' | 'undefinedRole' | 'nonFunctional' | 'ambiguity';
+
+/**
+ * Something the requirements leave out or get wrong, with the question that would settle it.
+ */
+export interface RequirementFinding {
+  id: string;
+  category: FindingCategory;
+  severity: RiskSeverity;
+  issue: string;
+  question: string;
+  /** The other features involved, e.g. the one a requirement conflicts with. */
+  relatedTitles?: string[];
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isThinking?: boolean;
+  /** File changes proposed by the architect in edit mode */
+  edits?: FileEdit[];
+}
+
+export type FileEditAction = 'create' | 'modify' | 'delete';
+
+export type FileEditStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * A change to one scaffold file proposed through the chat. Create and modify carry the full new content.
+ */
+export interface FileEdit {
+  id: string;
+  action: FileEditAction;
+  path: string;
+  content?: string;
+  language?: string;
+  featureTitles?: string[];
+  description: string;
+  status: FileEditStatus;
 }
 
 export interface TechStack {
   language: string;
   frontendFramework: string;
   backendFramework: string;
+  /** Optional dimensions; empty or missing means "let the architect decide". */
+  database?: string;
+  orm?: string;
+  authProvider?: string;
+  deploymentTarget?: string;
+  testFramework?: string;
+}
+
+export type StackCriterion = 'realtime' | 'dataModel' | 'teamLanguage' | 'hosting';
+
+/**
+ * What the team brings to the table; both fields are free text and optional.
+ */
+export interface StackPreferences {
+  teamLanguages?: string;
+  hosting?: string;
+}
+
+/**
+ * A candidate stack scored against the requirements. Scores run from 1 (poor fit) to 10 (ideal).
+ */
+export interface StackRecommendation {
+  stack: TechStack;
+  scores: Record<StackCriterion, number>;
+  /** One short sentence per criterion explaining its score. */
+  notes: Record<StackCriterion, string>;
+  rationale: string;
+}
+
+export type RiskSeverity = 'low' | 'medium' | 'high';
+
+export interface AnalysisModule {
+  name: string;
+  responsibilities: string[];
+  /** Titles of the ParsedFeatures the module covers. */
+  featureTitles: string[];
+}
+
+export interface AnalysisEntity {
+  name: string;
+  description: string;
+  /** Plain-language relations, e.g. "has many Tasks". */
+  relations: string[];
+}
+
+export interface AnalysisIntegration {
+  name: string;
+  purpose: string;
+}
+
+export interface AnalysisConcern {
+  /** e.g. Performance, Security, Availability, Compliance */
+  category: string;
+  description: string;
+}
+
+export interface AnalysisRisk {
+  description: string;
+  severity: RiskSeverity;
+  mitigation: string;
+}
+
+/**
+ * The architect's reading of the requirements for the selected stack. Shown as sections and
+ * passed to code generation and the chat, so all of them work from the same decisions.
+ */
+export interface RequirementsAnalysis {
+  /** e.g. "Modular monolith" or "Event-driven microservices" */
+  architectureStyle: string;
+  summary: string;
+  modules: AnalysisModule[];
+  entities: AnalysisEntity[];
+  integrations: AnalysisIntegration[];
+  nonFunctional: AnalysisConcern[];
+  risks: AnalysisRisk[];
+  openQuestions: string[];
+}
+
+export interface DataField {
+  name: string;
+  /** Logical type: string, integer, number, boolean, date, datetime, uuid, enum, json */
+  type: string;
+  required: boolean;
+  unique?: boolean;
+  /** Name of the entity this field points at, for foreign keys. */
+  references?: string;
+}
+
+export interface DataEntity {
+  name: string;
+  description: string;
+  fields: DataField[];
+}
+
+/**
+ * The agreed contract code generation has to follow: the entity-relationship model and the
+ * OpenAPI 3 document. The spec is kept as the JSON text the user edits, so half-finished edits survive.
+ */
+export interface ApiContract {
+  entities: DataEntity[];
+  openApi: string;
 }
 
 export interface ProjectFile {
   path: string;
   content: string;
   language: string;
+  /** Titles of the ParsedFeatures this file implements, as declared by the generator. */
+  featureTitles?: string[];
 }
 
 export interface CodeScaffold {
@@ -30,6 +206,94 @@ export interface CodeScaffold {
   demoHtml: string;
 }
 
+/**
+ * A file the planner decided the project needs, before its content is written.
+ */
+export interface PlannedFile {
+  path: string;
+  language: string;
+  /** What the file does and which symbols it exports, so batches can import from each other. */
+  purpose: string;
+  featureTitles: string[];
+}
+
+/**
+ * First stage of chunked generation: the architecture and the full file manifest.
+ */
+export interface ScaffoldPlan {
+  architecture: string;
+  files: PlannedFile[];
+}
+
+export type ScaffoldProblemKind = 'json' | 'syntax' | 'import' | 'duplicate';
+
+/**
+ * A static check that failed for one file of the scaffold. Lines and columns are 1-based.
+ */
+export interface ScaffoldProblem {
+  path: string;
+  kind: ScaffoldProblemKind;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export type ScaffoldVersionSource = 'generation' | 'edit' | 'manual' | 'repair' | 'docs' | 'restore';
+
+export type DiagramKind = 'component' | 'deployment' | 'sequence';
+
+/**
+ * An architecture diagram kept as Mermaid source; the SVG is rendered from it on demand.
+ */
+export interface ArchitectureDiagram {
+  kind: DiagramKind;
+  title: string;
+  source: string;
+}
+
+/**
+ * Snapshot of the scaffold taken after every generation and every accepted edit.
+ */
+export interface ScaffoldVersion {
+  id: string;
+  createdAt: number;
+  source: ScaffoldVersionSource;
+  label: string;
+  scaffold: CodeScaffold;
+}
+
+/**
+ * Everything needed to bring a workspace back after a reload.
+ */
+export interface ProjectSnapshot {
+  features: ParsedFeature[];
+  techStack: TechStack;
+  /** Projects saved before the analysis was structured hold a plain string, see normalizeAnalysis. */
+  analysis: RequirementsAnalysis | null;
+  codeScaffold: CodeScaffold | null;
+  messages: ChatMessage[];
+  /** Oldest first. Missing in projects saved before version history existed. */
+  scaffoldVersions?: ScaffoldVersion[];
+  /** Missing in projects saved before multi-document import existed. */
+  documents?: SourceDocument[];
+  /** Missing in projects saved before contracts existed. */
+  contract?: ApiContract | null;
+  /** Missing in projects saved before diagrams existed. */
+  diagrams?: ArchitectureDiagram[];
+  /** Set when features were edited after the analysis / scaffold were produced. */
+  analysisStale?: boolean;
+  scaffoldStale?: boolean;
+}
+
+export interface SavedProject extends ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Pick<SavedProject, 'id' | 'name' | 'updatedAt'>;
+
 export enum AnalysisStatus {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',